@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { inferPreferencesWithLLM, type InferredPreferences } from "@/lib/agents";
+import { getProviderReport, withModelProfile } from "@/lib/llm/profiles";
 
 /**
  * 意图分析 API - 仅分析用户意图，不执行搜索
  * 返回推断的偏好供用户确认/调整
  */
-export async function POST(request: NextRequest) {
+export const POST = withModelProfile(async (request: NextRequest) => {
   try {
     const { message } = (await request.json()) as {
       message: string;
@@ -31,6 +32,7 @@ export async function POST(request: NextRequest) {
       understandingText,
       // 建议的搜索查询（供预览）
       suggestedQuery: buildPreviewQuery(inferredPreferences),
+      llm: getProviderReport(),
     });
   } catch (error) {
     console.error("[Analyze] Error:", error);
@@ -41,7 +43,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * 生成理解确认文本（多语言）
@@ -1,17 +1,62 @@
 import { NextRequest, NextResponse } from "next/server";
 import { runBookAnalysis } from "@/lib/agents/book-agent";
-import { Book } from "@/types/book";
+import { Book, ReaderProfile } from "@/types/book";
+import { getProviderReport, withModelProfile } from "@/lib/llm/profiles";
+import { getRequestUsage } from "@/lib/llm/usage";
 
-export async function POST(request: NextRequest) {
+const LEVELS = ["beginner", "intermediate", "advanced"] as const;
+const BOOK_TYPES = ["practical", "theoretical", "both"] as const;
+const MAX_HISTORY = 10;
+
+function pick<T extends string>(values: readonly T[], value: unknown): T | undefined {
+  return values.find((item) => item === value);
+}
+
+/**
+ * 读者画像：只接受已知的水平、类型，以及最近的若干个书名
+ */
+function parseReaderProfile(
+  preferences: unknown,
+  readingHistory: unknown
+): ReaderProfile | undefined {
+  const prefs = (preferences && typeof preferences === "object" ? preferences : {}) as Record<
+    string,
+    unknown
+  >;
+  const topic = typeof prefs.topic === "string" ? prefs.topic.trim().slice(0, 100) : "";
+  const history = Array.isArray(readingHistory)
+    ? readingHistory
+        .filter((title): title is string => typeof title === "string" && title.trim() !== "")
+        .map((title) => title.trim().slice(0, 200))
+        .slice(0, MAX_HISTORY)
+    : [];
+
+  const reader: ReaderProfile = {
+    preferences: {
+      level: pick(LEVELS, prefs.level),
+      bookType: pick(BOOK_TYPES, prefs.bookType),
+      topic: topic || undefined,
+    },
+    readingHistory: history.length > 0 ? history : undefined,
+  };
+  const hasPreferences = Object.values(reader.preferences || {}).some(Boolean);
+  return hasPreferences || reader.readingHistory ? reader : undefined;
+}
+
+export const POST = withModelProfile(async (request: NextRequest) => {
   try {
     const body = await request.json();
-    const { book } = body as { book: Book };
+    const { book, preferences, readingHistory } = body as {
+      book: Book;
+      preferences?: unknown;
+      readingHistory?: unknown;
+    };
 
     if (!book || !book.id) {
       return NextResponse.json({ error: "Book data is required" }, { status: 400 });
     }
 
-    const result = await runBookAnalysis(book);
+    const result = await runBookAnalysis(book, parseReaderProfile(preferences, readingHistory));
 
     if (result.error) {
       return NextResponse.json({ error: result.error }, { status: 500 });
@@ -20,9 +65,11 @@ export async function POST(request: NextRequest) {
     return NextResponse.json({
       analysis: result.analysis,
       book,
+      llm: getProviderReport(),
+      usage: getRequestUsage(),
     });
   } catch (error) {
     console.error("Analysis error:", error);
     return NextResponse.json({ error: "Failed to analyze book" }, { status: 500 });
   }
-}
+});
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { findSourceByBookId } from "@/lib/sources";
+
+/**
+ * GET /api/books/[id]
+ * 根据书籍 ID（如 "google_xxx"、"douban_xxx"）从对应数据源获取详情
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const { id: rawId } = await params;
+  const bookId = decodeURIComponent(rawId);
+
+  const match = findSourceByBookId(bookId);
+  if (!match || !match.source.getById) {
+    return NextResponse.json({ error: "Unsupported book ID" }, { status: 400 });
+  }
+
+  try {
+    const book = await match.source.getById(match.id);
+
+    if (!book) {
+      return NextResponse.json({ error: "Book not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ book });
+  } catch (error) {
+    console.error(`[Books] Failed to fetch ${bookId}:`, error);
+    return NextResponse.json({ error: "Failed to fetch book" }, { status: 502 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getCacheStats, getSearchCache } from "@/lib/cache";
+
+/**
+ * GET /api/cache
+ * 获取搜索缓存的命中统计
+ */
+export async function GET() {
+  return NextResponse.json(getCacheStats());
+}
+
+/**
+ * 是否允许清空缓存：设置了 CACHE_ADMIN_TOKEN 时需在请求头中携带
+ * （Authorization: Bearer <token>），未设置时只在开发环境允许
+ */
+function canClearCache(request: NextRequest): boolean {
+  const token = process.env.CACHE_ADMIN_TOKEN;
+  if (!token) {
+    return process.env.NODE_ENV === "development";
+  }
+  return request.headers.get("authorization") === `Bearer ${token}`;
+}
+
+/**
+ * DELETE /api/cache
+ * 清空搜索缓存（包括模型能力探测结果和书籍分析依据）
+ */
+export async function DELETE(request: NextRequest) {
+  if (!canClearCache(request)) {
+    return NextResponse.json({ success: false, error: "无权清空缓存" }, { status: 403 });
+  }
+
+  try {
+    await getSearchCache().clear();
+    console.log("[Cache] Cleared");
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[Cache] Clear error:", error);
+    return NextResponse.json({ success: false, error: "清空缓存失败" }, { status: 500 });
+  }
+}
@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from "next/server";
 import { HumanMessage, AIMessage, BaseMessage, SystemMessage } from "@langchain/core/messages";
-import { runBookAgent, type InferredPreferences } from "@/lib/agents";
-import { searchGoogleBooks } from "@/lib/api/google-books";
-import { searchOpenLibrary } from "@/lib/api/open-library";
-import { searchDoubanBooks, isChineseQuery } from "@/lib/api/douban";
+import { runBookAgent, getLastAIMessageContent, type InferredPreferences } from "@/lib/agents";
+import { isChineseQuery } from "@/lib/api/douban";
+import { searchAllSources } from "@/lib/sources";
 import { Book } from "@/types/book";
 import { createLLM } from "@/lib/llm/factory";
+import { getProviderReport, withModelProfile } from "@/lib/llm/profiles";
+import { getRequestUsage } from "@/lib/llm/usage";
 
 // 检测语言
 function detectLanguage(text: string): "zh" | "en" {
@@ -60,9 +61,9 @@ interface ChatState {
  * 统一的 Chat API
  * 支持两种模式：
  * - mode: "basic" - 简单对话模式（默认）
- * - mode: "agent" - LangGraph Agent 模式
+ * - mode: "agent" - LangGraph Agent 模式，状态按 threadId 保存在服务端
  */
-export async function POST(request: NextRequest) {
+export const POST = withModelProfile(async (request: NextRequest) => {
   try {
     const body = await request.json();
     const {
@@ -71,12 +72,16 @@ export async function POST(request: NextRequest) {
       mode = "basic",
       state,
       adjustedPreferences,
+      threadId,
+      checkpointId,
     } = body as {
       message: string;
       history: ChatMessage[];
       mode?: "basic" | "agent";
       state?: ChatState;
       adjustedPreferences?: Partial<InferredPreferences>;
+      threadId?: string;
+      checkpointId?: string;
     };
 
     if (!message) {
@@ -85,7 +90,10 @@ export async function POST(request: NextRequest) {
 
     // 根据模式选择处理方式
     if (mode === "agent") {
-      return handleAgentMode(message, history, state, adjustedPreferences);
+      return handleAgentMode(message, history, state, adjustedPreferences, {
+        threadId,
+        checkpointId,
+      });
     } else {
       return handleBasicMode(message, history);
     }
@@ -99,7 +107,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 /**
  * 基础对话模式 - 简单的问答 + 搜索
@@ -110,7 +118,7 @@ async function handleBasicMode(message: string, history: ChatMessage[]) {
 
   try {
     // 使用 LLM 工厂创建模型
-    const llm = createLLM();
+    const llm = createLLM("chat");
 
     // Build conversation history
     const messages: BaseMessage[] = [
@@ -144,35 +152,13 @@ async function handleBasicMode(message: string, history: ChatMessage[]) {
       try {
         const isChinese = isChineseQuery(searchQuery);
 
-        let allBooks: Book[] = [];
-
-        if (isChinese) {
-          // 中文搜索：优先豆瓣
-          const [doubanResults, googleResults] = await Promise.all([
-            searchDoubanBooks(searchQuery, 10).catch(() => ({ books: [] })),
-            searchGoogleBooks(searchQuery, undefined, 6).catch(() => ({
-              books: [],
-              totalItems: 0,
-              query: searchQuery,
-            })),
-          ]);
-          allBooks = [...doubanResults.books, ...googleResults.books];
-        } else {
-          // 英文搜索：Google + Open Library
-          const [googleResults, openLibraryResults] = await Promise.all([
-            searchGoogleBooks(searchQuery, undefined, 8).catch(() => ({
-              books: [],
-              totalItems: 0,
-              query: searchQuery,
-            })),
-            searchOpenLibrary(searchQuery, 6).catch(() => ({
-              books: [],
-              totalItems: 0,
-              query: searchQuery,
-            })),
-          ]);
-          allBooks = [...googleResults.books, ...openLibraryResults.books];
-        }
+        // 按数据源配比搜索：中文优先豆瓣，英文使用 Google + Open Library
+        const sourceResults = await searchAllSources([searchQuery], {
+          maxResults: 14,
+          language: isChinese ? "zh" : "en",
+          queryHasChinese: isChinese,
+        });
+        const allBooks = sourceResults.flatMap((result) => result.books);
 
         // Deduplicate
         const seen = new Set<string>();
@@ -214,6 +200,8 @@ async function handleBasicMode(message: string, history: ChatMessage[]) {
     return NextResponse.json({
       message: cleanResponse,
       books: books.length > 0 ? books : undefined,
+      llm: getProviderReport(),
+      usage: getRequestUsage(),
     });
   } catch (error) {
     console.error("[Basic Mode] LLM Error:", error);
@@ -228,15 +216,17 @@ async function handleAgentMode(
   message: string,
   history: ChatMessage[],
   state?: ChatState,
-  adjustedPreferences?: Partial<InferredPreferences>
+  adjustedPreferences?: Partial<InferredPreferences>,
+  thread: { threadId?: string; checkpointId?: string } = {}
 ) {
   const lang = detectLanguage(message);
 
   console.log("[API] Agent mode - message:", message);
+  console.log("[API] Thread:", thread.threadId || "(new)");
   console.log("[API] History length:", history?.length || 0);
   console.log("[API] Adjusted preferences:", adjustedPreferences);
 
-  // 将历史消息转换为 LangChain 消息格式
+  // 将历史消息转换为 LangChain 消息格式（仅新线程使用，已有线程以服务端检查点为准）
   const previousMessages: BaseMessage[] = (history || []).map((m) =>
     m.role === "user" ? new HumanMessage(m.content) : new AIMessage(m.content)
   );
@@ -258,32 +248,37 @@ async function handleAgentMode(
   }
 
   // 运行 LangGraph Agent
-  const result = await runBookAgent(effectiveMessage, {
-    messages: previousMessages,
-    preferences: state?.preferences || {},
-    missingFields: state?.missingFields || ["topic", "level"],
-  });
+  const {
+    threadId,
+    checkpointId,
+    state: result,
+  } = await runBookAgent(
+    effectiveMessage,
+    {
+      messages: previousMessages,
+      preferences: state?.preferences || {},
+      missingFields: state?.missingFields || ["topic", "level"],
+    },
+    thread
+  );
 
   console.log("[API] Agent result phase:", result.phase);
   console.log("[API] Books found:", result.books?.length || 0);
 
-  // 提取最后一条 AI 消息
-  const aiMessages = result.messages.filter(
-    (m) => m._getType() === "ai" && typeof m.content === "string" && m.content.length > 0
-  );
-
-  const lastAiMessage = aiMessages[aiMessages.length - 1];
   const defaultMsg =
     lang === "zh"
       ? "抱歉，我遇到了一些问题。请再试一次。"
       : "Sorry, I encountered an issue. Please try again.";
-  const responseMessage =
-    typeof lastAiMessage?.content === "string" ? lastAiMessage.content : defaultMsg;
+  const responseMessage = getLastAIMessageContent(result.messages) || defaultMsg;
 
   return NextResponse.json({
     message: responseMessage,
     books: result.books?.length > 0 ? result.books : undefined,
     inferredPreferences: result.inferredPreferences,
+    threadId,
+    checkpointId,
+    llm: getProviderReport(),
+    usage: getRequestUsage(),
     state: {
       preferences: result.preferences,
       missingFields: result.missingFields,
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from "next/server";
+import { HumanMessage, AIMessage, BaseMessage } from "@langchain/core/messages";
+import {
+  streamBookAgent,
+  type AgentStreamEvent,
+  type AgentTurnState,
+  type InferredPreferences,
+} from "@/lib/agents";
+import { createSSEResponse } from "@/lib/sse";
+import { withModelProfile } from "@/lib/llm/profiles";
+
+interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/**
+ * POST /api/chat/stream
+ * Agent 模式的流式版本，以 SSE 推送节点切换、数据源进度、部分结果和推荐说明
+ * 传入 preferences（用户确认/调整后的偏好）时跳过意图推断，直接搜索
+ * 传入 threadId 时在服务端已保存的线程上继续，完成事件中返回 threadId
+ */
+export const POST = withModelProfile(async (request: NextRequest) => {
+  try {
+    const {
+      message,
+      history = [],
+      state,
+      preferences,
+      threadId,
+      checkpointId,
+    } = (await request.json()) as {
+      message: string;
+      history?: ChatMessage[];
+      state?: Partial<AgentTurnState>;
+      preferences?: InferredPreferences;
+      threadId?: string;
+      checkpointId?: string;
+    };
+
+    if (!message) {
+      return NextResponse.json({ error: "Message is required" }, { status: 400 });
+    }
+
+    console.log("[ChatStream] Message:", message, "thread:", threadId || "(new)");
+    console.log("[ChatStream] Confirmed preferences:", preferences);
+
+    // 将历史消息转换为 LangChain 消息格式（仅新线程使用）
+    const previousMessages: BaseMessage[] = history.map((m) =>
+      m.role === "user" ? new HumanMessage(m.content) : new AIMessage(m.content)
+    );
+
+    const events = streamBookAgent(
+      message,
+      {
+        messages: previousMessages,
+        preferences: state?.preferences || {},
+        missingFields: state?.missingFields || ["topic", "level"],
+      },
+      { threadId, checkpointId, confirmedPreferences: preferences, signal: request.signal }
+    );
+
+    return createSSEResponse<AgentStreamEvent>(events, (error) => {
+      console.error("[ChatStream] Stream error:", error);
+      return {
+        type: "error",
+        error: error instanceof Error ? error.message : "Chat failed",
+      };
+    });
+  } catch (error) {
+    console.error("[ChatStream] Error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "Chat failed" },
+      { status: 500 }
+    );
+  }
+});
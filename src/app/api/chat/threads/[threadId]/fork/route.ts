@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { forkThread, getThread } from "@/lib/agents";
+
+/**
+ * POST /api/chat/threads/[threadId]/fork
+ * 从指定检查点（默认最新）分叉出新线程，之后的对话不影响原线程
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ threadId: string }> }
+) {
+  const { threadId } = await params;
+
+  try {
+    const { checkpointId } = (await request.json().catch(() => ({}))) as {
+      checkpointId?: string;
+    };
+
+    const newThreadId = await forkThread(threadId, checkpointId);
+    if (!newThreadId) {
+      return NextResponse.json({ error: "Thread or checkpoint not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ threadId: newThreadId, thread: await getThread(newThreadId) });
+  } catch (error) {
+    console.error(`[Thread] Failed to fork ${threadId}:`, error);
+    return NextResponse.json({ error: "Failed to fork thread" }, { status: 500 });
+  }
+}
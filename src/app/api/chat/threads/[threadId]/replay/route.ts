@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from "next/server";
+import { replayBookAgent, getLastAIMessageContent, getThread } from "@/lib/agents";
+import { getProviderReport, withModelProfile } from "@/lib/llm/profiles";
+
+/**
+ * POST /api/chat/threads/[threadId]/replay
+ * 从指定检查点重新执行之后的节点，结果作为线程的新分支保存
+ */
+export const POST = withModelProfile(
+  async (request: NextRequest, { params }: { params: Promise<{ threadId: string }> }) => {
+    const { threadId } = await params;
+
+    try {
+      const { checkpointId } = (await request.json()) as { checkpointId?: string };
+
+      if (!checkpointId) {
+        return NextResponse.json({ error: "checkpointId is required" }, { status: 400 });
+      }
+
+      if (!(await getThread(threadId, checkpointId))) {
+        return NextResponse.json({ error: "Thread or checkpoint not found" }, { status: 404 });
+      }
+
+      const { state: result, ...thread } = await replayBookAgent(threadId, checkpointId);
+
+      return NextResponse.json({
+        message: getLastAIMessageContent(result.messages) || "",
+        books: result.books?.length > 0 ? result.books : undefined,
+        inferredPreferences: result.inferredPreferences,
+        ...thread,
+        llm: getProviderReport(),
+        state: {
+          preferences: result.preferences,
+          missingFields: result.missingFields,
+          phase: result.phase,
+          inferredPreferences: result.inferredPreferences,
+        },
+      });
+    } catch (error) {
+      console.error(`[Thread] Failed to replay ${threadId}:`, error);
+      return NextResponse.json({ error: "Failed to replay thread" }, { status: 500 });
+    }
+  }
+);
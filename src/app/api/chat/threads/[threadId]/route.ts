@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getThread, getThreadHistory, deleteThread } from "@/lib/agents";
+
+type RouteContext = { params: Promise<{ threadId: string }> };
+
+/**
+ * GET /api/chat/threads/[threadId]
+ * 获取线程状态（累积的偏好、消息、书籍）及检查点历史
+ * 可选 ?checkpointId= 查看历史检查点的状态
+ */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { threadId } = await params;
+  const checkpointId = request.nextUrl.searchParams.get("checkpointId") || undefined;
+
+  try {
+    const thread = await getThread(threadId, checkpointId);
+    if (!thread) {
+      return NextResponse.json({ error: "Thread not found" }, { status: 404 });
+    }
+
+    const checkpoints = await getThreadHistory(threadId);
+    return NextResponse.json({ thread, checkpoints });
+  } catch (error) {
+    console.error(`[Thread] Failed to load ${threadId}:`, error);
+    return NextResponse.json({ error: "Failed to load thread" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/chat/threads/[threadId]
+ * 删除线程及其所有检查点
+ */
+export async function DELETE(_request: NextRequest, { params }: RouteContext) {
+  const { threadId } = await params;
+
+  try {
+    await deleteThread(threadId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error(`[Thread] Failed to delete ${threadId}:`, error);
+    return NextResponse.json({ success: false, error: "删除失败" }, { status: 500 });
+  }
+}
@@ -1,38 +1,66 @@
 import { NextRequest, NextResponse } from "next/server";
-import { searchBooksTool } from "@/lib/agents/tools";
+import { searchBooks } from "@/lib/agents/tools";
 import { buildSearchQuery, createLLM, type InferredPreferences } from "@/lib/agents";
+import { decodeSearchCursor } from "@/lib/sources";
 import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { getProviderReport, withModelProfile } from "@/lib/llm/profiles";
+import { getRequestUsage } from "@/lib/llm/usage";
 
 /**
  * 确认搜索 API - 使用用户确认/调整后的偏好执行搜索
+ * 传入上一次返回的 nextCursor 时加载下一页结果
  */
-export async function POST(request: NextRequest) {
+export const POST = withModelProfile(async (request: NextRequest) => {
   try {
-    const { message, preferences } = (await request.json()) as {
+    const { message, preferences, cursor, debug } = (await request.json()) as {
       message: string;
       preferences: InferredPreferences;
+      cursor?: string; // 上一页返回的 nextCursor
+      debug?: boolean; // 返回每本书的评分明细
     };
 
     if (!preferences) {
       return NextResponse.json({ error: "Preferences are required" }, { status: 400 });
     }
 
+    const searchCursor = cursor ? decodeSearchCursor(cursor) : undefined;
+    if (searchCursor === null) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
     console.log("[ConfirmSearch] Original message:", message);
     console.log("[ConfirmSearch] Confirmed preferences:", preferences);
 
-    // 构建搜索查询
-    const searchQuery = buildSearchQuery(preferences);
+    // 构建搜索查询，加载下一页时沿用游标中的查询
+    const searchQuery = searchCursor?.query || buildSearchQuery(preferences);
     console.log("[ConfirmSearch] Search query:", searchQuery);
 
-    // 直接调用搜索工具，目标返回 20 条结果
-    const books = await searchBooksTool.invoke({
-      query: searchQuery,
+    // 直接搜索，目标返回 20 条结果；非小说类按难度与类型偏好调整排序
+    const { books, ranking, nextCursor } = await searchBooks(searchQuery, {
       maxResults: 20,
       language: preferences.language,
+      level: preferences.isFiction ? undefined : preferences.level,
+      bookType:
+        preferences.isFiction || preferences.bookType === "both" ? undefined : preferences.bookType,
+      yearPreference: preferences.yearPreference === "any" ? undefined : preferences.yearPreference,
+      cursor: searchCursor,
     });
 
     console.log("[ConfirmSearch] Books found:", books.length);
 
+    // 加载更多时不再生成推荐说明
+    if (searchCursor) {
+      return NextResponse.json({
+        success: true,
+        books,
+        searchQuery,
+        nextCursor,
+        llm: getProviderReport(),
+        usage: getRequestUsage(),
+        ...(debug && { ranking }),
+      });
+    }
+
     // 确定响应语言
     const isEnglish = preferences.language === "en";
 
@@ -42,7 +70,7 @@ export async function POST(request: NextRequest) {
       // 使用 LLM 生成推荐说明
       try {
         console.log("[ConfirmSearch] Generating recommendation message...");
-        const llm = createLLM();
+        const llm = createLLM("recommendationBlurb");
         const booksInfo = books
           .slice(0, 5)
           .map((b, idx) => `${idx + 1}. "${b.title}" - ${b.authors.join(", ")}`)
@@ -104,6 +132,10 @@ ${booksInfo}
       books,
       searchQuery,
       preferences,
+      nextCursor,
+      llm: getProviderReport(),
+      usage: getRequestUsage(),
+      ...(debug && { ranking }),
     });
   } catch (error) {
     console.error("[ConfirmSearch] Error:", error);
@@ -115,4 +147,4 @@ ${booksInfo}
       { status: 500 }
     );
   }
-}
+});
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getProviderConfig, type LLMProvider, type UserModelConfig } from "@/types/model-config";
+import { canUseStoredKey, getProfileId } from "@/lib/llm/profiles";
+import { resolveApiKey } from "@/lib/llm/secrets";
+import { getCachedCapabilities, probeModelCapabilities } from "@/lib/llm/capabilities";
+
+/**
+ * GET /api/model-config/capabilities?provider=&model=&baseUrl=&ollamaHost=
+ * 读取缓存的能力探测结果，没有探测过时返回 null
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const provider = params.get("provider") as LLMProvider | null;
+  const model = params.get("model");
+  if (!provider || !model) {
+    return NextResponse.json({ error: "缺少 provider 或 model 参数" }, { status: 400 });
+  }
+
+  const capabilities = await getCachedCapabilities({
+    provider,
+    model,
+    baseUrl: params.get("baseUrl") || undefined,
+    ollamaHost: params.get("ollamaHost") || undefined,
+  });
+  return NextResponse.json({ capabilities: capabilities || null });
+}
+
+/**
+ * POST /api/model-config/capabilities
+ * 探测模型能力（工具调用、JSON 模式、流式输出、上下文长度），结果会被缓存
+ * 请求体与 POST /api/model-config 相同，refresh 为 true 时重新探测
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { refresh, ...submitted } = (await request.json()) as UserModelConfig & {
+      refresh?: boolean;
+    };
+
+    const provider = getProviderConfig(submitted.provider);
+    if (!provider || !submitted.model) {
+      return NextResponse.json({ error: "未知的服务商或模型" }, { status: 400 });
+    }
+
+    const profileId = getProfileId(request);
+    if (!(await canUseStoredKey(profileId, submitted))) {
+      return NextResponse.json({ error: "使用自定义地址时请重新输入 API Key" }, { status: 400 });
+    }
+    const config = await resolveApiKey(profileId, submitted);
+    if (provider.requiresApiKey && !config.apiKey) {
+      const error = submitted.apiKeyId ? "API Key 已失效，请重新输入" : "此服务商需要 API Key";
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const capabilities = await probeModelCapabilities(config, { refresh });
+    return NextResponse.json({ capabilities });
+  } catch (error) {
+    console.error("[ModelConfig] Capability probe error:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : "能力探测失败" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from "next/server";
+import { LLMProvider, getProviderConfig } from "@/types/model-config";
+import { getOrCreateProfileId, getProfileCookie, getProfileId } from "@/lib/llm/profiles";
+import { deleteApiKey, listApiKeys, saveApiKey } from "@/lib/llm/secrets";
+
+/**
+ * GET /api/model-config/keys
+ * 列出当前档案保存的 API Key（只返回 Key ID 和末尾几位）
+ */
+export async function GET(request: NextRequest) {
+  const profileId = getProfileId(request);
+  return NextResponse.json({ keys: profileId ? await listApiKeys(profileId) : [] });
+}
+
+/**
+ * POST /api/model-config/keys
+ * 加密保存 API Key，返回 Key ID，不回显 Key
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const { provider, apiKey } = (await request.json()) as {
+      provider: LLMProvider;
+      apiKey: string;
+    };
+
+    if (!getProviderConfig(provider)) {
+      return NextResponse.json({ error: "未知的服务商" }, { status: 400 });
+    }
+    if (!apiKey || typeof apiKey !== "string") {
+      return NextResponse.json({ error: "API Key is required" }, { status: 400 });
+    }
+
+    const { profileId, isNew } = getOrCreateProfileId(request);
+    const key = await saveApiKey(profileId, provider, apiKey.trim());
+
+    const response = NextResponse.json(key);
+    if (isNew) response.cookies.set(getProfileCookie(profileId));
+    return response;
+  } catch (error) {
+    console.error("[ModelConfig] Save key error:", error);
+    return NextResponse.json({ error: "保存失败" }, { status: 500 });
+  }
+}
+
+/**
+ * DELETE /api/model-config/keys
+ * 删除当前档案的 API Key
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const { keyId } = (await request.json()) as { keyId: string };
+    const profileId = getProfileId(request);
+
+    if (!profileId || !keyId || !(await deleteApiKey(profileId, keyId))) {
+      return NextResponse.json({ error: "API Key 不存在" }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error("[ModelConfig] Delete key error:", error);
+    return NextResponse.json({ error: "删除失败" }, { status: 500 });
+  }
+}
@@ -1,20 +1,41 @@
 import { NextRequest, NextResponse } from "next/server";
-import { LLMProvider, getProviderConfig, ModelInfo } from "@/types/model-config";
+import {
+  LLMProvider,
+  getProviderConfig,
+  ModelInfo,
+  AZURE_DEFAULT_API_VERSION,
+} from "@/types/model-config";
+import { canUseStoredKey, getProfileId } from "@/lib/llm/profiles";
+import { decryptApiKey } from "@/lib/llm/secrets";
 
 /**
- * GET /api/model-config/models?provider=xxx&apiKey=xxx
+ * POST /api/model-config/models
  * 动态获取指定服务商的可用模型列表
+ * API Key 只通过请求体提交（明文 apiKey 或已保存的 apiKeyId），避免出现在 URL 和访问日志中
  */
-export async function GET(request: NextRequest) {
-  const searchParams = request.nextUrl.searchParams;
-  const provider = searchParams.get("provider") as LLMProvider;
-  const apiKey = searchParams.get("apiKey") || "";
-  const baseUrl = searchParams.get("baseUrl") || "";
+export async function POST(request: NextRequest) {
+  const body = (await request.json().catch(() => ({}))) as {
+    provider?: LLMProvider;
+    apiKey?: string;
+    apiKeyId?: string;
+    baseUrl?: string;
+  };
+  const provider = body.provider;
 
   if (!provider) {
     return NextResponse.json({ error: "缺少 provider 参数" }, { status: 400 });
   }
 
+  const profileId = getProfileId(request);
+  if (!(await canUseStoredKey(profileId, { ...body, provider }))) {
+    return NextResponse.json({ error: "使用自定义地址时请重新输入 API Key" }, { status: 400 });
+  }
+  const apiKey =
+    body.apiKey ||
+    (body.apiKeyId && profileId && (await decryptApiKey(profileId, body.apiKeyId))) ||
+    "";
+  const baseUrl = body.baseUrl || "";
+
   try {
     const models = await fetchModels(provider, apiKey, baseUrl);
     return NextResponse.json({ models });
@@ -47,11 +68,13 @@ async function fetchModels(
       return fetchOpenAIModels(apiKey);
 
     case "anthropic":
-      // Anthropic 没有公开的模型列表 API，使用预定义
-      return getProviderConfig("anthropic")?.models || [];
+      return fetchAnthropicModels(apiKey, baseUrl);
 
     case "google":
-      return fetchGoogleModels(apiKey);
+      return fetchGoogleModels(apiKey, baseUrl);
+
+    case "azure":
+      return fetchAzureModels(apiKey, baseUrl);
 
     case "groq":
       return fetchGroqModels(apiKey);
@@ -153,18 +176,55 @@ async function fetchOpenAIModels(apiKey: string): Promise<ModelInfo[]> {
   return chatModels.slice(0, 15); // 限制数量
 }
 
+/**
+ * 获取 Anthropic 模型列表（支持兼容 Anthropic 接口的代理地址）
+ */
+async function fetchAnthropicModels(apiKey: string, baseUrl?: string): Promise<ModelInfo[]> {
+  if (!apiKey) {
+    return getProviderConfig("anthropic")?.models || [];
+  }
+
+  const apiBase = (baseUrl || "https://api.anthropic.com").replace(/\/v1\/?$/, "");
+  const response = await fetch(`${apiBase}/v1/models?limit=100`, {
+    headers: {
+      "x-api-key": apiKey,
+      "anthropic-version": "2023-06-01",
+    },
+    signal: AbortSignal.timeout(10000),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Anthropic API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const predefined = getProviderConfig("anthropic")?.models || [];
+
+  return (data.data || []).map((m: { id: string; display_name?: string }) => ({
+    // 保留预定义模型的价格和上下文信息
+    ...predefined.find((p) => p.id === m.id),
+    id: m.id,
+    name: m.display_name || formatModelName(m.id),
+  }));
+}
+
 /**
  * 获取 Google Gemini 模型列表
  */
-async function fetchGoogleModels(apiKey: string): Promise<ModelInfo[]> {
+async function fetchGoogleModels(apiKey: string, baseUrl?: string): Promise<ModelInfo[]> {
   if (!apiKey) {
     return getProviderConfig("google")?.models || [];
   }
 
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models?key=${apiKey}`,
-    { signal: AbortSignal.timeout(10000) }
+  const apiBase = (baseUrl || "https://generativelanguage.googleapis.com").replace(
+    /\/v1(beta)?\/?$/,
+    ""
   );
+  // API Key 放在请求头中，避免出现在代理日志的 URL 里
+  const response = await fetch(`${apiBase}/v1beta/models?pageSize=100`, {
+    headers: { "x-goog-api-key": apiKey },
+    signal: AbortSignal.timeout(10000),
+  });
 
   if (!response.ok) {
     throw new Error(`Google API error: ${response.status}`);
@@ -178,15 +238,65 @@ async function fetchGoogleModels(apiKey: string): Promise<ModelInfo[]> {
       m.supportedGenerationMethods?.includes("generateContent")
     )
     .filter((m: { name: string }) => m.name.includes("gemini"))
-    .map((m: { name: string; displayName: string; description: string }) => ({
-      id: m.name.replace("models/", ""),
-      name: m.displayName || m.name,
-      description: m.description?.slice(0, 50) || "",
-    }));
+    .map(
+      (m: {
+        name: string;
+        displayName: string;
+        description: string;
+        inputTokenLimit?: number;
+      }) => ({
+        id: m.name.replace("models/", ""),
+        name: m.displayName || m.name,
+        description: m.description?.slice(0, 50) || "",
+        contextLength: m.inputTokenLimit,
+      })
+    );
 
   return chatModels;
 }
 
+/**
+ * 获取 Azure OpenAI 资源可用的聊天模型
+ * Azure 按部署调用，部署名称不同于模型名时需要在设置中单独填写
+ */
+async function fetchAzureModels(apiKey: string, baseUrl?: string): Promise<ModelInfo[]> {
+  if (!apiKey || !baseUrl) {
+    return getProviderConfig("azure")?.models || [];
+  }
+
+  const endpoint = baseUrl.replace(/\/+$/, "");
+  const response = await fetch(
+    `${endpoint}/openai/models?api-version=${AZURE_DEFAULT_API_VERSION}`,
+    {
+      headers: { "api-key": apiKey },
+      signal: AbortSignal.timeout(10000),
+    }
+  );
+
+  if (!response.ok) {
+    throw new Error(`Azure OpenAI API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  const predefined = getProviderConfig("azure")?.models || [];
+
+  return (
+    (data.data || [])
+      .filter(
+        (m: { capabilities?: { chat_completion?: boolean } }) => m.capabilities?.chat_completion
+      )
+      .map((m: { id: string }) => ({
+        ...predefined.find((p) => p.id === m.id),
+        id: m.id,
+        name: formatModelName(m.id),
+      }))
+      // 同一模型的多个版本返回相同 id
+      .filter(
+        (m: ModelInfo, i: number, all: ModelInfo[]) => all.findIndex((x) => x.id === m.id) === i
+      )
+  );
+}
+
 /**
  * 获取 Groq 模型列表
  */
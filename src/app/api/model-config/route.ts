@@ -1,5 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { UserModelConfig, PROVIDERS, getProviderConfig } from "@/types/model-config";
+import {
+  getOrCreateProfileId,
+  getProfileCookie,
+  canUseStoredKey,
+  getProfileId,
+  saveProfileConfig,
+} from "@/lib/llm/profiles";
+import { resolveApiKey } from "@/lib/llm/secrets";
+import { testModelConnection } from "@/lib/llm/capabilities";
 
 /**
  * GET /api/model-config
@@ -12,276 +21,89 @@ export async function GET() {
 }
 
 /**
- * POST /api/model-config/test
+ * POST /api/model-config
  * 测试模型配置是否有效
+ * API Key 可以明文提交（只在请求体中）或使用已保存的 Key ID；
+ * save 为 true 且测试通过时保存为当前档案的配置，Key 加密保存，响应只返回 Key ID
  */
 export async function POST(request: NextRequest) {
   try {
-    const config: UserModelConfig = await request.json();
+    const { save, ...submitted } = (await request.json()) as UserModelConfig & {
+      save?: boolean;
+    };
 
     // 验证配置
-    const provider = getProviderConfig(config.provider);
+    const provider = getProviderConfig(submitted.provider);
     if (!provider) {
       return NextResponse.json({ success: false, error: "未知的服务商" }, { status: 400 });
     }
 
+    const currentProfileId = getProfileId(request);
+    if (!(await canUseStoredKey(currentProfileId, submitted))) {
+      return NextResponse.json(
+        { success: false, error: "使用自定义地址时请重新输入 API Key" },
+        { status: 400 }
+      );
+    }
+    const config = await resolveApiKey(currentProfileId, submitted);
+
     // 如果需要 API Key 但没有提供
     if (provider.requiresApiKey && !config.apiKey) {
-      return NextResponse.json({ success: false, error: "此服务商需要 API Key" }, { status: 400 });
+      const error = submitted.apiKeyId ? "API Key 已失效，请重新输入" : "此服务商需要 API Key";
+      return NextResponse.json({ success: false, error }, { status: 400 });
     }
 
-    // 测试连接
-    const testResult = await testModelConnection(config);
-
-    return NextResponse.json(testResult);
-  } catch (error) {
-    console.error("[ModelConfig] Test error:", error);
-    return NextResponse.json(
-      { success: false, error: error instanceof Error ? error.message : "测试失败" },
-      { status: 500 }
-    );
-  }
-}
-
-/**
- * 测试模型连接
- */
-async function testModelConnection(
-  config: UserModelConfig
-): Promise<{ success: boolean; error?: string; latency?: number }> {
-  try {
-    switch (config.provider) {
-      case "ollama":
-        return await testOllama(config);
-      case "openai":
-        return await testOpenAI(config);
-      case "anthropic":
-        return await testAnthropic(config);
-      case "openrouter":
-        return await testOpenRouter(config);
-      case "deepseek":
-      case "moonshot":
-      case "zhipu":
-      case "custom":
-        return await testOpenAICompatible(config);
-      default:
-        return { success: false, error: "不支持的服务商" };
-    }
-  } catch (error) {
-    return {
-      success: false,
-      error: error instanceof Error ? error.message : "连接失败",
+    // 通过 createLLM 创建实际使用的模型并测试连接
+    const testResult = {
+      ...(await testModelConnection(config)),
+      models: config.provider === "ollama" ? await listOllamaModels(config) : undefined,
     };
-  }
-}
-
-/**
- * 测试 Ollama 连接
- */
-async function testOllama(
-  config: UserModelConfig
-): Promise<{ success: boolean; error?: string; latency?: number; models?: string[] }> {
-  const baseUrl = config.ollamaHost || config.baseUrl || "http://localhost:11434";
-  const startTime = Date.now();
-
-  try {
-    // 先检查服务是否运行
-    const tagsResponse = await fetch(`${baseUrl}/api/tags`, {
-      method: "GET",
-      signal: AbortSignal.timeout(5000),
-    });
-
-    if (!tagsResponse.ok) {
-      return { success: false, error: "Ollama 服务未运行" };
-    }
-
-    const tagsData = await tagsResponse.json();
-    const availableModels = tagsData.models?.map((m: { name: string }) => m.name) || [];
-
-    // 检查指定模型是否存在
-    if (
-      config.model &&
-      !availableModels.some((m: string) => m.includes(config.model.split(":")[0]))
-    ) {
-      return {
-        success: false,
-        error: `模型 ${config.model} 未安装。可用模型: ${availableModels.join(", ")}`,
-        models: availableModels,
-      };
+    if (!save || !testResult.success) {
+      return NextResponse.json(testResult);
     }
 
-    // 测试生成
-    const generateResponse = await fetch(`${baseUrl}/api/generate`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        model: config.model || "llama3.2:latest",
-        prompt: "Say 'OK' in one word.",
-        stream: false,
-      }),
-      signal: AbortSignal.timeout(30000),
-    });
-
-    if (!generateResponse.ok) {
-      const error = await generateResponse.text();
-      return { success: false, error: `生成测试失败: ${error}` };
-    }
-
-    const latency = Date.now() - startTime;
-    return { success: true, latency, models: availableModels };
-  } catch (error) {
-    if (error instanceof Error && error.name === "TimeoutError") {
-      return { success: false, error: "连接超时，请检查 Ollama 是否运行" };
-    }
-    return { success: false, error: error instanceof Error ? error.message : "连接失败" };
-  }
-}
-
-/**
- * 测试 OpenAI 连接
- */
-async function testOpenAI(
-  config: UserModelConfig
-): Promise<{ success: boolean; error?: string; latency?: number }> {
-  const startTime = Date.now();
-
-  try {
-    const response = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${config.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: config.model || "gpt-4o-mini",
-        messages: [{ role: "user", content: "Say OK" }],
-        max_tokens: 5,
-      }),
-      signal: AbortSignal.timeout(30000),
+    // 测试通过后保存；已有 Key ID 时不重复保存 Key
+    const { profileId, isNew } = getOrCreateProfileId(request);
+    const { profile, key } = await saveProfileConfig(profileId, {
+      ...config,
+      apiKey: submitted.apiKey,
+      fallbacks: submitted.fallbacks,
+      tasks: submitted.tasks,
     });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({}));
-      return { success: false, error: error.error?.message || `API 错误: ${response.status}` };
-    }
-
-    const latency = Date.now() - startTime;
-    return { success: true, latency };
-  } catch (error) {
-    return { success: false, error: error instanceof Error ? error.message : "连接失败" };
-  }
-}
-
-/**
- * 测试 Anthropic 连接
- */
-async function testAnthropic(
-  config: UserModelConfig
-): Promise<{ success: boolean; error?: string; latency?: number }> {
-  const startTime = Date.now();
-
-  try {
-    const response = await fetch("https://api.anthropic.com/v1/messages", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "x-api-key": config.apiKey || "",
-        "anthropic-version": "2023-06-01",
-      },
-      body: JSON.stringify({
-        model: config.model || "claude-3-haiku-20240307",
-        messages: [{ role: "user", content: "Say OK" }],
-        max_tokens: 5,
-      }),
-      signal: AbortSignal.timeout(30000),
+    console.log("[ModelConfig] Tested and saved config:", {
+      profileId,
+      provider: config.provider,
+      model: config.model,
     });
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({}));
-      return { success: false, error: error.error?.message || `API 错误: ${response.status}` };
-    }
-
-    const latency = Date.now() - startTime;
-    return { success: true, latency };
-  } catch (error) {
-    return { success: false, error: error instanceof Error ? error.message : "连接失败" };
-  }
-}
-
-/**
- * 测试 OpenRouter 连接
- */
-async function testOpenRouter(
-  config: UserModelConfig
-): Promise<{ success: boolean; error?: string; latency?: number }> {
-  const startTime = Date.now();
-
-  try {
-    const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${config.apiKey}`,
-        "HTTP-Referer": process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000",
-        "X-Title": "BookFinder AI",
-      },
-      body: JSON.stringify({
-        model: config.model || "meta-llama/llama-3.3-70b-instruct:free",
-        messages: [{ role: "user", content: "Say OK" }],
-        max_tokens: 5,
-      }),
-      signal: AbortSignal.timeout(30000),
+    const response = NextResponse.json({
+      ...testResult,
+      saved: true,
+      keyId: profile.config.apiKeyId,
+      hint: key?.hint,
     });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({}));
-      return { success: false, error: error.error?.message || `API 错误: ${response.status}` };
-    }
-
-    const latency = Date.now() - startTime;
-    return { success: true, latency };
+    if (isNew) response.cookies.set(getProfileCookie(profileId));
+    return response;
   } catch (error) {
-    return { success: false, error: error instanceof Error ? error.message : "连接失败" };
+    console.error("[ModelConfig] Test error:", error);
+    return NextResponse.json(
+      { success: false, error: error instanceof Error ? error.message : "测试失败" },
+      { status: 500 }
+    );
   }
 }
 
 /**
- * 测试 OpenAI 兼容接口（DeepSeek, Moonshot, 智谱等）
+ * Ollama 已安装的模型列表，测试时一并返回供界面选择
  */
-async function testOpenAICompatible(
-  config: UserModelConfig
-): Promise<{ success: boolean; error?: string; latency?: number }> {
-  const startTime = Date.now();
-  const provider = getProviderConfig(config.provider);
-  const baseUrl = config.baseUrl || provider?.baseUrl;
-
-  if (!baseUrl) {
-    return { success: false, error: "未配置 API 地址" };
-  }
-
+async function listOllamaModels(config: UserModelConfig): Promise<string[] | undefined> {
+  const baseUrl = config.ollamaHost || config.baseUrl || "http://localhost:11434";
   try {
-    const response = await fetch(`${baseUrl}/chat/completions`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${config.apiKey}`,
-      },
-      body: JSON.stringify({
-        model: config.model,
-        messages: [{ role: "user", content: "Say OK" }],
-        max_tokens: 5,
-      }),
-      signal: AbortSignal.timeout(30000),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({}));
-      return { success: false, error: error.error?.message || `API 错误: ${response.status}` };
-    }
-
-    const latency = Date.now() - startTime;
-    return { success: true, latency };
-  } catch (error) {
-    return { success: false, error: error instanceof Error ? error.message : "连接失败" };
+    const response = await fetch(`${baseUrl}/api/tags`, { signal: AbortSignal.timeout(5000) });
+    if (!response.ok) return undefined;
+    const data = await response.json();
+    return data.models?.map((m: { name: string }) => m.name);
+  } catch {
+    return undefined;
   }
 }
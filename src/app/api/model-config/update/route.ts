@@ -1,25 +1,53 @@
 import { NextRequest, NextResponse } from "next/server";
-import { UserModelConfig } from "@/types/model-config";
-import { setServerConfig, getCurrentConfig } from "@/lib/llm/factory";
+import { UserModelConfig, getProviderConfig } from "@/types/model-config";
+import { getDefaultConfig } from "@/lib/llm/factory";
+import {
+  getOrCreateProfileId,
+  getProfileCookie,
+  getProfileId,
+  getProfileStore,
+  saveProfileConfig,
+} from "@/lib/llm/profiles";
+import { hasApiKey } from "@/lib/llm/secrets";
 
 /**
  * POST /api/model-config/update
- * 更新服务端的模型配置
+ * 保存当前档案的模型配置，没有档案时创建新档案并写入 cookie
+ * 请求中的明文 API Key 加密保存，响应只返回 Key ID
  */
 export async function POST(request: NextRequest) {
   try {
     const config: UserModelConfig = await request.json();
 
-    // 更新 LLM 工厂配置
-    setServerConfig(config);
+    if (!config?.model || !getProviderConfig(config.provider)) {
+      return NextResponse.json({ success: false, error: "无效的模型配置" }, { status: 400 });
+    }
+
+    const { profileId, isNew } = getOrCreateProfileId(request);
+    const keyed = [config, ...(config.fallbacks || []), ...Object.values(config.tasks || {})];
+    for (const { apiKeyId } of keyed) {
+      if (apiKeyId && !(await hasApiKey(profileId, apiKeyId))) {
+        return NextResponse.json({ success: false, error: "API Key 不存在" }, { status: 400 });
+      }
+    }
+
+    const { profile, key } = await saveProfileConfig(profileId, config);
 
     console.log("[ModelConfig] Updated config:", {
+      profileId,
       provider: config.provider,
       model: config.model,
-      hasApiKey: !!config.apiKey,
+      hasApiKey: !!profile.config.apiKeyId,
+      fallbacks: config.fallbacks?.map((f) => f.provider),
+      tasks: config.tasks && Object.keys(config.tasks),
     });
 
-    return NextResponse.json({ success: true });
+    const response = NextResponse.json({
+      success: true,
+      ...(key && { keyId: key.keyId, hint: key.hint }),
+    });
+    if (isNew) response.cookies.set(getProfileCookie(profileId));
+    return response;
   } catch (error) {
     console.error("[ModelConfig] Update error:", error);
     return NextResponse.json({ success: false, error: "更新失败" }, { status: 500 });
@@ -28,15 +56,34 @@ export async function POST(request: NextRequest) {
 
 /**
  * GET /api/model-config/update
- * 获取当前服务端配置
+ * 获取当前档案使用的配置，档案没有保存配置时返回环境变量配置
  */
-export async function GET() {
-  const config = getCurrentConfig();
+export async function GET(request: NextRequest) {
+  const profileId = getProfileId(request);
+  const profile = profileId ? await getProfileStore().get(profileId) : undefined;
+  const config = profile?.config || getDefaultConfig();
+
   return NextResponse.json({
+    source: profile ? "profile" : "default",
     config: {
       provider: config.provider,
       model: config.model,
+      fallbacks: config.fallbacks?.map(({ provider, model }) => ({ provider, model })),
       // 不返回 API Key
     },
+    updatedAt: profile?.updatedAt,
   });
 }
+
+/**
+ * DELETE /api/model-config/update
+ * 删除当前档案的配置，恢复使用环境变量配置
+ */
+export async function DELETE(request: NextRequest) {
+  const profileId = getProfileId(request);
+  if (profileId) {
+    await getProfileStore().delete(profileId);
+    console.log("[ModelConfig] Reset config:", { profileId });
+  }
+  return NextResponse.json({ success: true });
+}
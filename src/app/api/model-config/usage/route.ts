@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getProfileId } from "@/lib/llm/profiles";
+import { getSessionUsage, resetSessionUsage } from "@/lib/llm/usage";
+
+/**
+ * GET /api/model-config/usage
+ * 当前会话（档案）累计的 Token 用量和费用
+ */
+export async function GET(request: NextRequest) {
+  const profileId = getProfileId(request);
+  return NextResponse.json({ usage: (profileId && (await getSessionUsage(profileId))) || null });
+}
+
+/**
+ * DELETE /api/model-config/usage
+ * 清零当前会话的用量统计
+ */
+export async function DELETE(request: NextRequest) {
+  const profileId = getProfileId(request);
+  if (profileId) {
+    await resetSessionUsage(profileId);
+    console.log("[ModelConfig] Reset usage:", { profileId });
+  }
+  return NextResponse.json({ success: true });
+}
@@ -1,20 +1,30 @@
 import { NextRequest, NextResponse } from "next/server";
 import { runBookSearch } from "@/lib/agents/book-agent";
+import { decodeSearchCursor } from "@/lib/sources";
 import { SearchFilters } from "@/types/book";
+import { getProviderReport, withModelProfile } from "@/lib/llm/profiles";
 
-export async function POST(request: NextRequest) {
+export const POST = withModelProfile(async (request: NextRequest) => {
   try {
     const body = await request.json();
-    const { query, filters } = body as {
+    const { query, filters, cursor, debug } = body as {
       query: string;
       filters?: SearchFilters;
+      cursor?: string; // 上一页返回的 nextCursor
+      debug?: boolean; // 返回每本书的评分明细
     };
 
     if (!query || typeof query !== "string") {
       return NextResponse.json({ error: "Query is required" }, { status: 400 });
     }
 
-    const result = await runBookSearch(query.trim(), filters);
+    // 游标只能用于生成它的查询
+    const searchCursor = cursor ? decodeSearchCursor(cursor) : undefined;
+    if (searchCursor === null || (searchCursor && searchCursor.query !== query.trim())) {
+      return NextResponse.json({ error: "Invalid cursor" }, { status: 400 });
+    }
+
+    const result = await runBookSearch(query.trim(), filters, searchCursor);
 
     if (result.error) {
       return NextResponse.json({ error: result.error }, { status: 500 });
@@ -24,9 +34,13 @@ export async function POST(request: NextRequest) {
       books: result.books,
       total: result.books.length,
       query,
+      facets: result.facets,
+      nextCursor: result.nextCursor,
+      llm: getProviderReport(),
+      ...(debug && { ranking: result.ranking || [] }),
     });
   } catch (error) {
     console.error("Search error:", error);
     return NextResponse.json({ error: "Failed to search books" }, { status: 500 });
   }
-}
+});
@@ -22,9 +22,17 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { AIAnalysis } from "@/components/book/ai-analysis";
 import { Book, BookAnalysis } from "@/types/book";
-import { getBookCoverUrl, parseBookId, formatDate } from "@/lib/utils";
+import { getBookCoverUrl, formatDate } from "@/lib/utils";
+import { loadReaderProfile, recordReadingHistory } from "@/lib/reader-profile";
 import toast from "react-hot-toast";
 
+const sourceLabels: Record<Book["source"], string> = {
+  google: "Google Books",
+  openlibrary: "Open Library",
+  internetarchive: "Internet Archive",
+  douban: "Douban",
+};
+
 export default function BookDetailPage() {
   const params = useParams<{ id: string }>();
   const bookId = decodeURIComponent(params.id || "");
@@ -49,11 +57,36 @@ export default function BookDetailPage() {
       }
     }
 
-    // If not in storage, we need to fetch it
-    // For now, just show not found
-    setIsLoadingBook(false);
+    // Not in storage (shared link or page refresh), fetch from the source
+    let cancelled = false;
+    setIsLoadingBook(true);
+
+    fetch(`/api/books/${encodeURIComponent(bookId)}`)
+      .then(async (response) => {
+        if (!response.ok) return null;
+        const data = await response.json();
+        return (data.book as Book) || null;
+      })
+      .catch((error) => {
+        console.error("Book fetch error:", error);
+        return null;
+      })
+      .then((fetchedBook) => {
+        if (cancelled) return;
+        setBook(fetchedBook);
+        setIsLoadingBook(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
   }, [bookId]);
 
+  // Remember viewed books as reading history for personalized analysis
+  useEffect(() => {
+    if (book) recordReadingHistory(book);
+  }, [book]);
+
   const handleAnalyze = async () => {
     if (!book || isAnalyzing) return;
 
@@ -64,7 +97,7 @@ export default function BookDetailPage() {
       const response = await fetch("/api/analyze", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ book }),
+        body: JSON.stringify({ book, ...loadReaderProfile(book) }),
       });
 
       if (!response.ok) {
@@ -98,14 +131,15 @@ export default function BookDetailPage() {
         </Link>
         <div className="py-12 text-center">
           <h1 className="text-2xl font-bold">Book not found</h1>
-          <p className="mt-2 text-muted-foreground">Please search for a book first</p>
+          <p className="mt-2 text-muted-foreground">
+            This book could not be loaded. Please try searching for it again.
+          </p>
         </div>
       </div>
     );
   }
 
   const coverUrl = getBookCoverUrl(book);
-  const { source } = parseBookId(book.id);
 
   return (
     <div className="container py-8">
@@ -182,7 +216,7 @@ export default function BookDetailPage() {
               )}
 
               <Badge variant="outline" className="text-xs">
-                Source: {source === "google" ? "Google Books" : "Open Library"}
+                Source: {sourceLabels[book.source] || book.source}
               </Badge>
             </CardContent>
           </Card>
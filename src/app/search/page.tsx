@@ -1,6 +1,6 @@
 "use client";
 
-import { useState, useCallback, useEffect, Suspense } from "react";
+import { useState, useCallback, useEffect, useRef, Suspense } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
 import { motion, AnimatePresence } from "framer-motion";
 import toast from "react-hot-toast";
@@ -15,12 +15,13 @@ import {
   Loader2,
 } from "lucide-react";
 import { SearchBox } from "@/components/blocks/search-box";
+import { SearchFiltersPanel } from "@/components/blocks/search-filters";
 import { BookCard } from "@/components/book/book-card";
 import { BookGridSkeleton } from "@/components/book/book-skeleton";
 import { ChatInterface } from "@/components/chat/chat-interface";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Book } from "@/types/book";
+import { Book, SearchFacets, SearchFilters } from "@/types/book";
 
 type Mode = "agent" | "chat" | "search";
 
@@ -68,6 +69,11 @@ function SearchContent() {
   const [isLoading, setIsLoading] = useState(false);
   const [hasSearched, setHasSearched] = useState(false);
   const [lastQuery, setLastQuery] = useState("");
+  const [filters, setFilters] = useState<SearchFilters>({});
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
   // 当 URL 参数变化时更新模式
   useEffect(() => {
@@ -88,16 +94,20 @@ function SearchContent() {
     [router, searchParams]
   );
 
-  const handleSearch = useCallback(async (query: string) => {
+  // 搜索；切换筛选条件时使用同一查询重新请求，服务端复用缓存的候选结果
+  const runSearch = useCallback(async (query: string, nextFilters: SearchFilters) => {
+    const isRefine = Object.keys(nextFilters).length > 0;
     setIsLoading(true);
     setHasSearched(true);
     setLastQuery(query);
+    setFilters(nextFilters);
+    setNextCursor(null);
 
     try {
       const response = await fetch("/api/search", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ query }),
+        body: JSON.stringify({ query, filters: nextFilters }),
       });
 
       if (!response.ok) {
@@ -106,14 +116,18 @@ function SearchContent() {
 
       const data = await response.json();
       setBooks(data.books || []);
+      setFacets(data.facets || null);
+      setNextCursor(data.nextCursor || null);
 
       if (data.books?.length > 0) {
         sessionStorage.setItem("searchResults", JSON.stringify(data.books));
       }
 
       if (data.books?.length === 0) {
-        toast("没有找到相关书籍，试试其他关键词", { icon: "📚" });
-      } else {
+        toast(isRefine ? "没有符合筛选条件的书籍" : "没有找到相关书籍，试试其他关键词", {
+          icon: "📚",
+        });
+      } else if (!isRefine) {
         toast.success(`找到 ${data.books.length} 本书籍`);
       }
     } catch (error) {
@@ -125,6 +139,59 @@ function SearchContent() {
     }
   }, []);
 
+  // 加载下一页，追加到已有结果之后
+  const loadMore = useCallback(async () => {
+    if (!nextCursor || isLoading || isLoadingMore) return;
+    setIsLoadingMore(true);
+
+    try {
+      const response = await fetch("/api/search", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ query: lastQuery, filters, cursor: nextCursor }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Load more failed");
+      }
+
+      const data = await response.json();
+      setBooks((prev) => {
+        const existing = new Set(prev.map((book) => book.id));
+        return [...prev, ...(data.books || []).filter((book: Book) => !existing.has(book.id))];
+      });
+      if (data.facets) setFacets(data.facets);
+      setNextCursor(data.nextCursor || null);
+    } catch (error) {
+      console.error("Load more error:", error);
+      toast.error("加载失败，请稍后重试");
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [nextCursor, isLoading, isLoadingMore, lastQuery, filters]);
+
+  // 无限滚动：列表底部进入视口时自动加载下一页
+  useEffect(() => {
+    const target = loadMoreRef.current;
+    if (!target || !nextCursor) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0]?.isIntersecting) loadMore();
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(target);
+    return () => observer.disconnect();
+  }, [nextCursor, loadMore]);
+
+  const handleSearch = useCallback((query: string) => runSearch(query, {}), [runSearch]);
+
+  const handleFiltersChange = useCallback(
+    (nextFilters: SearchFilters) => runSearch(lastQuery, nextFilters),
+    [runSearch, lastQuery]
+  );
+
   const handleBooksFound = useCallback((foundBooks: Book[]) => {
     setBooks(foundBooks);
     setHasSearched(true);
@@ -242,8 +309,19 @@ function SearchContent() {
                 <SearchBox onSearch={handleSearch} isLoading={isLoading} />
               </div>
 
+              {/* Filters */}
+              {hasSearched && facets && facets.total > 0 && (
+                <SearchFiltersPanel
+                  className="mt-8"
+                  facets={facets}
+                  filters={filters}
+                  onChange={handleFiltersChange}
+                  isLoading={isLoading}
+                />
+              )}
+
               {/* Results */}
-              <div className="mt-12">
+              <div className={facets && facets.total > 0 ? "mt-8" : "mt-12"}>
                 {isLoading ? (
                   <BookGridSkeleton count={6} />
                 ) : hasSearched ? (
@@ -251,7 +329,10 @@ function SearchContent() {
                     <>
                       <div className="mb-6 flex items-center justify-between">
                         <h2 className="text-xl font-semibold">「{lastQuery}」的搜索结果</h2>
-                        <span className="text-sm text-muted-foreground">共 {books.length} 本</span>
+                        <span className="text-sm text-muted-foreground">
+                          共 {books.length} 本
+                          {facets && facets.total > books.length && ` / ${facets.total}`}
+                        </span>
                       </div>
                       <motion.div
                         initial={{ opacity: 0 }}
@@ -265,23 +346,49 @@ function SearchContent() {
                               initial={{ opacity: 0, y: 20 }}
                               animate={{ opacity: 1, y: 0 }}
                               exit={{ opacity: 0, scale: 0.9 }}
-                              transition={{ delay: index * 0.05 }}
+                              transition={{ delay: (index % 20) * 0.05 }}
                             >
                               <BookCard book={book} />
                             </motion.div>
                           ))}
                         </AnimatePresence>
                       </motion.div>
+
+                      {/* Load more */}
+                      {nextCursor && (
+                        <div ref={loadMoreRef} className="mt-8 flex justify-center">
+                          <Button
+                            variant="outline"
+                            onClick={loadMore}
+                            disabled={isLoadingMore}
+                            className="gap-2"
+                          >
+                            {isLoadingMore && <Loader2 className="h-4 w-4 animate-spin" />}
+                            加载更多
+                          </Button>
+                        </div>
+                      )}
                     </>
                   ) : (
                     <div className="py-16 text-center">
                       <div className="mx-auto mb-4 flex h-16 w-16 items-center justify-center rounded-full bg-white/5">
                         <Search className="h-8 w-8 text-muted-foreground" />
                       </div>
-                      <p className="text-lg font-medium">没有找到「{lastQuery}」相关的书籍</p>
-                      <p className="mt-2 text-sm text-muted-foreground">
-                        试试其他关键词或切换到 AI Agent 模式获得更智能的推荐
-                      </p>
+                      {facets && facets.total > 0 ? (
+                        <>
+                          <p className="text-lg font-medium">没有符合筛选条件的书籍</p>
+                          <p className="mt-2 text-sm text-muted-foreground">
+                            试试放宽或清除筛选条件
+                          </p>
+                        </>
+                      ) : (
+                        <>
+                          <p className="text-lg font-medium">没有找到「{lastQuery}」相关的书籍</p>
+                          <p className="mt-2 text-sm text-muted-foreground">
+                            试试其他关键词或切换到 AI Agent 模式获得更智能的推荐
+                          </p>
+                        </>
+                      )}
                     </div>
                   )
                 ) : (
@@ -0,0 +1,266 @@
+"use client";
+
+import { Filter, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { FacetCount, SearchFacets, SearchFilters } from "@/types/book";
+import type { BookSourceId } from "@/lib/sources";
+import { cn } from "@/lib/utils";
+
+interface SearchFiltersProps {
+  facets: SearchFacets;
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+  isLoading?: boolean;
+  className?: string;
+}
+
+const sourceLabels: Record<string, string> = {
+  google: "Google",
+  openlibrary: "Open Library",
+  internetarchive: "Internet Archive",
+  douban: "豆瓣",
+};
+
+// 分类较多时只显示前几个
+const MAX_VISIBLE_CATEGORIES = 10;
+
+function formatPageRange(value: string): string {
+  const [min, max] = value.split("-");
+  return max ? `${min}-${max} 页` : `${min} 页以上`;
+}
+
+/**
+ * 页数区间 "200-400" 转换为过滤条件（区间左闭右开）
+ */
+function parsePageRange(value: string): Pick<SearchFilters, "minPages" | "maxPages"> {
+  const [min, max] = value.split("-");
+  return {
+    minPages: Number(min) || undefined,
+    maxPages: max ? Number(max) - 1 : undefined,
+  };
+}
+
+function FacetGroup({ label, children }: { label: string; children: React.ReactNode }) {
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <span className="w-12 flex-shrink-0 text-xs text-muted-foreground">{label}</span>
+      {children}
+    </div>
+  );
+}
+
+function FacetButton({
+  active,
+  count,
+  disabled,
+  onClick,
+  children,
+}: {
+  active: boolean;
+  count?: number;
+  disabled?: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <Button
+      variant={active ? "default" : "outline"}
+      size="sm"
+      className="h-7 gap-1 px-2 text-xs"
+      disabled={disabled || (!active && count === 0)}
+      onClick={onClick}
+    >
+      {children}
+      {count !== undefined && (
+        <span className={cn(active ? "text-primary-foreground/70" : "text-muted-foreground")}>
+          {count}
+        </span>
+      )}
+    </Button>
+  );
+}
+
+/**
+ * 搜索结果分面过滤
+ * 分面统计来自合并后的全部结果，切换条件时重新请求接口，但不会重新请求数据源
+ */
+export function SearchFiltersPanel({
+  facets,
+  filters,
+  onChange,
+  isLoading,
+  className,
+}: SearchFiltersProps) {
+  const update = (patch: Partial<SearchFilters>) => onChange({ ...filters, ...patch });
+
+  const isDecadeActive = ({ value }: FacetCount) =>
+    filters.yearFrom === Number(value) && filters.yearTo === Number(value) + 9;
+  const isPageRangeActive = ({ value }: FacetCount) => {
+    const range = parsePageRange(value);
+    return filters.minPages === range.minPages && filters.maxPages === range.maxPages;
+  };
+
+  const hasActiveFilters =
+    filters.yearFrom !== undefined ||
+    filters.minPages !== undefined ||
+    filters.maxPages !== undefined ||
+    filters.minRating !== undefined ||
+    Boolean(filters.sources?.length) ||
+    Boolean(filters.readable) ||
+    Boolean(filters.category);
+
+  const toggleSource = (source: BookSourceId) => {
+    const current = filters.sources || [];
+    const sources = current.includes(source)
+      ? current.filter((s) => s !== source)
+      : [...current, source];
+    update({ sources: sources.length > 0 ? sources : undefined });
+  };
+
+  return (
+    <div
+      className={cn("space-y-2 rounded-xl border border-white/5 bg-white/[0.02] p-4", className)}
+    >
+      <div className="mb-3 flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Filter className="h-4 w-4 text-primary" />
+          筛选
+        </div>
+        {hasActiveFilters && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1 px-2 text-xs"
+            disabled={isLoading}
+            onClick={() =>
+              onChange({
+                ...(filters.language && { language: filters.language }),
+                ...(filters.orderBy && { orderBy: filters.orderBy }),
+              })
+            }
+          >
+            <X className="h-3 w-3" />
+            清除筛选
+          </Button>
+        )}
+      </div>
+
+      {facets.years.length > 0 && (
+        <FacetGroup label="年代">
+          {facets.years.map((facet) => {
+            const active = isDecadeActive(facet);
+            return (
+              <FacetButton
+                key={facet.value}
+                active={active}
+                count={facet.count}
+                disabled={isLoading}
+                onClick={() =>
+                  update(
+                    active
+                      ? { yearFrom: undefined, yearTo: undefined }
+                      : { yearFrom: Number(facet.value), yearTo: Number(facet.value) + 9 }
+                  )
+                }
+              >
+                {facet.value}s
+              </FacetButton>
+            );
+          })}
+        </FacetGroup>
+      )}
+
+      {facets.pageCounts.length > 0 && (
+        <FacetGroup label="页数">
+          {facets.pageCounts.map((facet) => {
+            const active = isPageRangeActive(facet);
+            return (
+              <FacetButton
+                key={facet.value}
+                active={active}
+                count={facet.count}
+                disabled={isLoading}
+                onClick={() =>
+                  update(
+                    active
+                      ? { minPages: undefined, maxPages: undefined }
+                      : parsePageRange(facet.value)
+                  )
+                }
+              >
+                {formatPageRange(facet.value)}
+              </FacetButton>
+            );
+          })}
+        </FacetGroup>
+      )}
+
+      {facets.ratings.some((facet) => facet.count > 0) && (
+        <FacetGroup label="评分">
+          {facets.ratings.map((facet) => {
+            const active = filters.minRating === Number(facet.value);
+            return (
+              <FacetButton
+                key={facet.value}
+                active={active}
+                count={facet.count}
+                disabled={isLoading}
+                onClick={() => update({ minRating: active ? undefined : Number(facet.value) })}
+              >
+                {facet.value}+
+              </FacetButton>
+            );
+          })}
+        </FacetGroup>
+      )}
+
+      {facets.sources.length > 1 && (
+        <FacetGroup label="来源">
+          {facets.sources.map((facet) => (
+            <FacetButton
+              key={facet.value}
+              active={Boolean(filters.sources?.includes(facet.value as BookSourceId))}
+              count={facet.count}
+              disabled={isLoading}
+              onClick={() => toggleSource(facet.value as BookSourceId)}
+            >
+              {sourceLabels[facet.value] || facet.value}
+            </FacetButton>
+          ))}
+        </FacetGroup>
+      )}
+
+      {facets.categories.length > 0 && (
+        <FacetGroup label="分类">
+          {facets.categories.slice(0, MAX_VISIBLE_CATEGORIES).map((facet) => {
+            const active = filters.category?.toLowerCase() === facet.value.toLowerCase();
+            return (
+              <FacetButton
+                key={facet.value}
+                active={active}
+                count={facet.count}
+                disabled={isLoading}
+                onClick={() => update({ category: active ? undefined : facet.value })}
+              >
+                {facet.value}
+              </FacetButton>
+            );
+          })}
+        </FacetGroup>
+      )}
+
+      {facets.readable > 0 && (
+        <FacetGroup label="阅读">
+          <FacetButton
+            active={Boolean(filters.readable)}
+            count={facets.readable}
+            disabled={isLoading}
+            onClick={() => update({ readable: filters.readable ? undefined : true })}
+          >
+            可预览 / 在线阅读
+          </FacetButton>
+        </FacetGroup>
+      )}
+    </div>
+  );
+}
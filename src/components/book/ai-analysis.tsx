@@ -1,6 +1,11 @@
 "use client";
 
-import { BookAnalysis } from "@/types/book";
+import {
+  BookAnalysis,
+  BookAnalysisCitations,
+  BookEvidence,
+  ShouldReadBreakdown,
+} from "@/types/book";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -13,6 +18,8 @@ import {
   Sparkles,
   Users,
   BarChart3,
+  Quote,
+  ExternalLink,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 
@@ -22,6 +29,85 @@ interface AIAnalysisProps {
   className?: string;
 }
 
+const sourceLabels: Record<BookEvidence["source"], string> = {
+  google: "Google Books",
+  openlibrary: "Open Library",
+  internetarchive: "Internet Archive",
+  douban: "Douban",
+};
+
+const evidenceKindLabels: Record<BookEvidence["kind"], string> = {
+  description: "Description",
+  subjects: "Subjects",
+  snippet: "Snippet",
+  fulltext: "Full text",
+};
+
+const fitLabels: Record<keyof ShouldReadBreakdown, string> = {
+  levelFit: "Level fit",
+  topicFit: "Topic fit",
+  practicalityFit: "Practicality fit",
+};
+
+function getScoreBarColor(score: number): string {
+  return score >= 70 ? "bg-green-500" : score >= 40 ? "bg-yellow-500" : "bg-red-500";
+}
+
+/**
+ * 个性化评分的分维度得分
+ */
+function FitBreakdown({ breakdown }: { breakdown: ShouldReadBreakdown }) {
+  const dimensions = (Object.keys(fitLabels) as (keyof ShouldReadBreakdown)[]).filter(
+    (dimension) => breakdown[dimension] !== undefined
+  );
+  if (dimensions.length === 0) return null;
+
+  return (
+    <div className="mt-4 space-y-2 rounded-lg bg-muted/50 p-3">
+      <p className="text-xs font-medium text-muted-foreground">Based on your reading profile</p>
+      {dimensions.map((dimension) => {
+        const score = breakdown[dimension]!;
+        return (
+          <div key={dimension} className="flex items-center gap-3 text-sm">
+            <span className="w-32 flex-shrink-0">{fitLabels[dimension]}</span>
+            <div className="h-2 flex-1 overflow-hidden rounded-full bg-muted">
+              <div
+                className={cn("h-full transition-all duration-500", getScoreBarColor(score))}
+                style={{ width: `${score}%` }}
+              />
+            </div>
+            <span className="w-8 text-right font-medium">{score}</span>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+/**
+ * 字段引用的证据编号，点击跳转到来源列表
+ */
+function Citations({
+  citations,
+  field,
+}: {
+  citations?: BookAnalysisCitations;
+  field: keyof BookAnalysisCitations;
+}) {
+  const ids = citations?.[field];
+  if (!ids?.length) return null;
+
+  return (
+    <span className="ml-1 text-xs font-normal text-muted-foreground">
+      {ids.map((id) => (
+        <a key={id} href={`#evidence-${id}`} className="ml-0.5 hover:text-primary hover:underline">
+          [{id}]
+        </a>
+      ))}
+    </span>
+  );
+}
+
 export function AIAnalysis({ analysis, isLoading, className }: AIAnalysisProps) {
   if (isLoading) {
     return <AIAnalysisSkeleton className={className} />;
@@ -52,6 +138,12 @@ export function AIAnalysis({ analysis, isLoading, className }: AIAnalysisProps)
           <CardTitle className="flex items-center gap-2 text-lg">
             <Sparkles className="h-5 w-5 text-primary" />
             Should You Read This?
+            <Citations citations={analysis.citations} field="shouldRead" />
+            {analysis.shouldRead.personalized && (
+              <Badge variant="secondary" className="ml-auto">
+                Personalized
+              </Badge>
+            )}
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -62,11 +154,7 @@ export function AIAnalysis({ analysis, isLoading, className }: AIAnalysisProps)
                 <div
                   className={cn(
                     "h-full transition-all duration-500",
-                    analysis.shouldRead.score >= 70
-                      ? "bg-green-500"
-                      : analysis.shouldRead.score >= 40
-                        ? "bg-yellow-500"
-                        : "bg-red-500"
+                    getScoreBarColor(analysis.shouldRead.score)
                   )}
                   style={{ width: `${analysis.shouldRead.score}%` }}
                 />
@@ -81,6 +169,11 @@ export function AIAnalysis({ analysis, isLoading, className }: AIAnalysisProps)
             </div>
           </div>
 
+          {/* Personalized breakdown */}
+          {analysis.shouldRead.breakdown && (
+            <FitBreakdown breakdown={analysis.shouldRead.breakdown} />
+          )}
+
           {/* Reasons */}
           <div className="mt-4 space-y-2">
             {analysis.shouldRead.reasons.map((reason, i) => (
@@ -103,6 +196,7 @@ export function AIAnalysis({ analysis, isLoading, className }: AIAnalysisProps)
           <CardTitle className="flex items-center gap-2 text-lg">
             <BookOpen className="h-5 w-5" />
             Summary
+            <Citations citations={analysis.citations} field="summary" />
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -118,6 +212,7 @@ export function AIAnalysis({ analysis, isLoading, className }: AIAnalysisProps)
             <CardTitle className="flex items-center gap-2 text-lg">
               <Lightbulb className="h-5 w-5" />
               Key Themes
+              <Citations citations={analysis.citations} field="themes" />
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -137,6 +232,7 @@ export function AIAnalysis({ analysis, isLoading, className }: AIAnalysisProps)
             <CardTitle className="flex items-center gap-2 text-lg">
               <Users className="h-5 w-5" />
               Target Audience
+              <Citations citations={analysis.citations} field="targetAudience" />
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -155,9 +251,15 @@ export function AIAnalysis({ analysis, isLoading, className }: AIAnalysisProps)
           <CardTitle className="flex items-center gap-2 text-lg">
             <Target className="h-5 w-5" />
             Key Takeaways
+            <Citations citations={analysis.citations} field="keyTakeaways" />
           </CardTitle>
         </CardHeader>
         <CardContent>
+          {analysis.keyTakeaways.length === 0 && (
+            <p className="text-sm text-muted-foreground">
+              Not enough of the book&apos;s content is available to extract key takeaways.
+            </p>
+          )}
           <ul className="space-y-2">
             {analysis.keyTakeaways.map((takeaway, i) => (
               <li key={i} className="flex items-start gap-2 text-sm">
@@ -178,6 +280,7 @@ export function AIAnalysis({ analysis, isLoading, className }: AIAnalysisProps)
             <CardTitle className="flex items-center gap-2 text-lg">
               <Sparkles className="h-5 w-5" />
               Similar Books You Might Like
+              <Citations citations={analysis.citations} field="similarBooks" />
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -191,6 +294,43 @@ export function AIAnalysis({ analysis, isLoading, className }: AIAnalysisProps)
           </CardContent>
         </Card>
       )}
+
+      {/* Evidence */}
+      {analysis.evidence && analysis.evidence.length > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="flex items-center gap-2 text-lg">
+              <Quote className="h-5 w-5" />
+              Sources
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ol className="space-y-3">
+              {analysis.evidence.map((item) => (
+                <li key={item.id} id={`evidence-${item.id}`} className="scroll-mt-20 text-sm">
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <span className="font-medium text-foreground">[{item.id}]</span>
+                    <span>
+                      {sourceLabels[item.source] || item.source} · {evidenceKindLabels[item.kind]}
+                    </span>
+                    {item.url && (
+                      <a
+                        href={item.url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="ml-auto flex items-center gap-1 hover:text-primary"
+                      >
+                        <ExternalLink className="h-3 w-3" />
+                      </a>
+                    )}
+                  </div>
+                  <p className="mt-1 line-clamp-3 text-muted-foreground">{item.text}</p>
+                </li>
+              ))}
+            </ol>
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
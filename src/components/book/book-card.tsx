@@ -2,7 +2,7 @@
 
 import Image from "next/image";
 import Link from "next/link";
-import { Star, BookOpen, User, ExternalLink, BookMarked } from "lucide-react";
+import { Star, BookOpen, User, ExternalLink, BookMarked, Sparkles } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
@@ -73,6 +73,18 @@ function BookCover({
   );
 }
 
+// 预测难度标签配置
+const levelConfig: Record<string, { label: string; color: string }> = {
+  beginner: { label: "入门", color: "bg-sky-100 text-sky-700" },
+  intermediate: { label: "进阶", color: "bg-amber-100 text-amber-700" },
+  advanced: { label: "高级", color: "bg-rose-100 text-rose-700" },
+};
+
+const bookTypeLabels: Record<string, string> = {
+  practical: "实战",
+  theoretical: "理论",
+};
+
 // 数据源标签配置
 const sourceConfig: Record<string, { label: string; color: string }> = {
   google: { label: "Google", color: "bg-blue-100 text-blue-700" },
@@ -88,6 +100,9 @@ export function BookCard({ book, className, compact = false }: BookCardProps) {
     color: "bg-gray-100 text-gray-700",
   };
   const isDouban = book.source === "douban" || coverUrl.includes("doubanio.com");
+  const levelInfo = book.classification?.level && levelConfig[book.classification.level];
+  const bookTypeLabel =
+    book.classification?.bookType && bookTypeLabels[book.classification.bookType];
 
   if (compact) {
     return (
@@ -123,6 +138,12 @@ export function BookCard({ book, className, compact = false }: BookCardProps) {
               <p className="line-clamp-1 text-xs text-muted-foreground">
                 {book.authors.join(", ")}
               </p>
+              {/* LLM 推荐理由 */}
+              {book.rationale && (
+                <p className="mt-0.5 line-clamp-1 text-xs text-primary/80" title={book.rationale}>
+                  {book.rationale}
+                </p>
+              )}
               <div className="mt-1 flex items-center gap-2">
                 {/* 评分 */}
                 {(book.averageRating || book.doubanRating) && (
@@ -133,6 +154,12 @@ export function BookCard({ book, className, compact = false }: BookCardProps) {
                     </span>
                   </div>
                 )}
+                {/* 预测难度 */}
+                {levelInfo && (
+                  <Badge className={cn("h-4 px-1 text-[10px]", levelInfo.color)}>
+                    {levelInfo.label}
+                  </Badge>
+                )}
                 {/* 在线阅读标记 */}
                 {book.readOnlineLink && (
                   <Badge variant="outline" className="h-4 px-1 text-[10px] text-purple-600">
@@ -217,6 +244,44 @@ export function BookCard({ book, className, compact = false }: BookCardProps) {
               </div>
             )}
 
+            {/* LLM 推荐理由 */}
+            {book.rationale && (
+              <div className="mt-2 flex items-start gap-1 text-sm text-primary/80">
+                <Sparkles className="mt-0.5 h-3 w-3 flex-shrink-0" />
+                <span className="line-clamp-2">{book.rationale}</span>
+              </div>
+            )}
+
+            {/* 合并自多个数据源 */}
+            {book.sources && book.sources.length > 1 && (
+              <div className="mt-2 flex flex-wrap items-center gap-1">
+                {book.sources
+                  .filter((record) => record.id !== book.id)
+                  .map((record) => {
+                    const info = sourceConfig[record.source];
+                    const label = (
+                      <Badge variant="outline" className="h-5 px-1.5 text-[10px]">
+                        {info?.label || record.source}
+                        {record.averageRating ? ` ${record.averageRating.toFixed(1)}` : ""}
+                      </Badge>
+                    );
+                    return record.infoLink ? (
+                      <a
+                        key={record.id}
+                        href={record.infoLink}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        {label}
+                      </a>
+                    ) : (
+                      <span key={record.id}>{label}</span>
+                    );
+                  })}
+              </div>
+            )}
+
             {/* Description */}
             {book.description && (
               <p className="mt-3 line-clamp-2 text-sm text-muted-foreground">
@@ -224,10 +289,20 @@ export function BookCard({ book, className, compact = false }: BookCardProps) {
               </p>
             )}
 
-            {/* Categories */}
-            {book.categories && book.categories.length > 0 && (
+            {/* Categories，前面是预测的难度与类型 */}
+            {(levelInfo || bookTypeLabel || (book.categories && book.categories.length > 0)) && (
               <div className="mt-3 flex flex-wrap gap-1">
-                {book.categories.slice(0, 2).map((category, index) => (
+                {levelInfo && (
+                  <Badge className={cn("text-xs", levelInfo.color)} title="预测难度">
+                    {levelInfo.label}
+                  </Badge>
+                )}
+                {bookTypeLabel && (
+                  <Badge variant="secondary" className="text-xs" title="预测类型">
+                    {bookTypeLabel}
+                  </Badge>
+                )}
+                {book.categories?.slice(0, 2).map((category, index) => (
                   <Badge key={index} variant="outline" className="text-xs">
                     {category}
                   </Badge>
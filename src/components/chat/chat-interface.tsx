@@ -2,7 +2,17 @@
 
 import { useState, useRef, useEffect, useCallback } from "react";
 import { motion, AnimatePresence } from "framer-motion";
-import { Send, Loader2, Bot, User, BookOpen, Sparkles, RefreshCw } from "lucide-react";
+import {
+  Send,
+  Loader2,
+  Bot,
+  User,
+  BookOpen,
+  Sparkles,
+  RefreshCw,
+  Check,
+  AlertCircle,
+} from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card } from "@/components/ui/card";
@@ -11,7 +21,8 @@ import { BookCard } from "@/components/book/book-card";
 import { PreferenceChips } from "./preference-chips";
 import { IntentConfirmation } from "./intent-confirmation";
 import { Book } from "@/types/book";
-import { useChatStream, InferredPreferences } from "@/hooks/use-chat-stream";
+import { saveReaderPreferences } from "@/lib/reader-profile";
+import { useChatStream, InferredPreferences, type StreamHandlers } from "@/hooks/use-chat-stream";
 
 export interface ChatMessage {
   id: string;
@@ -19,6 +30,7 @@ export interface ChatMessage {
   content: string;
   books?: Book[];
   inferredPreferences?: InferredPreferences;
+  nextCursor?: string; // 加载更多书籍的游标
   timestamp: Date;
   isStreaming?: boolean;
 }
@@ -47,12 +59,19 @@ const i18n = {
     inputHint: "输入后我会先理解您的需求",
     inputHintBasic: "由AI驱动 - 我会问一些问题来帮你找到最好的书籍",
     restart: "重新开始",
+    loadMore: "加载更多",
     phases: {
       analyzing: "分析中",
       confirming: "待确认",
       searching: "搜索中",
       complete: "完成",
     },
+    nodes: {
+      conversation: "理解需求",
+      tools: "搜索书籍",
+      rerank: "筛选排序",
+      respond: "生成推荐",
+    },
   },
   en: {
     welcome:
@@ -73,12 +92,19 @@ const i18n = {
     inputHint: "I'll understand your needs first",
     inputHintBasic: "Powered by AI - I'll ask questions to find the best books for you",
     restart: "Start Over",
+    loadMore: "Load more",
     phases: {
       analyzing: "Analyzing",
       confirming: "Confirming",
       searching: "Searching",
       complete: "Complete",
     },
+    nodes: {
+      conversation: "Understanding",
+      tools: "Searching books",
+      rerank: "Ranking results",
+      respond: "Writing recommendation",
+    },
   },
 };
 
@@ -107,6 +133,7 @@ export function ChatInterface({ onBooksFound, mode = "agent" }: ChatInterfacePro
     understandingText: string;
   } | null>(null);
   const [isBasicLoading, setIsBasicLoading] = useState(false);
+  const [loadingMoreId, setLoadingMoreId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -115,9 +142,12 @@ export function ChatInterface({ onBooksFound, mode = "agent" }: ChatInterfacePro
     isAnalyzing,
     isSearching,
     chatState,
+    activeNode,
+    sourceProgress,
     analyzeIntent,
     confirmSearch,
     adjustPreferences,
+    loadMoreBooks,
     researchWithPreferences,
     resetState,
   } = useChatStream({
@@ -153,6 +183,17 @@ export function ChatInterface({ onBooksFound, mode = "agent" }: ChatInterfacePro
     });
   }, [userLang, mode]);
 
+  // 更新指定消息
+  const patchMessage = useCallback((id: string, patch: Partial<ChatMessage>) => {
+    setMessages((prev) => prev.map((m) => (m.id === id ? { ...m, ...patch } : m)));
+  }, []);
+
+  // 流式更新指定消息：推荐说明逐字显示，书籍随数据源返回逐批显示
+  const createStreamHandlers = (messageId: string): StreamHandlers => ({
+    onToken: (_, fullText) => patchMessage(messageId, { content: fullText }),
+    onBooks: (books) => patchMessage(messageId, { books }),
+  });
+
   // Agent 模式：分析意图
   const handleAgentSubmit = async (userMessage: ChatMessage) => {
     // 检测语言并更新
@@ -276,28 +317,23 @@ export function ChatInterface({ onBooksFound, mode = "agent" }: ChatInterfacePro
         preferences.isFiction ? undefined : preferences.levelLabel
       ),
       timestamp: new Date(),
+      isStreaming: true,
     };
     setMessages((prev) => [...prev, confirmMessage]);
 
-    const result = await confirmSearch(preferences);
+    const result = await confirmSearch(preferences, createStreamHandlers(confirmMessage.id));
 
     if (result) {
-      setMessages((prev) =>
-        prev.map((m) =>
-          m.id === confirmMessage.id
-            ? {
-                ...m,
-                content: result.message,
-                books: result.books,
-                inferredPreferences: result.preferences,
-              }
-            : m
-        )
-      );
+      saveReaderPreferences(result.preferences);
+      patchMessage(confirmMessage.id, {
+        content: result.message,
+        books: result.books,
+        inferredPreferences: result.preferences,
+        nextCursor: result.nextCursor,
+        isStreaming: false,
+      });
     } else {
-      setMessages((prev) =>
-        prev.map((m) => (m.id === confirmMessage.id ? { ...m, content: t.searchError } : m))
-      );
+      patchMessage(confirmMessage.id, { content: t.searchError, isStreaming: false });
     }
   };
 
@@ -328,24 +364,44 @@ export function ChatInterface({ onBooksFound, mode = "agent" }: ChatInterfacePro
     messageId: string,
     adjusted: Partial<InferredPreferences>
   ) => {
-    const result = await researchWithPreferences(adjusted);
+    patchMessage(messageId, { isStreaming: true });
+    const result = await researchWithPreferences(adjusted, createStreamHandlers(messageId));
 
     if (result) {
-      setMessages((prev) =>
-        prev.map((m) =>
-          m.id === messageId
-            ? {
-                ...m,
-                content: result.message,
-                books: result.books,
-                inferredPreferences: result.inferredPreferences,
-              }
-            : m
-        )
-      );
+      if (result.inferredPreferences) {
+        saveReaderPreferences(result.inferredPreferences);
+      }
+      patchMessage(messageId, {
+        content: result.message,
+        books: result.books,
+        inferredPreferences: result.inferredPreferences,
+        nextCursor: result.nextCursor,
+        isStreaming: false,
+      });
+    } else {
+      patchMessage(messageId, { isStreaming: false });
     }
   };
 
+  // 加载更多书籍，追加到消息已有的书籍之后
+  const handleLoadMore = async (message: ChatMessage) => {
+    if (!message.nextCursor || !message.inferredPreferences || loadingMoreId) return;
+
+    setLoadingMoreId(message.id);
+    const result = await loadMoreBooks(message.inferredPreferences, message.nextCursor);
+    setLoadingMoreId(null);
+    if (!result) return;
+
+    setMessages((prev) =>
+      prev.map((m) => {
+        if (m.id !== message.id) return m;
+        const existing = new Set(m.books?.map((book) => book.id));
+        const books = [...(m.books || []), ...result.books.filter((b) => !existing.has(b.id))];
+        return { ...m, books, nextCursor: result.nextCursor };
+      })
+    );
+  };
+
   const handleReset = () => {
     setMessages([
       {
@@ -416,6 +472,27 @@ export function ChatInterface({ onBooksFound, mode = "agent" }: ChatInterfacePro
                   <p className="whitespace-pre-wrap text-sm">{message.content}</p>
                 </Card>
 
+                {/* 流式进度：当前节点 + 各数据源状态 */}
+                {message.isStreaming && (
+                  <div className="mt-2 flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                      {activeNode ? t.nodes[activeNode] : t.phases.searching}
+                    </span>
+                    {sourceProgress.map((source) => (
+                      <Badge key={source.id} variant="outline" className="gap-1 font-normal">
+                        {source.status === "pending" && (
+                          <Loader2 className="h-3 w-3 animate-spin" />
+                        )}
+                        {source.status === "done" && <Check className="h-3 w-3" />}
+                        {source.status === "error" && <AlertCircle className="h-3 w-3" />}
+                        {source.name}
+                        {source.count !== undefined && ` · ${source.count}`}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
                 {/* Preference chips for adjustment (after search) - Agent mode only */}
                 {mode === "agent" &&
                   message.inferredPreferences &&
@@ -438,6 +515,19 @@ export function ChatInterface({ onBooksFound, mode = "agent" }: ChatInterfacePro
                     ))}
                   </div>
                 )}
+
+                {mode === "agent" && message.nextCursor && !message.isStreaming && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="mt-3 gap-1"
+                    disabled={loadingMoreId !== null}
+                    onClick={() => handleLoadMore(message)}
+                  >
+                    {loadingMoreId === message.id && <Loader2 className="h-3 w-3 animate-spin" />}
+                    {t.loadMore}
+                  </Button>
+                )}
               </div>
             </motion.div>
           ))}
@@ -21,6 +21,8 @@ interface InferredPreferences {
   languageLabel: string;
   confidence: number;
   isFiction?: boolean;
+  yearPreference?: "latest" | "classic" | "any";
+  yearPreferenceLabel?: string;
 }
 
 interface IntentConfirmationProps {
@@ -35,6 +37,7 @@ interface IntentConfirmationProps {
 // 类型定义
 type LevelValue = "beginner" | "intermediate" | "advanced";
 type LanguageValue = "en" | "zh" | "any";
+type YearValue = "latest" | "classic" | "any";
 
 interface LevelOption {
   value: LevelValue;
@@ -48,16 +51,24 @@ interface LanguageOption {
   description: string;
 }
 
+interface YearOption {
+  value: YearValue;
+  label: string;
+  description: string;
+}
+
 // 多语言配置
 const i18n: {
   zh: {
     levelOptions: LevelOption[];
     languageOptions: LanguageOption[];
+    yearOptions: YearOption[];
     ui: Record<string, string>;
   };
   en: {
     levelOptions: LevelOption[];
     languageOptions: LanguageOption[];
+    yearOptions: YearOption[];
     ui: Record<string, string>;
   };
 } = {
@@ -72,6 +83,11 @@ const i18n: {
       { value: "en", label: "英文", description: "优先显示英文书籍" },
       { value: "any", label: "不限", description: "显示所有语言" },
     ],
+    yearOptions: [
+      { value: "any", label: "不限年份", description: "不考虑出版时间" },
+      { value: "latest", label: "最新出版", description: "优先近几年出版的书" },
+      { value: "classic", label: "经典", description: "优先出版多年、口碑好的书" },
+    ],
     ui: {
       title: "我理解您的需求",
       subtitle: "请确认或调整搜索条件",
@@ -96,6 +112,11 @@ const i18n: {
       { value: "en", label: "English", description: "Prefer English books" },
       { value: "any", label: "Any", description: "Show all languages" },
     ],
+    yearOptions: [
+      { value: "any", label: "Any year", description: "Ignore publication date" },
+      { value: "latest", label: "Latest", description: "Prefer recently published books" },
+      { value: "classic", label: "Classic", description: "Prefer well-regarded older books" },
+    ],
     ui: {
       title: "I understand your needs",
       subtitle: "Please confirm or adjust search criteria",
@@ -122,6 +143,8 @@ export function IntentConfirmation({
   const t = i18n[lang];
   const levelOptions = t.levelOptions;
   const languageOptions = t.languageOptions;
+  const yearOptions = t.yearOptions;
+  const selectedYear = localPrefs.yearPreference || "any";
 
   const handleLevelChange = (level: typeof localPrefs.level) => {
     const levelLabel = levelOptions.find((o) => o.value === level)?.label || levelOptions[0].label;
@@ -141,6 +164,13 @@ export function IntentConfirmation({
     onAdjust({ language, languageLabel });
   };
 
+  const handleYearChange = (yearPreference: YearValue) => {
+    const yearPreferenceLabel = yearOptions.find((o) => o.value === yearPreference)?.label;
+    const updated = { ...localPrefs, yearPreference, yearPreferenceLabel };
+    setLocalPrefs(updated);
+    onAdjust({ yearPreference, yearPreferenceLabel });
+  };
+
   const showLevelSelector = !preferences.isFiction;
 
   return (
@@ -244,6 +274,40 @@ export function IntentConfirmation({
             ))}
           </DropdownMenuContent>
         </DropdownMenu>
+
+        {/* Year preference dropdown */}
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className={cn(
+                "h-7 gap-1 px-2 text-xs",
+                selectedYear !== (preferences.yearPreference || "any") &&
+                  "border-primary text-primary"
+              )}
+              disabled={isLoading}
+            >
+              {yearOptions.find((o) => o.value === selectedYear)?.label}
+              <ChevronDown className="h-3 w-3" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="start">
+            {yearOptions.map((option) => (
+              <DropdownMenuItem
+                key={option.value}
+                onClick={() => handleYearChange(option.value)}
+                className="flex items-center gap-2"
+              >
+                <div className="flex-1">
+                  <div className="font-medium">{option.label}</div>
+                  <div className="text-xs text-muted-foreground">{option.description}</div>
+                </div>
+                {selectedYear === option.value && <Check className="h-4 w-4 text-primary" />}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
 
       {/* Action Buttons */}
@@ -21,6 +21,8 @@ interface InferredPreferences {
   languageLabel: string;
   confidence: number;
   isFiction?: boolean;
+  yearPreference?: "latest" | "classic" | "any";
+  yearPreferenceLabel?: string;
 }
 
 interface PreferenceChipsProps {
@@ -45,6 +47,11 @@ const i18n = {
       { value: "en", label: "英文", description: "优先显示英文书籍" },
       { value: "any", label: "不限", description: "显示所有语言" },
     ],
+    yearOptions: [
+      { value: "any", label: "不限年份", description: "不考虑出版时间" },
+      { value: "latest", label: "最新出版", description: "优先近几年出版的书" },
+      { value: "classic", label: "经典", description: "优先出版多年、口碑好的书" },
+    ],
   },
   en: {
     lookingFor: "I understand you're looking for:",
@@ -64,12 +71,18 @@ const i18n = {
       { value: "en", label: "English", description: "Prefer English books" },
       { value: "any", label: "Any", description: "Show all languages" },
     ],
+    yearOptions: [
+      { value: "any", label: "Any year", description: "Ignore publication date" },
+      { value: "latest", label: "Latest", description: "Prefer recently published books" },
+      { value: "classic", label: "Classic", description: "Prefer well-regarded older books" },
+    ],
   },
 };
 
 export function PreferenceChips({ preferences, onAdjust, isLoading }: PreferenceChipsProps) {
   const [selectedLevel, setSelectedLevel] = useState(preferences.level);
   const [selectedLanguage, setSelectedLanguage] = useState(preferences.language);
+  const [selectedYear, setSelectedYear] = useState(preferences.yearPreference || "any");
 
   // 根据语言偏好选择 UI 语言
   const lang = preferences.language === "en" ? "en" : "zh";
@@ -92,6 +105,12 @@ export function PreferenceChips({ preferences, onAdjust, isLoading }: Preference
     onAdjust({ language, languageLabel });
   };
 
+  const handleYearChange = (yearPreference: typeof selectedYear) => {
+    setSelectedYear(yearPreference);
+    const yearPreferenceLabel = t.yearOptions.find((o) => o.value === yearPreference)?.label;
+    onAdjust({ yearPreference, yearPreferenceLabel });
+  };
+
   // 是否显示难度选择器（文学类不显示）
   const showLevelSelector = !preferences.isFiction;
 
@@ -179,6 +198,40 @@ export function PreferenceChips({ preferences, onAdjust, isLoading }: Preference
         </DropdownMenuContent>
       </DropdownMenu>
 
+      {/* Year preference dropdown */}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            className={cn(
+              "h-6 gap-1 px-2 text-xs",
+              selectedYear !== (preferences.yearPreference || "any") &&
+                "border-primary text-primary"
+            )}
+            disabled={isLoading}
+          >
+            {t.yearOptions.find((o) => o.value === selectedYear)?.label}
+            <ChevronDown className="h-3 w-3" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="start">
+          {t.yearOptions.map((option) => (
+            <DropdownMenuItem
+              key={option.value}
+              onClick={() => handleYearChange(option.value as typeof selectedYear)}
+              className="flex items-center gap-2"
+            >
+              <div className="flex-1">
+                <div className="font-medium">{option.label}</div>
+                <div className="text-xs text-muted-foreground">{option.description}</div>
+              </div>
+              {selectedYear === option.value && <Check className="h-4 w-4 text-primary" />}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
       {/* Loading indicator */}
       {isLoading && (
         <div className="flex items-center gap-1 text-xs text-muted-foreground">
@@ -9,9 +9,16 @@ import {
   getProviderConfig,
   StoredModelConfig,
   LLMProvider,
+  LLMTask,
+  LLM_TASKS,
+  FallbackModelConfig,
+  TaskModelConfig,
+  AZURE_DEFAULT_API_VERSION,
 } from "@/types/model-config";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import type { SessionUsage } from "@/lib/llm/usage";
+import type { ModelCapabilities } from "@/lib/llm/capabilities";
 
 // localStorage key
 const STORAGE_KEY = "bookfinder-model-config";
@@ -55,6 +62,53 @@ function saveConfig(config: StoredModelConfig) {
   }
 }
 
+/**
+ * 同步配置到服务端，保存为当前浏览器档案的配置
+ */
+async function syncServerConfig(config: UserModelConfig) {
+  const response = await fetch("/api/model-config/update", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(config),
+  });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}`);
+  }
+}
+
+/**
+ * 迁移旧版本明文保存的 API Key：上传到服务端加密保存，本地只保留 Key ID
+ * 依次上传，第一次请求创建的档案 cookie 供后续请求使用
+ */
+async function migratePlaintextKeys(stored: StoredModelConfig): Promise<StoredModelConfig> {
+  const savedConfigs = { ...stored.savedConfigs };
+  for (const [provider, saved] of Object.entries(savedConfigs)) {
+    if (!saved.apiKey) continue;
+    const response = await fetch("/api/model-config/keys", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ provider, apiKey: saved.apiKey }),
+    });
+    if (!response.ok) continue;
+    const { keyId, hint } = await response.json();
+    savedConfigs[provider] = { ...saved, apiKey: undefined, apiKeyId: keyId, apiKeyHint: hint };
+  }
+
+  const activeConfig = { ...stored.activeConfig, apiKey: undefined };
+  const activeKeyId = savedConfigs[activeConfig.provider]?.apiKeyId;
+  return {
+    activeConfig: activeKeyId ? { ...activeConfig, apiKeyId: activeKeyId } : activeConfig,
+    savedConfigs,
+  };
+}
+
+function hasPlaintextKeys(stored: StoredModelConfig): boolean {
+  return (
+    Boolean(stored.activeConfig.apiKey) ||
+    Object.values(stored.savedConfigs).some((saved) => saved.apiKey)
+  );
+}
+
 /**
  * 模型设置组件
  */
@@ -70,6 +124,17 @@ export function ModelSettings({ onClose }: { onClose?: () => void }) {
     storedConfig.activeConfig.ollamaHost || "http://localhost:11434"
   );
   const [customModel, setCustomModel] = useState<string>("");
+  // Azure OpenAI 部署名称和 API 版本
+  const [azureDeployment, setAzureDeployment] = useState<string>("");
+  const [azureApiVersion, setAzureApiVersion] = useState<string>("");
+  // 按任务覆盖的模型和生成参数
+  const [taskConfigs, setTaskConfigs] = useState<Partial<Record<LLMTask, TaskModelConfig>>>(
+    () => storedConfig.activeConfig.tasks || {}
+  );
+  // 备用服务商，按选择顺序故障转移
+  const [fallbackProviders, setFallbackProviders] = useState<string[]>(
+    () => storedConfig.activeConfig.fallbacks?.map((f) => f.provider) || []
+  );
 
   const [testing, setTesting] = useState(false);
   const [testResult, setTestResult] = useState<{
@@ -77,8 +142,19 @@ export function ModelSettings({ onClose }: { onClose?: () => void }) {
     error?: string;
     latency?: number;
     models?: string[];
+    saved?: boolean;
+    keyId?: string;
+    hint?: string;
   } | null>(null);
   const [saving, setSaving] = useState(false);
+  // 当前模型的能力探测结果（服务端缓存）
+  const [capabilities, setCapabilities] = useState<ModelCapabilities | null>(null);
+  const [probing, setProbing] = useState(false);
+  // 服务端当前档案实际使用的配置
+  const [serverConfig, setServerConfig] = useState<{
+    source: "profile" | "default";
+    config: Pick<UserModelConfig, "provider" | "model" | "fallbacks">;
+  } | null>(null);
 
   // 动态模型列表
   const [dynamicModels, setDynamicModels] = useState<ModelInfo[]>([]);
@@ -87,21 +163,31 @@ export function ModelSettings({ onClose }: { onClose?: () => void }) {
 
   const currentProvider = getProviderConfig(selectedProvider as LLMProvider);
 
+  // 服务端已保存的 Key（输入新 Key 时优先使用新 Key）
+  const savedKeyId = storedConfig.savedConfigs[selectedProvider]?.apiKeyId;
+  const savedKeyHint = storedConfig.savedConfigs[selectedProvider]?.apiKeyHint;
+  const credentials = apiKey ? { apiKey } : { apiKeyId: savedKeyId };
+
   // 获取当前显示的模型列表
   const displayModels = dynamicModels.length > 0 ? dynamicModels : currentProvider?.models || [];
 
   // 动态获取模型列表
   const fetchModels = useCallback(
-    async (provider: string, key?: string, baseUrl?: string) => {
+    async (
+      provider: string,
+      keys: { apiKey?: string; apiKeyId?: string } = {},
+      baseUrl?: string
+    ) => {
       setLoadingModels(true);
       setModelsError(null);
 
       try {
-        const params = new URLSearchParams({ provider });
-        if (key) params.append("apiKey", key);
-        if (baseUrl) params.append("baseUrl", baseUrl);
-
-        const response = await fetch(`/api/model-config/models?${params.toString()}`);
+        // API Key 只放在请求体中
+        const response = await fetch("/api/model-config/models", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ provider, ...keys, baseUrl: baseUrl || undefined }),
+        });
         const data = await response.json();
 
         if (data.models && data.models.length > 0) {
@@ -131,14 +217,16 @@ export function ModelSettings({ onClose }: { onClose?: () => void }) {
   // 加载保存的配置
   useEffect(() => {
     const saved = storedConfig.savedConfigs[selectedProvider];
+    // 明文 Key 不保存在本地，切换服务商时清空输入
+    setApiKey("");
+    setAzureDeployment(saved?.azureDeployment || "");
+    setAzureApiVersion(saved?.azureApiVersion || "");
     if (saved) {
-      setApiKey(saved.apiKey || "");
       setCustomBaseUrl(saved.baseUrl || "");
       if (saved.lastModel) {
         setSelectedModel(saved.lastModel);
       }
     } else {
-      setApiKey("");
       setCustomBaseUrl("");
       // 选择第一个模型
       if (currentProvider?.models.length) {
@@ -151,17 +239,78 @@ export function ModelSettings({ onClose }: { onClose?: () => void }) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedProvider]);
 
+  // 切换模型时读取已缓存的能力探测结果
+  const currentModel = selectedProvider === "custom" ? customModel : selectedModel;
+  useEffect(() => {
+    setCapabilities(null);
+    if (!currentModel) return;
+
+    const params = new URLSearchParams({ provider: selectedProvider, model: currentModel });
+    if (customBaseUrl) params.set("baseUrl", customBaseUrl);
+    if (selectedProvider === "ollama") params.set("ollamaHost", ollamaHost);
+
+    let cancelled = false;
+    fetch(`/api/model-config/capabilities?${params}`)
+      .then((response) => response.json())
+      .then((data) => {
+        if (!cancelled) setCapabilities(data.capabilities);
+      })
+      .catch((e) => console.error("Failed to load capabilities:", e));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedProvider, currentModel, customBaseUrl, ollamaHost]);
+
+  // 当前会话累计的 Token 用量
+  const [usage, setUsage] = useState<SessionUsage | null>(null);
+
+  useEffect(() => {
+    fetch("/api/model-config/usage")
+      .then((response) => response.json())
+      .then((data) => setUsage(data.usage))
+      .catch((e) => console.error("Failed to load usage:", e));
+  }, []);
+
+  async function handleResetUsage() {
+    await fetch("/api/model-config/usage", { method: "DELETE" });
+    setUsage(null);
+  }
+
+  // 迁移本地明文 Key 后读取服务端配置；
+  // 档案还没有配置（如 cookie 被清除）但本地保存过配置时，重新同步到服务端
+  useEffect(() => {
+    (async () => {
+      let stored = loadConfig();
+      if (hasPlaintextKeys(stored)) {
+        stored = await migratePlaintextKeys(stored);
+        saveConfig(stored);
+        setStoredConfig(stored);
+      }
+
+      const data = await fetch("/api/model-config/update").then((response) => response.json());
+      if (data.source === "default" && localStorage.getItem(STORAGE_KEY)) {
+        await syncServerConfig(stored.activeConfig);
+        setServerConfig({ source: "profile", config: stored.activeConfig });
+      } else {
+        setServerConfig(data);
+      }
+    })().catch((e) => console.error("Failed to load server config:", e));
+  }, []);
+
   // 当服务商变化时，尝试获取模型列表
   // 只有 Ollama 和 OpenRouter 可以不需要 API Key 获取模型列表
   useEffect(() => {
     if (selectedProvider === "ollama") {
       // Ollama 是本地服务，不需要 API Key
-      fetchModels("ollama", undefined, ollamaHost);
+      fetchModels("ollama", {}, ollamaHost);
     } else if (selectedProvider === "openrouter") {
       // OpenRouter 的模型列表 API 是公开的，不需要 API Key
-      fetchModels("openrouter", apiKey);
+      fetchModels("openrouter", credentials);
+    } else if (savedKeyId) {
+      // 其他服务商需要 API Key 才能获取模型列表，使用已保存的 Key
+      const saved = storedConfig.savedConfigs[selectedProvider];
+      fetchModels(selectedProvider, { apiKeyId: savedKeyId }, saved?.baseUrl);
     }
-    // 其他服务商需要 API Key 才能获取模型列表
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [selectedProvider, ollamaHost]);
 
@@ -176,7 +325,7 @@ export function ModelSettings({ onClose }: { onClose?: () => void }) {
     ) {
       // 使用防抖，避免输入过程中频繁请求
       const timer = setTimeout(() => {
-        fetchModels(selectedProvider, apiKey, customBaseUrl);
+        fetchModels(selectedProvider, { apiKey }, customBaseUrl);
       }, 500);
       return () => clearTimeout(timer);
     }
@@ -186,30 +335,101 @@ export function ModelSettings({ onClose }: { onClose?: () => void }) {
   // 刷新模型列表按钮
   const handleRefreshModels = () => {
     if (selectedProvider === "ollama") {
-      fetchModels("ollama", undefined, ollamaHost);
+      fetchModels("ollama", {}, ollamaHost);
     } else {
-      fetchModels(selectedProvider, apiKey, customBaseUrl);
+      fetchModels(selectedProvider, credentials, customBaseUrl);
     }
   };
 
+  // 可作为备用的服务商：已保存过模型和 Key（或不需要 Key）的其他服务商
+  const fallbackCandidates = PROVIDERS.filter((provider) => {
+    const saved = storedConfig.savedConfigs[provider.id];
+    return (
+      provider.id !== selectedProvider &&
+      saved?.lastModel &&
+      (saved.apiKeyId || !provider.requiresApiKey)
+    );
+  });
+
+  const toggleFallback = (provider: string) => {
+    setFallbackProviders((current) =>
+      current.includes(provider) ? current.filter((p) => p !== provider) : [...current, provider]
+    );
+  };
+
+  // 备用模型使用各服务商保存的模型和 Key
+  const buildFallbacks = (): FallbackModelConfig[] =>
+    fallbackProviders
+      .filter((provider) => fallbackCandidates.some((p) => p.id === provider))
+      .map((provider) => {
+        const saved = storedConfig.savedConfigs[provider];
+        return {
+          provider: provider as LLMProvider,
+          model: saved.lastModel!,
+          apiKeyId: saved.apiKeyId,
+          baseUrl: saved.baseUrl,
+          ollamaHost: provider === "ollama" ? ollamaHost : undefined,
+          azureDeployment: saved.azureDeployment,
+          azureApiVersion: saved.azureApiVersion,
+        };
+      });
+
+  const updateTaskConfig = (task: LLMTask, patch: TaskModelConfig) => {
+    setTaskConfigs((current) => ({ ...current, [task]: { ...current[task], ...patch } }));
+  };
+
+  // 任务选择了其他服务商时，使用该服务商保存的 Key 和地址
+  const buildTasks = (): UserModelConfig["tasks"] => {
+    const tasks: NonNullable<UserModelConfig["tasks"]> = {};
+    for (const { id } of LLM_TASKS) {
+      const { provider, model, temperature, maxTokens } = taskConfigs[id] || {};
+      const saved =
+        provider && fallbackCandidates.some((p) => p.id === provider)
+          ? storedConfig.savedConfigs[provider]
+          : undefined;
+      if (!saved && !model && temperature === undefined && maxTokens === undefined) continue;
+
+      tasks[id] = {
+        provider: saved ? provider : undefined,
+        model: model || saved?.lastModel,
+        apiKeyId: saved?.apiKeyId,
+        baseUrl: saved?.baseUrl,
+        ollamaHost: saved && provider === "ollama" ? ollamaHost : undefined,
+        azureDeployment: saved?.azureDeployment,
+        azureApiVersion: saved?.azureApiVersion,
+        temperature,
+        maxTokens,
+      };
+    }
+    return Object.keys(tasks).length > 0 ? tasks : undefined;
+  };
+
+  // 当前表单中的配置
+  const buildConfig = (): UserModelConfig => {
+    const fallbacks = buildFallbacks();
+    return {
+      provider: selectedProvider as LLMProvider,
+      model: selectedProvider === "custom" ? customModel : selectedModel,
+      ...credentials,
+      baseUrl: customBaseUrl || undefined,
+      ollamaHost: selectedProvider === "ollama" ? ollamaHost : undefined,
+      azureDeployment: (selectedProvider === "azure" && azureDeployment) || undefined,
+      azureApiVersion: (selectedProvider === "azure" && azureApiVersion) || undefined,
+      fallbacks: fallbacks.length > 0 ? fallbacks : undefined,
+      tasks: buildTasks(),
+    };
+  };
+
   // 测试连接
   async function handleTest() {
     setTesting(true);
     setTestResult(null);
 
     try {
-      const config: UserModelConfig = {
-        provider: selectedProvider as LLMProvider,
-        model: selectedProvider === "custom" ? customModel : selectedModel,
-        apiKey: apiKey || undefined,
-        baseUrl: customBaseUrl || undefined,
-        ollamaHost: selectedProvider === "ollama" ? ollamaHost : undefined,
-      };
-
       const response = await fetch("/api/model-config", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(config),
+        body: JSON.stringify(buildConfig()),
       });
 
       const result = await response.json();
@@ -219,6 +439,9 @@ export function ModelSettings({ onClose }: { onClose?: () => void }) {
       if (result.models && result.models.length > 0) {
         setDynamicModels(result.models.map((m: string) => ({ id: m, name: m, isFree: true })));
       }
+      if (result.success) {
+        await handleProbe();
+      }
     } catch {
       setTestResult({ success: false, error: "测试请求失败" });
     } finally {
@@ -226,51 +449,81 @@ export function ModelSettings({ onClose }: { onClose?: () => void }) {
     }
   }
 
-  // 保存配置
+  // 探测模型能力，refresh 为 true 时忽略服务端缓存
+  async function handleProbe(refresh = false) {
+    setProbing(true);
+    try {
+      const response = await fetch("/api/model-config/capabilities", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ...buildConfig(), fallbacks: undefined, tasks: undefined, refresh }),
+      });
+      const data = await response.json();
+      if (data.capabilities) {
+        setCapabilities(data.capabilities);
+      }
+    } catch (e) {
+      console.error("Failed to probe capabilities:", e);
+    } finally {
+      setProbing(false);
+    }
+  }
+
+  // 测试并保存配置：服务端测试通过后保存到当前档案，Key 加密保存，只返回 Key ID
   async function handleSave() {
     setSaving(true);
+    setTestResult(null);
 
-    const newConfig: StoredModelConfig = {
-      activeConfig: {
-        provider: selectedProvider as LLMProvider,
-        model: selectedProvider === "custom" ? customModel : selectedModel,
-        apiKey: apiKey || undefined,
-        baseUrl: customBaseUrl || undefined,
-        ollamaHost: selectedProvider === "ollama" ? ollamaHost : undefined,
-      },
-      savedConfigs: {
-        ...storedConfig.savedConfigs,
-        [selectedProvider]: {
-          apiKey: apiKey || undefined,
-          baseUrl: customBaseUrl || undefined,
-          lastModel: selectedProvider === "custom" ? customModel : selectedModel,
-        },
-      },
-    };
-
-    saveConfig(newConfig);
-    setStoredConfig(newConfig);
-
-    // 通知服务器更新配置
     try {
-      await fetch("/api/model-config/update", {
+      const response = await fetch("/api/model-config", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify(newConfig.activeConfig),
+        body: JSON.stringify({ ...buildConfig(), save: true }),
       });
+      const result = await response.json();
+
+      if (!result.saved) {
+        setTestResult(result);
+        return;
+      }
+
+      const config = { ...buildConfig(), apiKey: undefined };
+      const apiKeyId = result.keyId as string | undefined;
+      const newConfig: StoredModelConfig = {
+        activeConfig: { ...config, apiKeyId },
+        savedConfigs: {
+          ...storedConfig.savedConfigs,
+          [selectedProvider]: {
+            apiKeyId,
+            apiKeyHint: apiKeyId ? result.hint || savedKeyHint : undefined,
+            baseUrl: customBaseUrl || undefined,
+            lastModel: config.model,
+            azureDeployment: config.azureDeployment,
+            azureApiVersion: config.azureApiVersion,
+          },
+        },
+      };
+
+      saveConfig(newConfig);
+      setStoredConfig(newConfig);
+      setServerConfig({ source: "profile", config: newConfig.activeConfig });
+      setApiKey("");
+      onClose?.();
     } catch (e) {
-      console.error("Failed to update server config:", e);
+      console.error("Failed to save config:", e);
+      setTestResult({ success: false, error: "保存失败" });
+    } finally {
+      setSaving(false);
     }
-
-    setSaving(false);
-    onClose?.();
   }
 
+  const activeConfig = serverConfig?.config || storedConfig.activeConfig;
+
   // 是否已从 API 获取到模型列表
   const hasApiModels = dynamicModels.length > 0;
 
   // 是否需要 API Key 但还没有输入
-  const needsApiKey = currentProvider?.requiresApiKey && !apiKey;
+  const needsApiKey = currentProvider?.requiresApiKey && !apiKey && !savedKeyId;
 
   // 是否是不需要 API Key 就能获取模型列表的服务商
   const canFetchWithoutKey = selectedProvider === "ollama" || selectedProvider === "openrouter";
@@ -284,13 +537,48 @@ export function ModelSettings({ onClose }: { onClose?: () => void }) {
         <div className="text-sm">
           <strong>当前使用:</strong>{" "}
           <span className="text-blue-600 dark:text-blue-400">
-            {getProviderConfig(storedConfig.activeConfig.provider)?.icon}{" "}
-            {getProviderConfig(storedConfig.activeConfig.provider)?.name} /{" "}
-            {storedConfig.activeConfig.model}
+            {getProviderConfig(activeConfig.provider)?.icon}{" "}
+            {getProviderConfig(activeConfig.provider)?.name} / {activeConfig.model}
           </span>
+          {serverConfig?.source === "default" && (
+            <span className="ml-2 text-xs text-muted-foreground">（服务端默认配置）</span>
+          )}
         </div>
+        {activeConfig.fallbacks && activeConfig.fallbacks.length > 0 && (
+          <div className="mt-1 text-xs text-muted-foreground">
+            备用: {activeConfig.fallbacks.map((f) => `${f.provider} / ${f.model}`).join(" → ")}
+          </div>
+        )}
       </div>
 
+      {/* 会话用量 */}
+      {usage && usage.calls > 0 && (
+        <div className="mb-6 rounded-lg border p-4 text-sm">
+          <div className="flex items-center">
+            <strong>本次会话用量:</strong>
+            <span className="ml-2">
+              {usage.calls} 次调用 · 输入 {usage.inputTokens.toLocaleString()} / 输出{" "}
+              {usage.outputTokens.toLocaleString()} Tokens · 约 ${usage.cost.toFixed(4)}
+            </span>
+            <button
+              onClick={handleResetUsage}
+              className="ml-auto text-xs text-blue-500 hover:text-blue-600"
+            >
+              清零
+            </button>
+          </div>
+          <ul className="mt-2 space-y-1 text-xs text-muted-foreground">
+            {usage.byModel.map((m) => (
+              <li key={`${m.provider}/${m.model}`}>
+                {getProviderConfig(m.provider as LLMProvider)?.name || m.provider} / {m.model}:{" "}
+                {m.calls} 次，{(m.inputTokens + m.outputTokens).toLocaleString()} Tokens
+                {m.unpricedCalls > 0 ? "（无价格信息，未计入费用）" : `，$${m.cost.toFixed(4)}`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Step 1: 服务商选择 */}
       <div className="mb-6">
         <div className="mb-3 flex items-center gap-2">
@@ -367,10 +655,14 @@ export function ModelSettings({ onClose }: { onClose?: () => void }) {
                 type="password"
                 value={apiKey}
                 onChange={(e) => setApiKey(e.target.value)}
-                placeholder={`输入 ${currentProvider.name} API Key`}
+                placeholder={
+                  savedKeyHint
+                    ? `已保存 ${savedKeyHint}，输入新的 Key 可替换`
+                    : `输入 ${currentProvider.name} API Key`
+                }
                 className="flex-1"
               />
-              {apiKey && (
+              {(apiKey || savedKeyId) && (
                 <Button
                   variant="outline"
                   size="sm"
@@ -382,8 +674,8 @@ export function ModelSettings({ onClose }: { onClose?: () => void }) {
               )}
             </div>
             <p className="mt-1 text-xs text-gray-500">
-              API Key 仅保存在本地浏览器中，不会上传到服务器。
-              {apiKey ? ' 点击"获取模型"可获取可用模型列表。' : " 请先输入 API Key。"}
+              API Key 测试通过后加密保存在服务端，浏览器只保存 Key ID，保存后不会再显示。
+              {apiKey || savedKeyId ? ' 点击"获取模型"可获取可用模型列表。' : " 请先输入 API Key。"}
             </p>
           </div>
         )}
@@ -400,6 +692,57 @@ export function ModelSettings({ onClose }: { onClose?: () => void }) {
           </div>
         )}
 
+        {/* Anthropic / Gemini 代理地址 */}
+        {(selectedProvider === "anthropic" || selectedProvider === "google") && (
+          <div className="mt-3">
+            <label className="mb-1 block text-xs font-medium text-gray-600">代理地址（可选）</label>
+            <Input
+              value={customBaseUrl}
+              onChange={(e) => setCustomBaseUrl(e.target.value)}
+              placeholder={
+                selectedProvider === "anthropic"
+                  ? "https://api.anthropic.com"
+                  : "https://generativelanguage.googleapis.com"
+              }
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              使用兼容官方接口的代理时填写，留空则直接访问官方接口
+            </p>
+          </div>
+        )}
+
+        {/* Azure OpenAI 资源地址、部署名称和 API 版本 */}
+        {selectedProvider === "azure" && (
+          <div className="mt-3 space-y-2">
+            <div>
+              <label className="mb-1 block text-xs font-medium text-gray-600">资源地址</label>
+              <Input
+                value={customBaseUrl}
+                onChange={(e) => setCustomBaseUrl(e.target.value)}
+                placeholder="https://<resource>.openai.azure.com"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div>
+                <label className="mb-1 block text-xs font-medium text-gray-600">部署名称</label>
+                <Input
+                  value={azureDeployment}
+                  onChange={(e) => setAzureDeployment(e.target.value)}
+                  placeholder="默认与模型名相同"
+                />
+              </div>
+              <div>
+                <label className="mb-1 block text-xs font-medium text-gray-600">API 版本</label>
+                <Input
+                  value={azureApiVersion}
+                  onChange={(e) => setAzureApiVersion(e.target.value)}
+                  placeholder={AZURE_DEFAULT_API_VERSION}
+                />
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* OpenRouter 特殊提示 */}
         {selectedProvider === "openrouter" && (
           <p className="mt-1 text-xs text-blue-600">
@@ -486,6 +829,113 @@ export function ModelSettings({ onClose }: { onClose?: () => void }) {
         )}
       </div>
 
+      {/* Step 4: 备用模型 */}
+      {fallbackCandidates.length > 0 && (
+        <div className="mb-6">
+          <div className="mb-3 flex items-center gap-2">
+            <span className="flex h-6 w-6 items-center justify-center rounded-full bg-blue-500 text-sm font-bold text-white">
+              4
+            </span>
+            <label className="text-sm font-medium">备用模型（可选）</label>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {fallbackCandidates.map((provider) => {
+              const order = fallbackProviders.indexOf(provider.id);
+              return (
+                <button
+                  key={provider.id}
+                  onClick={() => toggleFallback(provider.id)}
+                  className={`rounded-lg border-2 px-3 py-2 text-left text-sm transition-all ${
+                    order >= 0
+                      ? "border-blue-500 bg-blue-50 dark:bg-blue-900/20"
+                      : "border-gray-200 hover:border-gray-300 dark:border-gray-700"
+                  }`}
+                >
+                  {order >= 0 && <span className="mr-1 font-bold text-blue-500">{order + 1}</span>}
+                  {provider.icon} {provider.name}
+                  <span className="ml-1 text-xs text-gray-500">
+                    {storedConfig.savedConfigs[provider.id].lastModel}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+          <p className="mt-1 text-xs text-muted-foreground">
+            当前模型不可用时按选择顺序切换到备用模型，只能选择已保存过配置的服务商。
+          </p>
+        </div>
+      )}
+
+      {/* 按任务选择模型 */}
+      <details className="mb-6 rounded-lg border p-4">
+        <summary className="cursor-pointer text-sm font-medium">高级：按任务选择模型</summary>
+        <p className="mt-2 text-xs text-muted-foreground">
+          留空时使用上面选择的模型和任务默认参数；其他服务商需要先保存过配置。
+        </p>
+        <div className="mt-3 space-y-3">
+          {LLM_TASKS.map((task) => {
+            const taskConfig = taskConfigs[task.id] || {};
+            const toNumber = (value: string) => (value === "" ? undefined : Number(value));
+            return (
+              <div key={task.id} className="grid grid-cols-2 gap-2 md:grid-cols-5">
+                <div className="col-span-2 md:col-span-1">
+                  <div className="text-sm font-medium">{task.name}</div>
+                  <div className="text-xs text-gray-500">{task.description}</div>
+                </div>
+                <select
+                  value={taskConfig.provider || ""}
+                  onChange={(e) =>
+                    updateTaskConfig(task.id, {
+                      provider: (e.target.value || undefined) as LLMProvider | undefined,
+                    })
+                  }
+                  className="rounded-lg border bg-white p-2 text-sm dark:bg-gray-800"
+                >
+                  <option value="">主模型</option>
+                  {fallbackCandidates.map((provider) => (
+                    <option key={provider.id} value={provider.id}>
+                      {provider.icon} {provider.name}
+                    </option>
+                  ))}
+                </select>
+                <Input
+                  value={taskConfig.model || ""}
+                  onChange={(e) =>
+                    updateTaskConfig(task.id, { model: e.target.value || undefined })
+                  }
+                  placeholder={
+                    (taskConfig.provider &&
+                      storedConfig.savedConfigs[taskConfig.provider]?.lastModel) ||
+                    "模型（默认）"
+                  }
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  max={2}
+                  step={0.1}
+                  value={taskConfig.temperature ?? ""}
+                  onChange={(e) =>
+                    updateTaskConfig(task.id, { temperature: toNumber(e.target.value) })
+                  }
+                  placeholder={`温度 ${task.temperature}`}
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  step={100}
+                  value={taskConfig.maxTokens ?? ""}
+                  onChange={(e) =>
+                    updateTaskConfig(task.id, { maxTokens: toNumber(e.target.value) })
+                  }
+                  placeholder={`最大 Token ${task.maxTokens}`}
+                />
+              </div>
+            );
+          })}
+        </div>
+      </details>
+
       {/* 测试结果 */}
       {testResult && (
         <div
@@ -505,6 +955,52 @@ export function ModelSettings({ onClose }: { onClose?: () => void }) {
         </div>
       )}
 
+      {/* 模型能力 */}
+      {(capabilities || probing) && (
+        <div className="mb-6 rounded-lg border p-4 text-sm">
+          <div className="mb-2 flex items-center justify-between">
+            <span className="font-medium">模型能力</span>
+            <button
+              type="button"
+              onClick={() => handleProbe(true)}
+              disabled={probing}
+              className="text-xs text-blue-500 hover:underline disabled:text-gray-400"
+            >
+              {probing ? "检测中..." : "重新检测"}
+            </button>
+          </div>
+          {capabilities && (
+            <div className="flex flex-wrap gap-2 text-xs">
+              {(
+                [
+                  ["toolCalling", "工具调用"],
+                  ["jsonMode", "JSON 模式"],
+                  ["streaming", "流式输出"],
+                ] as const
+              ).map(([key, label]) => (
+                <span
+                  key={key}
+                  title={capabilities.errors[key]}
+                  className={`rounded px-2 py-1 ${
+                    capabilities[key]
+                      ? "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300"
+                      : "bg-gray-200 text-gray-500 dark:bg-gray-700 dark:text-gray-400"
+                  }`}
+                >
+                  {capabilities[key] ? "✓" : "✗"} {label}
+                </span>
+              ))}
+              <span className="rounded bg-gray-200 px-2 py-1 text-gray-600 dark:bg-gray-700 dark:text-gray-300">
+                上下文:{" "}
+                {capabilities.contextLength
+                  ? `${Math.round(capabilities.contextLength / 1000)}K`
+                  : "未知"}
+              </span>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* 按钮 */}
       <div className="flex gap-3">
         <Button
@@ -520,7 +1016,7 @@ export function ModelSettings({ onClose }: { onClose?: () => void }) {
           disabled={saving || (needsApiKey && !canFetchWithoutKey)}
           className="flex-1"
         >
-          {saving ? "保存中..." : "保存配置"}
+          {saving ? "保存中..." : "测试并保存"}
         </Button>
       </div>
     </div>
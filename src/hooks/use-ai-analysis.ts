@@ -2,6 +2,7 @@
 
 import { useState, useCallback } from "react";
 import { Book, BookAnalysis } from "@/types/book";
+import { loadReaderProfile } from "@/lib/reader-profile";
 
 interface UseAIAnalysisResult {
   analysis: BookAnalysis | null;
@@ -29,7 +30,7 @@ export function useAIAnalysis(): UseAIAnalysisResult {
       const response = await fetch("/api/analyze", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ book }),
+        body: JSON.stringify({ book, ...loadReaderProfile(book) }),
       });
 
       if (!response.ok) {
@@ -2,6 +2,8 @@
 
 import { useState, useCallback, useRef } from "react";
 import { Book } from "@/types/book";
+import type { AgentNodeName, AgentStreamEvent, UserPreferences } from "@/lib/agents/types";
+import { readSSEStream } from "@/lib/sse";
 
 interface ChatMessage {
   role: "user" | "assistant";
@@ -17,15 +19,43 @@ export interface InferredPreferences {
   languageLabel: string;
   confidence: number;
   isFiction?: boolean;
+  bookType?: "practical" | "theoretical" | "both";
+  bookTypeLabel?: string;
+  yearPreference?: "latest" | "classic" | "any";
+  yearPreferenceLabel?: string;
 }
 
 interface ChatState {
-  preferences: Record<string, string>;
+  preferences: UserPreferences;
   missingFields: string[];
   phase: "analyzing" | "confirming" | "searching" | "complete";
   inferredPreferences?: InferredPreferences;
 }
 
+// 单个数据源的搜索进度
+export interface SourceProgress {
+  id: string;
+  name: string;
+  status: "pending" | "done" | "error";
+  count?: number;
+  elapsedMs?: number;
+}
+
+// 单次流式请求的回调
+export interface StreamHandlers {
+  onToken?: (content: string, fullText: string) => void;
+  onBooks?: (books: Book[], partial: boolean) => void;
+}
+
+type StreamDoneEvent = Extract<AgentStreamEvent, { type: "done" }>;
+
+// Agent 图的阶段映射到前端展示的阶段
+function toChatPhase(phase: StreamDoneEvent["state"]["phase"]): ChatState["phase"] {
+  if (phase === "gathering") return "analyzing";
+  if (phase === "searching") return "searching";
+  return "complete";
+}
+
 interface UseChatStreamOptions {
   onMessage?: (content: string) => void;
   onBooks?: (books: Book[]) => void;
@@ -44,6 +74,12 @@ interface SearchResult {
   books: Book[];
   searchQuery: string;
   preferences: InferredPreferences;
+  nextCursor?: string; // 加载更多结果的游标
+}
+
+interface LoadMoreResult {
+  books: Book[];
+  nextCursor?: string;
 }
 
 export function useChatStream(options: UseChatStreamOptions = {}) {
@@ -53,8 +89,120 @@ export function useChatStream(options: UseChatStreamOptions = {}) {
   const [chatState, setChatState] = useState<ChatState | null>(null);
   const [inferredPreferences, setInferredPreferences] = useState<InferredPreferences | null>(null);
   const [understandingText, setUnderstandingText] = useState<string>("");
+  const [activeNode, setActiveNode] = useState<AgentNodeName | null>(null);
+  const [sourceProgress, setSourceProgress] = useState<SourceProgress[]>([]);
   const abortControllerRef = useRef<AbortController | null>(null);
   const lastMessageRef = useRef<string>("");
+  // 服务端保存的对话线程，多轮对话的状态在服务端累积
+  const threadIdRef = useRef<string | null>(null);
+
+  /**
+   * 调用 SSE 接口运行 Agent，逐个处理流式事件
+   * 返回最终的 done 事件，失败或取消时返回 null
+   */
+  const streamAgent = useCallback(
+    async (
+      body: Record<string, unknown>,
+      handlers: StreamHandlers = {}
+    ): Promise<StreamDoneEvent | null> => {
+      // 取消之前的请求
+      if (abortControllerRef.current) {
+        abortControllerRef.current.abort();
+      }
+      abortControllerRef.current = new AbortController();
+
+      setActiveNode(null);
+      setSourceProgress([]);
+
+      let text = "";
+      let partialBooks: Book[] = [];
+      let doneEvent: StreamDoneEvent | null = null;
+
+      try {
+        const response = await fetch("/api/chat/stream", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ ...body, threadId: threadIdRef.current || undefined }),
+          signal: abortControllerRef.current.signal,
+        });
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+
+        await readSSEStream<AgentStreamEvent>(response, (event) => {
+          switch (event.type) {
+            case "node_start":
+              setActiveNode(event.node);
+              if (event.node === "tools") {
+                setChatState((prev) => (prev ? { ...prev, phase: "searching" } : prev));
+              }
+              break;
+            case "node_end":
+              setActiveNode((current) => (current === event.node ? null : current));
+              break;
+            case "preferences":
+              setInferredPreferences(event.inferredPreferences);
+              break;
+            case "source_start":
+              setSourceProgress(
+                event.sources.map((source) => ({ ...source, status: "pending" as const }))
+              );
+              break;
+            case "source_result":
+              setSourceProgress((prev) =>
+                prev.map((source) =>
+                  source.id === event.sourceId
+                    ? {
+                        ...source,
+                        status: event.error && event.count === 0 ? "error" : "done",
+                        count: event.count,
+                        elapsedMs: event.elapsedMs,
+                      }
+                    : source
+                )
+              );
+              break;
+            case "books_partial":
+              partialBooks = [...partialBooks, ...event.books];
+              handlers.onBooks?.(partialBooks, true);
+              break;
+            case "books":
+              handlers.onBooks?.(event.books, false);
+              break;
+            case "token":
+              text += event.content;
+              handlers.onToken?.(event.content, text);
+              break;
+            case "done":
+              doneEvent = event;
+              break;
+            case "error":
+              throw new Error(event.error);
+          }
+        });
+
+        if (!doneEvent) {
+          throw new Error("Stream ended unexpectedly");
+        }
+
+        const result: StreamDoneEvent = doneEvent;
+        threadIdRef.current = result.threadId;
+        setChatState({ ...result.state, phase: toChatPhase(result.state.phase) });
+        if (result.inferredPreferences) {
+          setInferredPreferences(result.inferredPreferences);
+        }
+        if (result.books.length > 0) {
+          options.onBooks?.(result.books);
+        }
+
+        return result;
+      } finally {
+        setActiveNode(null);
+      }
+    },
+    [options]
+  );
 
   /**
    * 第一阶段：分析用户意图
@@ -119,21 +267,66 @@ export function useChatStream(options: UseChatStreamOptions = {}) {
 
   /**
    * 第二阶段：确认搜索
-   * 使用用户确认/调整后的偏好执行搜索
+   * 使用用户确认/调整后的偏好执行搜索，流式返回进度和推荐说明
    */
   const confirmSearch = useCallback(
-    async (preferences: InferredPreferences): Promise<SearchResult | null> => {
+    async (
+      preferences: InferredPreferences,
+      handlers?: StreamHandlers
+    ): Promise<SearchResult | null> => {
       setIsLoading(true);
       setIsSearching(true);
       setChatState((prev) => (prev ? { ...prev, phase: "searching" } : null));
 
       try {
+        const result = await streamAgent(
+          { message: lastMessageRef.current, preferences },
+          handlers
+        );
+        if (!result) return null;
+
+        options.onComplete?.();
+
+        return {
+          message: result.message,
+          books: result.books,
+          searchQuery: result.searchQuery || "",
+          preferences: result.inferredPreferences || preferences,
+          nextCursor: result.nextCursor,
+        };
+      } catch (error) {
+        if ((error as Error).name === "AbortError") {
+          return null;
+        }
+        const errorMessage = error instanceof Error ? error.message : "搜索失败";
+        options.onError?.(errorMessage);
+        return null;
+      } finally {
+        setIsLoading(false);
+        setIsSearching(false);
+      }
+    },
+    [options, streamAgent]
+  );
+
+  /**
+   * 加载更多搜索结果
+   * 使用上一页返回的游标请求下一页，不经过 Agent，也不会取消进行中的对话请求
+   */
+  const loadMoreBooks = useCallback(
+    async (preferences: InferredPreferences, cursor: string): Promise<LoadMoreResult | null> => {
+      try {
+        // 第一页的搜索调用不带 "any"，保持一致才能命中同一批次的缓存
+        const { yearPreference } = preferences;
         const response = await fetch("/api/confirm-search", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
           body: JSON.stringify({
-            message: lastMessageRef.current,
-            preferences,
+            preferences: {
+              ...preferences,
+              yearPreference: yearPreference === "any" ? undefined : yearPreference,
+            },
+            cursor,
           }),
         });
 
@@ -142,29 +335,11 @@ export function useChatStream(options: UseChatStreamOptions = {}) {
         }
 
         const data = await response.json();
-
-        if (data.books?.length > 0) {
-          options.onBooks?.(data.books);
-        }
-
-        setInferredPreferences(data.preferences);
-        setChatState((prev) => (prev ? { ...prev, phase: "complete" } : null));
-
-        options.onComplete?.();
-
-        return {
-          message: data.message,
-          books: data.books || [],
-          searchQuery: data.searchQuery,
-          preferences: data.preferences,
-        };
+        return { books: data.books || [], nextCursor: data.nextCursor };
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : "搜索失败";
+        const errorMessage = error instanceof Error ? error.message : "加载失败";
         options.onError?.(errorMessage);
         return null;
-      } finally {
-        setIsLoading(false);
-        setIsSearching(false);
       }
     },
     [options]
@@ -212,6 +387,7 @@ export function useChatStream(options: UseChatStreamOptions = {}) {
             mode: "agent",
             state: chatState,
             adjustedPreferences,
+            threadId: threadIdRef.current || undefined,
           }),
           signal: abortControllerRef.current.signal,
         });
@@ -222,6 +398,10 @@ export function useChatStream(options: UseChatStreamOptions = {}) {
 
         const data = await response.json();
 
+        if (data.threadId) {
+          threadIdRef.current = data.threadId;
+        }
+
         if (data.state) {
           setChatState(data.state);
         }
@@ -254,58 +434,43 @@ export function useChatStream(options: UseChatStreamOptions = {}) {
     [chatState, options]
   );
 
-  // 使用调整后的偏好重新搜索（旧版兼容）
+  /**
+   * 使用调整后的偏好重新搜索，流式返回结果
+   */
   const researchWithPreferences = useCallback(
     async (
-      adjustedPreferences: Partial<InferredPreferences>
+      adjustedPreferences: Partial<InferredPreferences>,
+      handlers?: StreamHandlers
     ): Promise<{
       message: string;
       books?: Book[];
       inferredPreferences?: InferredPreferences;
+      nextCursor?: string;
     } | null> => {
-      if (!lastMessageRef.current) return null;
+      if (!lastMessageRef.current || !inferredPreferences) return null;
 
       setIsLoading(true);
 
       try {
-        const response = await fetch("/api/chat", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
+        const result = await streamAgent(
+          {
             message: lastMessageRef.current,
-            history: [],
-            mode: "agent",
-            adjustedPreferences: {
-              ...inferredPreferences,
-              ...adjustedPreferences,
-            },
-          }),
-        });
-
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}`);
-        }
-
-        const data = await response.json();
-
-        if (data.state) {
-          setChatState(data.state);
-        }
-
-        if (data.inferredPreferences) {
-          setInferredPreferences(data.inferredPreferences);
-        }
-
-        if (data.books?.length > 0) {
-          options.onBooks?.(data.books);
-        }
+            preferences: { ...inferredPreferences, ...adjustedPreferences },
+          },
+          handlers
+        );
+        if (!result) return null;
 
         return {
-          message: data.message,
-          books: data.books,
-          inferredPreferences: data.inferredPreferences,
+          message: result.message,
+          books: result.books,
+          inferredPreferences: result.inferredPreferences,
+          nextCursor: result.nextCursor,
         };
       } catch (error) {
+        if ((error as Error).name === "AbortError") {
+          return null;
+        }
         const errorMessage = error instanceof Error ? error.message : "重新搜索失败";
         options.onError?.(errorMessage);
         return null;
@@ -313,7 +478,7 @@ export function useChatStream(options: UseChatStreamOptions = {}) {
         setIsLoading(false);
       }
     },
-    [inferredPreferences, options]
+    [inferredPreferences, options, streamAgent]
   );
 
   const cancel = useCallback(() => {
@@ -330,6 +495,7 @@ export function useChatStream(options: UseChatStreamOptions = {}) {
     setInferredPreferences(null);
     setUnderstandingText("");
     lastMessageRef.current = "";
+    threadIdRef.current = null;
   }, []);
 
   return {
@@ -340,11 +506,14 @@ export function useChatStream(options: UseChatStreamOptions = {}) {
     chatState,
     inferredPreferences,
     understandingText,
+    activeNode,
+    sourceProgress,
 
     // 新版两阶段流程
     analyzeIntent,
     confirmSearch,
     adjustPreferences,
+    loadMoreBooks,
 
     // 旧版兼容
     sendMessage,
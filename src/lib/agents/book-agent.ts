@@ -1,5 +1,15 @@
 import { Annotation, StateGraph, END } from "@langchain/langgraph";
-import { AgentState, Book, BookAnalysis, AgentMessage, SearchFilters } from "@/types/book";
+import {
+  AgentState,
+  Book,
+  BookAnalysis,
+  AgentMessage,
+  ReaderProfile,
+  SearchFacets,
+  SearchFilters,
+} from "@/types/book";
+import type { RankingExplanation } from "@/lib/ranking";
+import type { SearchCursor } from "@/lib/sources";
 import { searchNode } from "./nodes/search";
 import { analyzeNode } from "./nodes/analyze";
 
@@ -7,11 +17,16 @@ import { analyzeNode } from "./nodes/analyze";
 const BookAgentState = Annotation.Root({
   query: Annotation<string>(),
   filters: Annotation<SearchFilters | undefined>(),
+  cursor: Annotation<SearchCursor | undefined>(),
   books: Annotation<Book[]>({
     reducer: (_, y) => y ?? [],
     default: () => [] as Book[],
   }),
+  ranking: Annotation<RankingExplanation[] | undefined>(),
+  facets: Annotation<SearchFacets | undefined>(),
+  nextCursor: Annotation<string | undefined>(),
   selectedBook: Annotation<Book | undefined>(),
+  reader: Annotation<ReaderProfile | undefined>(),
   analysis: Annotation<BookAnalysis | undefined>(),
   messages: Annotation<AgentMessage[]>({
     reducer: (_, y) => y ?? [],
@@ -54,12 +69,17 @@ export function createBookAgent() {
 }
 
 // Helper function to run a search
-export async function runBookSearch(query: string, filters?: SearchFilters): Promise<AgentState> {
+export async function runBookSearch(
+  query: string,
+  filters?: SearchFilters,
+  cursor?: SearchCursor
+): Promise<AgentState> {
   const agent = createBookAgent();
 
   const result = await agent.invoke({
     query,
     filters,
+    cursor,
     action: "search",
     books: [],
     messages: [
@@ -75,12 +95,13 @@ export async function runBookSearch(query: string, filters?: SearchFilters): Pro
 }
 
 // Helper function to run analysis
-export async function runBookAnalysis(book: Book): Promise<AgentState> {
+export async function runBookAnalysis(book: Book, reader?: ReaderProfile): Promise<AgentState> {
   const agent = createBookAgent();
 
   const result = await agent.invoke({
     query: "",
     selectedBook: book,
+    reader,
     action: "analyze",
     books: [],
     messages: [
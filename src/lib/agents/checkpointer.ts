@@ -0,0 +1,190 @@
+/**
+ * Agent 对话检查点
+ * 每轮对话的状态按 thread_id 保存在服务端，支持续聊、分叉和重放
+ */
+
+import { join } from "node:path";
+import {
+  MemorySaver,
+  type BaseCheckpointSaver,
+  type Checkpoint,
+  type CheckpointMetadata,
+  type CheckpointTuple,
+} from "@langchain/langgraph";
+import type { RunnableConfig } from "@langchain/core/runnables";
+import { createJsonFilePersistence, type JsonFilePersistence } from "@/lib/json-file";
+
+type PendingWrite = Parameters<MemorySaver["putWrites"]>[1][number];
+
+/**
+ * 检查点文件中二进制数据的编码方式
+ */
+interface EncodedBytes {
+  __bytes: string; // base64
+}
+
+function encodeBytes(_key: string, value: unknown): unknown {
+  return value instanceof Uint8Array
+    ? ({ __bytes: Buffer.from(value).toString("base64") } satisfies EncodedBytes)
+    : value;
+}
+
+function decodeBytes(_key: string, value: unknown): unknown {
+  return value && typeof value === "object" && "__bytes" in value
+    ? new Uint8Array(Buffer.from((value as EncodedBytes).__bytes, "base64"))
+    : value;
+}
+
+function readLimit(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * 有容量上限的内存检查点存储
+ * 每个线程只保留最近的若干个检查点；线程数超出上限时删除最久未写入的线程
+ */
+class BoundedMemorySaver extends MemorySaver {
+  constructor(
+    private readonly maxCheckpointsPerThread = readLimit("AGENT_CHECKPOINT_MAX_PER_THREAD", 50),
+    private readonly maxThreads = readLimit("AGENT_CHECKPOINT_MAX_THREADS", 200)
+  ) {
+    super();
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata
+  ): Promise<RunnableConfig> {
+    const result = await super.put(config, checkpoint, metadata);
+    const threadId = result.configurable?.thread_id as string | undefined;
+    if (threadId) {
+      this.pruneThread(threadId);
+      await this.pruneThreads(threadId);
+    }
+    return result;
+  }
+
+  /**
+   * 删除线程中较早的检查点及其待写入数据（检查点 ID 按时间递增）
+   */
+  private pruneThread(threadId: string) {
+    for (const [namespace, checkpoints] of Object.entries(this.storage[threadId] || {})) {
+      const stale = Object.keys(checkpoints)
+        .sort((a, b) => b.localeCompare(a))
+        .slice(this.maxCheckpointsPerThread);
+      for (const checkpointId of stale) {
+        delete checkpoints[checkpointId];
+        delete this.writes[JSON.stringify([threadId, namespace, checkpointId])];
+      }
+    }
+  }
+
+  /**
+   * 对象键按插入顺序排列：把刚写入的线程移到末尾，超出上限时从头部删除
+   */
+  private async pruneThreads(threadId: string) {
+    const thread = this.storage[threadId];
+    delete this.storage[threadId];
+    this.storage[threadId] = thread;
+
+    const threadIds = Object.keys(this.storage);
+    for (const staleId of threadIds.slice(0, Math.max(threadIds.length - this.maxThreads, 0))) {
+      await super.deleteThread(staleId);
+    }
+  }
+}
+
+/**
+ * 文件持久化的检查点存储
+ * 复用 MemorySaver 的内存结构，读写前从文件加载，写入后延迟落盘
+ */
+class FileCheckpointSaver extends BoundedMemorySaver {
+  private readonly persistence: JsonFilePersistence;
+
+  constructor(filePath: string, flushDelayMs = 500) {
+    super();
+    this.persistence = createJsonFilePersistence<Pick<MemorySaver, "storage" | "writes">>({
+      filePath,
+      label: "Checkpoint",
+      flushDelayMs,
+      load: (stored) => {
+        this.storage = stored.storage || {};
+        this.writes = stored.writes || {};
+        return Object.keys(this.storage).length;
+      },
+      snapshot: () => ({ storage: this.storage, writes: this.writes }),
+      replacer: encodeBytes,
+      reviver: decodeBytes,
+    });
+  }
+
+  private ensureLoaded(): Promise<void> {
+    return this.persistence.ensureLoaded();
+  }
+
+  private scheduleFlush() {
+    this.persistence.scheduleFlush();
+  }
+
+  async getTuple(config: RunnableConfig): Promise<CheckpointTuple | undefined> {
+    await this.ensureLoaded();
+    return super.getTuple(config);
+  }
+
+  async *list(
+    config: RunnableConfig,
+    options?: Parameters<MemorySaver["list"]>[1]
+  ): AsyncGenerator<CheckpointTuple> {
+    await this.ensureLoaded();
+    yield* super.list(config, options);
+  }
+
+  async put(
+    config: RunnableConfig,
+    checkpoint: Checkpoint,
+    metadata: CheckpointMetadata
+  ): Promise<RunnableConfig> {
+    await this.ensureLoaded();
+    const result = await super.put(config, checkpoint, metadata);
+    this.scheduleFlush();
+    return result;
+  }
+
+  async putWrites(config: RunnableConfig, writes: PendingWrite[], taskId: string): Promise<void> {
+    await this.ensureLoaded();
+    await super.putWrites(config, writes, taskId);
+    this.scheduleFlush();
+  }
+
+  async deleteThread(threadId: string): Promise<void> {
+    await this.ensureLoaded();
+    await super.deleteThread(threadId);
+    this.scheduleFlush();
+  }
+}
+
+let checkpointer: BaseCheckpointSaver | null = null;
+
+/**
+ * 获取共享的检查点存储
+ * 通过 AGENT_CHECKPOINT_BACKEND 选择后端（memory | file），serverless 环境默认使用内存
+ */
+export function getCheckpointer(): BaseCheckpointSaver {
+  if (!checkpointer) {
+    const backend =
+      process.env.AGENT_CHECKPOINT_BACKEND || (process.env.VERCEL ? "memory" : "file");
+
+    checkpointer =
+      backend === "file"
+        ? new FileCheckpointSaver(
+            process.env.AGENT_CHECKPOINT_FILE ||
+              join(process.cwd(), ".cache", "agent-checkpoints.json")
+          )
+        : new BoundedMemorySaver();
+
+    console.log(`[Checkpoint] Using ${backend} backend`);
+  }
+  return checkpointer;
+}
@@ -1,8 +1,19 @@
 import { StateGraph, END, START } from "@langchain/langgraph";
-import { BookAgentState, BookAgentStateType } from "./types";
+import type { BaseMessage } from "@langchain/core/messages";
+import {
+  BookAgentState,
+  BookAgentStateType,
+  type AgentNodeName,
+  type AgentStreamEvent,
+  type InferredPreferences,
+} from "./types";
+import { getCheckpointer } from "./checkpointer";
+import { getProviderReport } from "@/lib/llm/profiles";
+import { getRequestUsage } from "@/lib/llm/usage";
 import {
   conversationNode,
   toolNode,
+  rerankNode,
   responseNode,
   routeAfterConversation,
   routeAfterTools,
@@ -12,14 +23,15 @@ import {
  * 创建 Book Agent 图
  *
  * 状态流转:
- * START → conversation → (tools → respond →) END
- *                    ↘ END (等待用户输入)
+ * START → conversation → (tools → [rerank →] respond →) END
+ *                    ↘ END (信息不足，提出澄清问题后等待用户回答)
  */
 export function createBookAgentGraph() {
   const workflow = new StateGraph(BookAgentState)
     // 添加节点
     .addNode("conversation", conversationNode)
     .addNode("tools", toolNode)
+    .addNode("rerank", rerankNode)
     .addNode("respond", responseNode)
 
     // 起始边
@@ -34,45 +46,231 @@ export function createBookAgentGraph() {
 
     // 工具��点后的条件路由
     .addConditionalEdges("tools", routeAfterTools, {
+      rerank: "rerank",
       respond: "respond",
       conversation: "conversation", // 重试
     })
 
+    // 评审重排序后生成响应
+    .addEdge("rerank", "respond")
+
     // 响应节点后结束
     .addEdge("respond", END);
 
-  return workflow.compile();
+  // 检查点按 thread_id 保存每一步的状态，多轮对话在服务端累积
+  return workflow.compile({ checkpointer: getCheckpointer() });
 }
 
 // 导出编译后的图
 export const bookAgent = createBookAgentGraph();
 
 /**
- * 运行 Agent 的便捷函数
+ * 单轮对话选项
  */
-export async function runBookAgent(
+export interface AgentTurnOptions {
+  threadId?: string; // 续聊的线程，不传则新建
+  checkpointId?: string; // 从线程中的指定检查点继续（分叉出新分支）
+  confirmedPreferences?: InferredPreferences; // 用户已确认的偏好，跳过意图推断
+  signal?: AbortSignal;
+}
+
+/**
+ * 单轮对话结果
+ */
+export interface AgentTurnResult {
+  threadId: string;
+  checkpointId?: string;
+  state: BookAgentStateType;
+}
+
+/**
+ * 构建线程配置
+ */
+export function getThreadConfig(threadId: string, checkpointId?: string) {
+  return {
+    configurable: checkpointId
+      ? { thread_id: threadId, checkpoint_id: checkpointId }
+      : { thread_id: threadId },
+  };
+}
+
+/**
+ * 获取线程当前（或指定检查点）的状态，线程不存在时返回 undefined
+ */
+export async function getThreadSnapshot(threadId: string, checkpointId?: string) {
+  const snapshot = await bookAgent.getState(getThreadConfig(threadId, checkpointId));
+  return snapshot.values && "messages" in snapshot.values ? snapshot : undefined;
+}
+
+/**
+ * 构建一轮对话的输入
+ * 已有线程只追加用户消息并重置本轮字段；新线程用客户端传入的状态初始化（兼容旧客户端）
+ */
+async function buildTurnInput(
   userMessage: string,
-  previousState?: Partial<BookAgentStateType>
-): Promise<BookAgentStateType> {
+  threadId: string,
+  previousState: Partial<BookAgentStateType> | undefined,
+  options: AgentTurnOptions
+): Promise<Partial<BookAgentStateType>> {
   const { HumanMessage } = await import("@langchain/core/messages");
 
-  const initialState: Partial<BookAgentStateType> = {
-    messages: previousState?.messages || [],
-    preferences: previousState?.preferences || {},
-    books: [],
+  const turnInput: Partial<BookAgentStateType> = {
+    confirmedPreferences: options.confirmedPreferences,
     needsMoreInfo: true,
-    missingFields: previousState?.missingFields || ["topic", "level"],
     phase: "gathering",
+    error: undefined,
     retryCount: 0,
+    books: [],
+    searchQuery: undefined,
+    searchCursor: undefined,
   };
 
-  // 添加用户消息
-  initialState.messages = [...(initialState.messages || []), new HumanMessage(userMessage)];
+  const snapshot = await getThreadSnapshot(threadId, options.checkpointId);
+  if (snapshot) {
+    return { ...turnInput, messages: [new HumanMessage(userMessage)] };
+  }
+
+  return {
+    ...turnInput,
+    messages: [...(previousState?.messages || []), new HumanMessage(userMessage)],
+    preferences: previousState?.preferences || {},
+    missingFields: previousState?.missingFields || ["topic", "level"],
+  };
+}
+
+/**
+ * 获取线程最新检查点 ID
+ */
+async function getLatestCheckpointId(threadId: string): Promise<string | undefined> {
+  const snapshot = await getThreadSnapshot(threadId);
+  return snapshot?.config.configurable?.checkpoint_id;
+}
+
+/**
+ * 运行 Agent 的便捷函数
+ * @param previousState 仅在新线程时用于初始化状态
+ */
+export async function runBookAgent(
+  userMessage: string,
+  previousState?: Partial<BookAgentStateType>,
+  options: AgentTurnOptions = {}
+): Promise<AgentTurnResult> {
+  const threadId = options.threadId || crypto.randomUUID();
+  const input = await buildTurnInput(userMessage, threadId, previousState, options);
 
   // 运行图
-  const result = await bookAgent.invoke(initialState as BookAgentStateType);
+  const state = await bookAgent.invoke(input, {
+    ...getThreadConfig(threadId, options.checkpointId),
+    signal: options.signal,
+  });
+
+  return { threadId, checkpointId: await getLatestCheckpointId(threadId), state };
+}
 
-  return result;
+/**
+ * 重放线程
+ * 从指定检查点重新执行之后的节点（如用新的模型配置重新搜索和生成推荐）
+ */
+export async function replayBookAgent(
+  threadId: string,
+  checkpointId: string
+): Promise<AgentTurnResult> {
+  const state = await bookAgent.invoke(null, getThreadConfig(threadId, checkpointId));
+  return { threadId, checkpointId: await getLatestCheckpointId(threadId), state };
+}
+
+/**
+ * 提取最后一条有内容的 AI 消息
+ */
+export function getLastAIMessageContent(messages: BaseMessage[]): string | undefined {
+  const aiMessages = messages.filter(
+    (m) => m._getType() === "ai" && typeof m.content === "string" && m.content.length > 0
+  );
+  const lastAiMessage = aiMessages[aiMessages.length - 1];
+  return typeof lastAiMessage?.content === "string" ? lastAiMessage.content : undefined;
+}
+
+/**
+ * 流式运行 Agent
+ * 同时订阅多种流模式：
+ * - tasks: 节点开始/结束，以及节点产出的偏好和书籍
+ * - messages: respond 节点的 LLM 逐字输出
+ * - custom: 搜索工具推送的数据源进度和部分结果
+ * - values: 每步之后的完整状态，用于生成最终结果
+ */
+export async function* streamBookAgent(
+  userMessage: string,
+  previousState?: Partial<BookAgentStateType>,
+  options: AgentTurnOptions = {}
+): AsyncGenerator<AgentStreamEvent> {
+  const threadId = options.threadId || crypto.randomUUID();
+  const input = await buildTurnInput(userMessage, threadId, previousState, options);
+  let finalState: BookAgentStateType | undefined;
+
+  const stream = await bookAgent.stream(input, {
+    ...getThreadConfig(threadId, options.checkpointId),
+    streamMode: ["tasks", "messages", "custom", "values"],
+    signal: options.signal,
+  });
+
+  for await (const [mode, chunk] of stream) {
+    if (mode === "tasks") {
+      const node = chunk.name as AgentNodeName;
+      if ("input" in chunk) {
+        yield { type: "node_start", node };
+        continue;
+      }
+
+      const update = (chunk.result || {}) as Partial<BookAgentStateType>;
+      if (node === "conversation" && update.inferredPreferences) {
+        yield { type: "preferences", inferredPreferences: update.inferredPreferences };
+      }
+      if ((node === "tools" || node === "rerank") && update.books && update.books.length > 0) {
+        yield { type: "books", books: update.books, searchQuery: update.searchQuery };
+      }
+      yield { type: "node_end", node };
+    } else if (mode === "messages") {
+      const [message, metadata] = chunk;
+      // 只转发生成推荐说明的输出，意图分析的 JSON 不展示给用户
+      if (metadata?.langgraph_node === "respond" && typeof message.content === "string") {
+        if (message.content) {
+          yield { type: "token", content: message.content };
+        }
+      }
+    } else if (mode === "custom") {
+      yield chunk as AgentStreamEvent;
+    } else if (mode === "values") {
+      finalState = chunk as BookAgentStateType;
+    }
+  }
+
+  if (!finalState) {
+    throw new Error("Agent produced no state");
+  }
+
+  const isEnglish = finalState.inferredPreferences?.language === "en";
+  yield {
+    type: "done",
+    threadId,
+    checkpointId: await getLatestCheckpointId(threadId),
+    message:
+      getLastAIMessageContent(finalState.messages) ||
+      (isEnglish
+        ? "Sorry, I encountered an issue. Please try again."
+        : "抱歉，我遇到了一些问题。请再试一次。"),
+    books: finalState.books,
+    searchQuery: finalState.searchQuery,
+    nextCursor: finalState.searchCursor,
+    inferredPreferences: finalState.inferredPreferences,
+    llm: getProviderReport(),
+    usage: getRequestUsage(),
+    state: {
+      preferences: finalState.preferences,
+      missingFields: finalState.missingFields,
+      phase: finalState.phase,
+      inferredPreferences: finalState.inferredPreferences,
+    },
+  };
 }
 
 // 导出类型
@@ -1,6 +1,32 @@
 // LangGraph Book Agent
-export { bookAgent, runBookAgent, createBookAgentGraph } from "./graph";
+export {
+  bookAgent,
+  runBookAgent,
+  streamBookAgent,
+  replayBookAgent,
+  createBookAgentGraph,
+  getLastAIMessageContent,
+  type AgentTurnOptions,
+  type AgentTurnResult,
+} from "./graph";
+export {
+  getThread,
+  getThreadHistory,
+  forkThread,
+  deleteThread,
+  type ThreadDetail,
+  type ThreadCheckpoint,
+  type ThreadMessage,
+} from "./threads";
 export type { BookAgentStateType } from "./graph";
-export { BookAgentState, type UserPreferences, type InferredPreferences } from "./types";
-export { searchBooksTool, analyzePreferencesTool, bookAgentTools } from "./tools";
+export {
+  BookAgentState,
+  type UserPreferences,
+  type InferredPreferences,
+  type AgentNodeName,
+  type AgentStreamEvent,
+  type AgentTurnState,
+} from "./types";
+export { searchBooksTool, analyzePreferencesTool, bookAgentTools, searchBooks } from "./tools";
+export type { RankedSearchResult } from "./tools";
 export { createLLM, inferPreferencesWithLLM, buildSearchQuery } from "./nodes";
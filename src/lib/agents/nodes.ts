@@ -1,14 +1,40 @@
-import { AIMessage, HumanMessage, SystemMessage, ToolMessage } from "@langchain/core/messages";
-import { BookAgentStateType, InferredPreferences } from "./types";
-import { searchBooksTool } from "./tools";
+import {
+  AIMessage,
+  BaseMessage,
+  HumanMessage,
+  SystemMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import type { ToolCall } from "@langchain/core/messages/tool";
+import type { StructuredToolInterface } from "@langchain/core/tools";
+import type { LangGraphRunnableConfig } from "@langchain/langgraph";
+import { BookAgentStateType, InferredPreferences, UserPreferences } from "./types";
+import { z } from "zod";
+import { bookAgentTools, getBookAgentTool } from "./tools";
+import { AnalyzedIntentSchema, RerankSchema, ToolCallProtocolSchema } from "./schemas";
 import { Book } from "@/types/book";
-import { getIntentAnalysisPrompt, RESPONSE_SYSTEM_PROMPTS } from "./prompts";
-import { createLLM as createLLMFromFactory, getLLMInfo } from "@/lib/llm/factory";
+import { mergeBooks } from "@/lib/sources";
+import {
+  getBookSearchAgentPrompt,
+  getClarifyingQuestion,
+  getIntentAnalysisPrompt,
+  getRerankPrompt,
+  getToolProtocolPrompt,
+  getToolSelectionContext,
+  RESPONSE_SYSTEM_PROMPTS,
+  type IntentAnalysisContext,
+} from "./prompts";
+import {
+  createLLM as createLLMFromFactory,
+  getLLMInfo,
+  supportsToolCalling,
+} from "@/lib/llm/factory";
+import { invokeStructured } from "@/lib/llm/structured";
 
 // 重新导出 createLLM 以保持兼容性
 export const createLLM = createLLMFromFactory;
 
-// 日志输出当前 LLM 配置
+// 日志输出默认 LLM 配置（请求中按档案配置覆盖）
 const llmInfo = getLLMInfo();
 console.log(`[LLM] Provider: ${llmInfo.provider}, Model: ${llmInfo.model}`);
 
@@ -21,36 +47,47 @@ interface AnalyzedIntent {
   level?: "beginner" | "intermediate" | "advanced";
   language: "zh" | "en";
   bookType?: "practical" | "theoretical" | "both";
+  yearPreference?: "latest" | "classic" | "any";
   searchKeywords: string[];
+  confidence: number; // LLM 给出的理解置信度 0-1
 }
 
+// 置信度低于该值时先提问澄清，而不是直接搜索
+const CLARIFY_CONFIDENCE_THRESHOLD = 0.6;
+// 每个话题最多连续澄清的轮数，超过后按已有信息搜索
+const MAX_CLARIFICATION_ROUNDS = 2;
+
 /**
  * 使用 LLM 智能分析用户意图
  */
-async function analyzeUserIntent(userMessage: string): Promise<AnalyzedIntent> {
-  const llm = createLLM();
+async function analyzeUserIntent(
+  userMessage: string,
+  context?: IntentAnalysisContext
+): Promise<AnalyzedIntent> {
+  const llm = createLLM("intent");
 
   // 使用 prompts.ts 中定义的提示词
-  const prompt = getIntentAnalysisPrompt(userMessage);
+  const prompt = getIntentAnalysisPrompt(userMessage, context);
 
   try {
-    const response = await llm.invoke(prompt);
-    const content = typeof response.content === "string" ? response.content : "";
-
-    // 提取 JSON
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      const parsed = JSON.parse(jsonMatch[0]);
-      console.log("[Node] LLM raw response:", parsed);
-      return {
-        topic: parsed.topic || userMessage,
-        category: parsed.category || "other",
-        level: parsed.level || undefined,
-        language: parsed.language || (/[\u4e00-\u9fff]/.test(userMessage) ? "zh" : "en"),
-        bookType: parsed.bookType || undefined,
-        searchKeywords: parsed.searchKeywords || [parsed.topic || userMessage],
-      };
-    }
+    const parsed = await invokeStructured(llm, prompt, AnalyzedIntentSchema, {
+      name: "analyze_intent",
+      task: "intent",
+    });
+    console.log("[Node] LLM raw response:", parsed);
+    return {
+      topic: parsed.topic,
+      category: parsed.category === "nonfiction" ? "other" : parsed.category,
+      level: parsed.level || undefined,
+      language: parsed.language,
+      bookType: parsed.bookType || undefined,
+      yearPreference: parsed.yearPreference || undefined,
+      searchKeywords: parsed.searchKeywords.length
+        ? parsed.searchKeywords
+        : [parsed.topic || userMessage],
+      // 未返回置信度时视为基本理解
+      confidence: parsed.confidence ?? 0.7,
+    };
   } catch (error) {
     console.error("[Node] Intent analysis error:", error);
   }
@@ -69,13 +106,22 @@ async function analyzeUserIntent(userMessage: string): Promise<AnalyzedIntent> {
     bookType = "practical";
   }
 
+  let yearPreference: "latest" | "classic" | undefined;
+  if (/最新|近几年|近年|新版|latest|newest|recent/i.test(userMessage)) {
+    yearPreference = "latest";
+  } else if (/经典|必读|名著|classic/i.test(userMessage)) {
+    yearPreference = "classic";
+  }
+
   return {
     topic: userMessage,
     category: "other",
     level: undefined,
     language: hasChinese ? "zh" : "en",
     bookType,
+    yearPreference,
     searchKeywords: [userMessage],
+    confidence: 0.5, // 规则分析不可靠，交给澄清流程确认
   };
 }
 
@@ -94,6 +140,11 @@ const i18n = {
       theoretical: "理论",
       both: "综合",
     },
+    yearPreference: {
+      latest: "最新出版",
+      classic: "经典",
+      any: "不限年份",
+    },
     language: {
       zh: "中文",
       en: "英文",
@@ -112,6 +163,11 @@ const i18n = {
       theoretical: "Theoretical",
       both: "Comprehensive",
     },
+    yearPreference: {
+      latest: "Latest",
+      classic: "Classic",
+      any: "Any year",
+    },
     language: {
       zh: "Chinese",
       en: "English",
@@ -122,32 +178,60 @@ const i18n = {
 };
 
 /**
- * 智能推断用户偏好（使用 LLM）
+ * 分析用户偏好
+ * 回答澄清问题时结合已收集的偏好，并找出仍然缺失的必要信息
  */
-async function inferPreferencesWithLLM(userMessage: string): Promise<InferredPreferences> {
-  const intent = await analyzeUserIntent(userMessage);
+async function analyzePreferences(
+  userMessage: string,
+  known?: UserPreferences,
+  context?: IntentAnalysisContext
+): Promise<{ inferred: InferredPreferences; missingFields: string[] }> {
+  const intent = await analyzeUserIntent(userMessage, context);
 
   console.log("[Node] LLM analyzed intent:", intent);
 
+  // 本轮未提供的信息沿用之前收集的偏好
+  const topic = intent.topic || known?.topic || "";
+  const level = intent.level || known?.level;
+  const bookType = intent.bookType || known?.bookType;
+  const yearPreference = intent.yearPreference || known?.yearPreference;
+
+  // 必要信息：主题；技术类书籍还需要难度
+  const missingFields: string[] = [];
+  if (!topic) missingFields.push("topic");
+  if (intent.category === "technical" && !level) missingFields.push("level");
+
   // 根据用户输入语言选择标签语言
   const labels = i18n[intent.language];
 
-  return {
-    topic: intent.topic,
-    level: intent.level || "beginner",
-    levelLabel: intent.level
-      ? labels.level[intent.level]
+  const inferred: InferredPreferences = {
+    topic: topic || userMessage,
+    level: level || "beginner",
+    levelLabel: level
+      ? labels.level[level]
       : intent.category === "fiction"
         ? labels.fiction
         : labels.level.beginner,
     language: intent.language,
     languageLabel: labels.language[intent.language],
-    confidence: 0.85,
+    confidence: intent.confidence,
     isFiction: intent.category === "fiction",
-    bookType: intent.bookType,
-    bookTypeLabel: intent.bookType ? labels.bookType[intent.bookType] : undefined,
+    bookType,
+    bookTypeLabel: bookType ? labels.bookType[bookType] : undefined,
+    yearPreference,
+    yearPreferenceLabel: yearPreference ? labels.yearPreference[yearPreference] : undefined,
     searchKeywords: intent.searchKeywords,
   };
+
+  return { inferred, missingFields };
+}
+
+/**
+ * 智能推断用户偏好（使用 LLM）
+ */
+async function inferPreferencesWithLLM(userMessage: string): Promise<InferredPreferences> {
+  const { inferred } = await analyzePreferences(userMessage);
+  return inferred;
 }
 
 /**
@@ -202,19 +286,236 @@ function buildSearchQuery(preferences: InferredPreferences): string {
 // 系统提示词已移至 prompts.ts
 
 /**
- * 对话节点 - 智能推断 + 立即搜索
+ * 获取本轮之前最后一条 AI 消息（上一轮的澄清问题）
+ */
+function getPreviousQuestion(state: BookAgentStateType): string | undefined {
+  const lastHumanIndex = state.messages.findLastIndex((m) => m._getType() === "human");
+  const previous = state.messages
+    .slice(0, lastHumanIndex)
+    .findLast((m) => m._getType() === "ai" && typeof m.content === "string");
+  return previous?.content as string | undefined;
+}
+
+/**
+ * 对话节点 - 智能推断，信息不足时提问澄清，否则立即搜索
  */
 export async function conversationNode(
   state: BookAgentStateType
 ): Promise<Partial<BookAgentStateType>> {
+  // 工具执行后回到对话节点（只分析了偏好或搜索失败），沿用本轮已分析的偏好继续选择工具
+  const continuing = state.messages[state.messages.length - 1]?._getType() === "tool";
+  if (continuing && state.inferredPreferences) {
+    return selectTools(state, state.inferredPreferences);
+  }
+
   // 获取用户最新消息
-  const lastMessage = state.messages[state.messages.length - 1];
-  const userMessage = typeof lastMessage.content === "string" ? lastMessage.content : "";
+  const lastMessage = state.messages.findLast((m) => m._getType() === "human");
+  const userMessage = typeof lastMessage?.content === "string" ? lastMessage.content : "";
+
+  // 用户已确认偏好时搜索参数已经确定，直接搜索，不再澄清或让 LLM 选择工具
+  const confirmed = state.confirmedPreferences;
+  if (confirmed) {
+    console.log("[Node] Confirmed preferences:", confirmed);
+    return createSearchTurn(confirmed, { maxResults: 20, language: confirmed.language });
+  }
+
+  // 上一轮在澄清时，结合已收集的偏好理解用户的回答
+  const isAnswering = state.clarificationCount > 0;
+  const { inferred, missingFields } = await analyzePreferences(
+    userMessage,
+    isAnswering ? state.preferences : undefined,
+    isAnswering
+      ? { lastQuestion: getPreviousQuestion(state), knownPreferences: state.preferences }
+      : undefined
+  );
+  console.log("[Node] Inferred preferences:", inferred, "missing:", missingFields);
+
+  const needsClarification =
+    (inferred.confidence < CLARIFY_CONFIDENCE_THRESHOLD || missingFields.length > 0) &&
+    state.clarificationCount < MAX_CLARIFICATION_ROUNDS;
+
+  if (needsClarification) {
+    const question = getClarifyingQuestion(
+      inferred.language === "en" ? "en" : "zh",
+      missingFields,
+      missingFields.includes("topic") ? undefined : inferred.topic
+    );
+    console.log("[Node] Asking for clarification:", question);
 
-  // 使用 LLM 智能分析用户意图
-  const inferred = await inferPreferencesWithLLM(userMessage);
-  console.log("[Node] Inferred preferences:", inferred);
+    return {
+      messages: [new AIMessage(question)],
+      inferredPreferences: inferred,
+      // 只保存已确定的信息，缺失的字段等用户回答
+      preferences: {
+        ...(missingFields.includes("topic") ? {} : { topic: inferred.topic }),
+        ...(missingFields.includes("level") ? {} : { level: inferred.level }),
+        language: inferred.language,
+        bookType: inferred.bookType,
+        yearPreference: inferred.yearPreference,
+      },
+      needsMoreInfo: true,
+      missingFields,
+      phase: "gathering",
+      clarificationCount: state.clarificationCount + 1,
+    };
+  }
 
+  return selectTools(state, inferred);
+}
+
+/**
+ * 让 LLM 根据分析出的偏好选择工具
+ * 支持 Function Calling 的模型使用 bindTools，其余模型使用 JSON 协议；
+ * 两种方式都没有得到工具调用时，按偏好直接搜索
+ */
+async function selectTools(
+  state: BookAgentStateType,
+  inferred: InferredPreferences
+): Promise<Partial<BookAgentStateType>> {
+  // 只传本轮消息（最后一条用户消息及之后的工具调用/结果），避免历史中的工具消息不成对
+  const turnStart = state.messages.findLastIndex((m) => m._getType() === "human");
+  const turnMessages = state.messages.slice(Math.max(turnStart, 0));
+
+  const systemPrompt = `${getBookSearchAgentPrompt()}
+
+${getToolSelectionContext({
+  topic: inferred.topic,
+  level: inferred.level,
+  language: inferred.language,
+  isFiction: inferred.isFiction,
+  bookType: inferred.bookType,
+  yearPreference: inferred.yearPreference,
+  searchKeywords: inferred.searchKeywords,
+})}`;
+
+  try {
+    const llm = createLLM("intent");
+    const toolCalls =
+      supportsToolCalling("intent") && llm.bindTools
+        ? await selectToolsNatively(llm, systemPrompt, turnMessages)
+        : await selectToolsWithJsonProtocol(llm, systemPrompt, turnMessages);
+
+    if (toolCalls.length > 0) {
+      console.log(
+        "[Node] LLM selected tools:",
+        toolCalls.map((call) => `${call.name}(${JSON.stringify(call.args)})`)
+      );
+      return {
+        ...createSearchTurn(inferred, { maxResults: 10 }),
+        messages: [new AIMessage({ content: "", tool_calls: withFitArgs(toolCalls, inferred) })],
+      };
+    }
+    console.log("[Node] LLM selected no tools, falling back to direct search");
+  } catch (error) {
+    console.error("[Node] Tool selection error:", error);
+  }
+
+  return createSearchTurn(inferred, { maxResults: 10 });
+}
+
+/**
+ * 原生 Function Calling
+ */
+async function selectToolsNatively(
+  llm: ReturnType<typeof createLLM>,
+  systemPrompt: string,
+  turnMessages: BaseMessage[]
+): Promise<ToolCall[]> {
+  const response = await llm.bindTools!(bookAgentTools).invoke([
+    new SystemMessage(systemPrompt),
+    ...turnMessages,
+  ]);
+
+  return (response.tool_calls || [])
+    .filter((call) => getBookAgentTool(call.name))
+    .map((call, i) => ({ ...call, id: call.id || `call_${Date.now()}_${i}` }));
+}
+
+/**
+ * JSON 协议：在提示词中描述工具，要求模型返回 {"tool_calls": [...]}
+ */
+async function selectToolsWithJsonProtocol(
+  llm: ReturnType<typeof createLLM>,
+  systemPrompt: string,
+  turnMessages: BaseMessage[]
+): Promise<ToolCall[]> {
+  const protocolPrompt = getToolProtocolPrompt(
+    bookAgentTools.map((t) => ({
+      name: t.name,
+      description: t.description,
+      parameters: z.toJSONSchema(t.schema),
+    }))
+  );
+
+  // 不支持工具的模型无法理解工具消息，转换为纯文本
+  const plainMessages = turnMessages.map((m) => {
+    if (m._getType() === "tool") {
+      return new HumanMessage(`Tool result (${(m as ToolMessage).name || "tool"}): ${m.content}`);
+    }
+    if (m._getType() === "ai") {
+      const calls = (m as AIMessage).tool_calls || [];
+      return new AIMessage(
+        calls.length > 0 ? JSON.stringify({ tool_calls: calls }) : String(m.content)
+      );
+    }
+    return m;
+  });
+
+  const parsed = await invokeStructured(
+    llm,
+    [new SystemMessage(`${systemPrompt}\n\n${protocolPrompt}`), ...plainMessages],
+    ToolCallProtocolSchema,
+    { name: "tool_calls", task: "intent" }
+  );
+
+  return parsed.tool_calls
+    .filter((call) => getBookAgentTool(call.name))
+    .map((call, i) => ({
+      id: `call_${Date.now()}_${i}`,
+      name: call.name,
+      args: call.args || {},
+      type: "tool_call" as const,
+    }));
+}
+
+/**
+ * 搜索工具的适配参数（难度、类型、出版年份），用于排序和分类
+ */
+function getFitArgs(inferred: InferredPreferences): Record<string, string> {
+  return {
+    // 小说类不区分难度与类型
+    ...(inferred.isFiction ? {} : { level: inferred.level }),
+    ...(inferred.bookType && inferred.bookType !== "both" && !inferred.isFiction
+      ? { bookType: inferred.bookType }
+      : {}),
+    ...(inferred.yearPreference && inferred.yearPreference !== "any"
+      ? { yearPreference: inferred.yearPreference }
+      : {}),
+  };
+}
+
+/**
+ * LLM 选择的搜索调用中缺少适配参数时，用分析出的偏好补全
+ */
+function withFitArgs(toolCalls: ToolCall[], inferred: InferredPreferences): ToolCall[] {
+  const fitArgs = getFitArgs(inferred);
+  return toolCalls.map((call) => {
+    if (call.name !== "search_books") return call;
+    const args = { ...call.args };
+    for (const [key, value] of Object.entries(fitArgs)) {
+      args[key] ??= value;
+    }
+    return { ...call, args };
+  });
+}
+
+/**
+ * 生成搜索工具调用，进入搜索阶段
+ */
+function createSearchTurn(
+  inferred: InferredPreferences,
+  searchArgs: { maxResults: number; language?: InferredPreferences["language"] }
+): Partial<BookAgentStateType> {
   // 构建搜索查询
   const searchQuery = buildSearchQuery(inferred);
   console.log("[Node] Search query:", searchQuery);
@@ -230,7 +531,11 @@ export async function conversationNode(
       {
         id: `search_${Date.now()}`,
         name: "search_books",
-        args: { query: searchQuery, maxResults: 10 },
+        args: {
+          query: searchQuery,
+          ...searchArgs,
+          ...getFitArgs(inferred),
+        },
       },
     ],
   });
@@ -242,81 +547,213 @@ export async function conversationNode(
       topic: inferred.topic,
       level: inferred.level,
       language: inferred.language,
+      bookType: inferred.bookType,
+      yearPreference: inferred.yearPreference,
     },
     needsMoreInfo: false,
+    missingFields: [],
+    clarificationCount: 0,
     phase: "searching",
     searchQuery,
+    error: undefined,
   };
 }
 
 /**
- * 工具执行节点 - 执行搜索工具
+ * 单个工具调用的执行结果
+ */
+interface ToolCallResult {
+  name: string;
+  success: boolean;
+  message: ToolMessage;
+  books?: Book[];
+  cursor?: string; // 搜索结果的下一页游标
+  query?: string;
+  preferences?: UserPreferences;
+}
+
+/**
+ * 按名称执行单个工具调用，错误作为工具消息返回给 LLM
  */
-export async function toolNode(state: BookAgentStateType): Promise<Partial<BookAgentStateType>> {
+async function executeToolCall(
+  toolCall: ToolCall,
+  config?: LangGraphRunnableConfig
+): Promise<ToolCallResult> {
+  const toolCallId = toolCall.id || `${toolCall.name}_call`;
+  const selected = getBookAgentTool(toolCall.name);
+
+  const fail = (error: string): ToolCallResult => ({
+    name: toolCall.name,
+    success: false,
+    message: new ToolMessage({
+      tool_call_id: toolCallId,
+      name: toolCall.name,
+      content: JSON.stringify({ success: false, error }),
+    }),
+  });
+
+  if (!selected) {
+    return fail(`Unknown tool: ${toolCall.name}`);
+  }
+
+  try {
+    // 透传 config，使工具可以推送数据源进度
+    const output = await (selected as StructuredToolInterface).invoke(toolCall.args, config);
+
+    if (toolCall.name === "search_books") {
+      const { books, nextCursor } = output as { books: Book[]; nextCursor?: string };
+      return {
+        name: toolCall.name,
+        success: true,
+        books,
+        cursor: nextCursor,
+        query: (toolCall.args as { query: string }).query,
+        message: new ToolMessage({
+          tool_call_id: toolCallId,
+          name: toolCall.name,
+          content: JSON.stringify({
+            success: true,
+            count: books.length,
+            books: books.map((b) => ({ title: b.title, authors: b.authors })),
+          }),
+        }),
+      };
+    }
+
+    const result = output as { preferences?: UserPreferences };
+    return {
+      name: toolCall.name,
+      success: true,
+      preferences: result.preferences,
+      message: new ToolMessage({
+        tool_call_id: toolCallId,
+        name: toolCall.name,
+        content: JSON.stringify(output),
+      }),
+    };
+  } catch (error) {
+    console.error(`[Node] Tool ${toolCall.name} error:`, error);
+    return fail(error instanceof Error ? error.message : "工具执行失败");
+  }
+}
+
+/**
+ * 工具执行节点 - 并行执行 AI 消息中的所有工具调用
+ */
+export async function toolNode(
+  state: BookAgentStateType,
+  config?: LangGraphRunnableConfig
+): Promise<Partial<BookAgentStateType>> {
   const lastMessage = state.messages[state.messages.length - 1];
 
   // 检查是否是 AI 消息且有工具调用
-  if (!("tool_calls" in lastMessage)) {
+  const toolCalls = "tool_calls" in lastMessage ? (lastMessage as AIMessage).tool_calls : [];
+  if (!toolCalls || toolCalls.length === 0) {
     console.log("[Node] No tool calls found");
     return {};
   }
 
-  const aiMessage = lastMessage as AIMessage;
-  const toolCalls = aiMessage.tool_calls;
-  if (!toolCalls || toolCalls.length === 0) {
-    console.log("[Node] No tool calls found");
-    return {};
+  console.log(
+    "[Node] Executing tools:",
+    toolCalls.map((call) => call.name)
+  );
+  const results = await Promise.all(toolCalls.map((call) => executeToolCall(call, config)));
+
+  // 合并 analyze_preferences 提取的偏好（忽略未提供的字段）
+  const preferences: UserPreferences = {};
+  for (const result of results) {
+    for (const [key, value] of Object.entries(result.preferences || {})) {
+      if (value !== undefined) {
+        Object.assign(preferences, { [key]: value });
+      }
+    }
   }
 
-  const toolCall = toolCalls[0];
-  console.log("[Node] Executing tool:", toolCall.name, toolCall.args);
+  const searches = results.filter((r) => r.name === "search_books");
+  const succeeded = searches.filter((r) => r.success);
 
-  if (toolCall.name === "search_books") {
-    try {
-      const args = toolCall.args as {
-        query: string;
-        maxResults?: number;
-        language?: "en" | "zh" | "any";
-      };
-      const result = await searchBooksTool.invoke(args);
-      const books = result as Book[];
-
-      // 创建工具响应消息
-      const toolMessage = new ToolMessage({
-        tool_call_id: toolCall.id || "search_call",
-        content: JSON.stringify({
-          success: true,
-          count: books.length,
-          books: books.map((b: Book) => ({ title: b.title, authors: b.authors })),
-        }),
-      });
+  // 本轮没有成功的搜索：回到对话节点，由 LLM 根据工具结果继续选择
+  if (succeeded.length === 0) {
+    const failed = searches.length > 0;
+    return {
+      messages: results.map((r) => r.message),
+      preferences,
+      books: [],
+      error: failed ? "搜索失败" : undefined,
+      retryCount: state.retryCount + 1,
+    };
+  }
 
-      return {
-        books,
-        searchQuery: args.query,
-        messages: [toolMessage],
-        phase: "presenting",
-      };
-    } catch (error) {
-      console.error("[Node] Tool execution error:", error);
-
-      const toolMessage = new ToolMessage({
-        tool_call_id: toolCall.id || "search_call",
-        content: JSON.stringify({
-          success: false,
-          error: error instanceof Error ? error.message : "搜索失败",
-        }),
-      });
+  // 多次搜索的结果中同一本书合并为一条
+  const books = mergeBooks(succeeded.flatMap((r) => r.books || []));
 
-      return {
-        messages: [toolMessage],
-        error: `搜索失败: ${error instanceof Error ? error.message : "未知错误"}`,
-        retryCount: state.retryCount + 1,
-      };
-    }
+  return {
+    books,
+    // 只有单次搜索时才能继续加载下一页
+    searchCursor: succeeded.length === 1 ? succeeded[0].cursor : undefined,
+    searchQuery: succeeded.map((r) => r.query).join(" / "),
+    messages: results.map((r) => r.message),
+    preferences,
+    phase: "presenting",
+  };
+}
+
+// 交给 LLM 评审的候选数量
+const RERANK_CANDIDATES = 30;
+
+/**
+ * 是否启用 LLM 评审重排序（AGENT_LLM_RERANK=off 关闭）
+ */
+export function isLLMRerankEnabled(): boolean {
+  return process.env.AGENT_LLM_RERANK !== "off";
+}
+
+/**
+ * 评审重排序节点 - 让 LLM 按用户偏好对排名靠前的书籍排序、过滤并给出推荐理由
+ * 失败时保留原有排序
+ */
+export async function rerankNode(state: BookAgentStateType): Promise<Partial<BookAgentStateType>> {
+  const inferred = state.inferredPreferences;
+  if (!inferred || state.books.length < 2) {
+    return {};
   }
 
-  return {};
+  const candidates = state.books.slice(0, RERANK_CANDIDATES);
+  const rest = state.books.slice(RERANK_CANDIDATES);
+  const language = inferred.language === "en" ? "en" : "zh";
+
+  try {
+    const { ranking } = await invokeStructured(
+      createLLM("recommendationBlurb"),
+      getRerankPrompt(language, inferred, candidates),
+      RerankSchema,
+      { name: "rerank_books", task: "recommendationBlurb" }
+    );
+
+    // 忽略越界和重复的编号
+    const seen = new Set<number>();
+    const reranked = ranking
+      .filter(({ index }) => {
+        if (index > candidates.length || seen.has(index)) return false;
+        seen.add(index);
+        return true;
+      })
+      .map(({ index, rationale }) => ({ ...candidates[index - 1], rationale }));
+
+    if (reranked.length === 0) {
+      console.warn("[Node] Rerank dropped every candidate, keeping original order");
+      return {};
+    }
+
+    console.log(
+      `[Node] Reranked ${candidates.length} candidates, kept ${reranked.length}:`,
+      reranked.slice(0, 5).map((b) => b.title)
+    );
+    return { books: [...reranked, ...rest] };
+  } catch (error) {
+    console.error("[Node] Rerank error:", error);
+    return {};
+  }
 }
 
 /**
@@ -325,7 +762,7 @@ export async function toolNode(state: BookAgentStateType): Promise<Partial<BookA
 export async function responseNode(
   state: BookAgentStateType
 ): Promise<Partial<BookAgentStateType>> {
-  const llm = createLLM();
+  const llm = createLLM("recommendationBlurb");
   const inferred = state.inferredPreferences;
 
   // 确定响应语言
@@ -413,6 +850,12 @@ export function routeAfterConversation(state: BookAgentStateType): string {
     return "conversation";
   }
 
+  // 信息不足，已提出澄清问题，结束本轮等待用户回答
+  if (state.needsMoreInfo) {
+    console.log("[Router] Waiting for clarification answer");
+    return "__end__";
+  }
+
   // 如果有工具调用，执行工具
   if ("tool_calls" in lastMessage) {
     const aiMessage = lastMessage as AIMessage;
@@ -431,12 +874,18 @@ export function routeAfterConversation(state: BookAgentStateType): string {
  * 工具执行后的路由
  */
 export function routeAfterTools(state: BookAgentStateType): string {
-  // 如果有错误且可重试
-  if (state.error && state.retryCount < 3) {
-    console.log("[Router] Retrying search");
+  // 还没有成功搜索（搜索失败或只调用了其他工具）且可重试
+  if (state.phase !== "presenting" && state.retryCount < 3) {
+    console.log("[Router] No search results yet, back to conversation");
     return "conversation";
   }
 
+  // 有搜索结果时先评审重排序
+  if (state.phase === "presenting" && isLLMRerankEnabled()) {
+    console.log("[Router] Reranking results");
+    return "rerank";
+  }
+
   // 否则生成响应
   console.log("[Router] Generating response");
   return "respond";
@@ -1,10 +1,126 @@
-import { AgentState, BookAnalysis } from "@/types/book";
-import { getOpenLibraryBookDescription } from "@/lib/api/open-library";
-import { parseBookId } from "@/lib/utils";
+import {
+  AgentState,
+  BookAnalysis,
+  BookAnalysisCitations,
+  BookEvidence,
+  ReaderProfile,
+  ShouldReadBreakdown,
+} from "@/types/book";
+import { collectBookEvidence } from "@/lib/sources";
 import { createLLM } from "@/lib/llm/factory";
+import { invokeStructured } from "@/lib/llm/structured";
+import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import { BookAnalysisSchema, type BookAnalysisOutput } from "../schemas";
+
+const CITABLE_FIELDS = [
+  "summary",
+  "themes",
+  "targetAudience",
+  "difficulty",
+  "keyTakeaways",
+  "shouldRead",
+  "similarBooks",
+] as const;
+
+type FitDimension = keyof ShouldReadBreakdown;
+
+// 个性化总分中各维度的权重，读者画像缺少的维度不参与计算
+const FIT_WEIGHTS: Record<FitDimension, number> = {
+  topicFit: 0.4,
+  levelFit: 0.35,
+  practicalityFit: 0.25,
+};
+
+const FIT_DESCRIPTIONS: Record<FitDimension, string> = {
+  levelFit: `"levelFit": how well the book's difficulty matches the reader's level`,
+  topicFit: `"topicFit": how relevant the content is to the reader's topic and recently viewed books`,
+  practicalityFit: `"practicalityFit": how well the hands-on vs. theoretical balance matches the preferred book type`,
+};
+
+const BOOK_TYPE_LABELS = {
+  practical: "practical, hands-on",
+  theoretical: "theoretical, concept-focused",
+  both: "a mix of practice and theory",
+} as const;
+
+/**
+ * 读者画像中有对应信息的评分维度
+ */
+function getFitDimensions(reader?: ReaderProfile): FitDimension[] {
+  const dimensions: FitDimension[] = [];
+  if (reader?.preferences?.level) dimensions.push("levelFit");
+  if (reader?.preferences?.topic || reader?.readingHistory?.length) dimensions.push("topicFit");
+  if (reader?.preferences?.bookType) dimensions.push("practicalityFit");
+  return dimensions;
+}
+
+function formatReaderProfile(reader: ReaderProfile): string {
+  const { preferences = {}, readingHistory = [] } = reader;
+  return `
+${preferences.level ? `Level: ${preferences.level}` : ""}
+${preferences.bookType ? `Preferred book type: ${BOOK_TYPE_LABELS[preferences.bookType]}` : ""}
+${preferences.topic ? `Topic of interest: ${preferences.topic}` : ""}
+${readingHistory.length ? `Recently viewed books: ${readingHistory.join("; ")}` : ""}
+`.trim();
+}
+
+/**
+ * 个性化总分：按权重对各维度得分取加权平均，不采用 LLM 给出的总分
+ * LLM 没有返回任何维度得分时保留原始总分
+ */
+function personalizeShouldRead(
+  { breakdown: rawBreakdown, ...shouldRead }: BookAnalysisOutput["shouldRead"],
+  dimensions: FitDimension[]
+): BookAnalysis["shouldRead"] {
+  const breakdown: ShouldReadBreakdown = {};
+  let weighted = 0;
+  let totalWeight = 0;
+  for (const dimension of dimensions) {
+    const value = rawBreakdown?.[dimension];
+    if (typeof value !== "number") continue;
+    breakdown[dimension] = Math.round(value);
+    weighted += value * FIT_WEIGHTS[dimension];
+    totalWeight += FIT_WEIGHTS[dimension];
+  }
+
+  if (totalWeight === 0) {
+    return shouldRead;
+  }
+  return {
+    ...shouldRead,
+    score: Math.round(weighted / totalWeight),
+    breakdown,
+    personalized: true,
+  };
+}
+
+/**
+ * 只保留存在的证据 ID；要点和相似书籍没有证据支持时视为编造，丢弃
+ */
+function groundAnalysis(
+  { citations: rawCitations, shouldRead, ...analysis }: BookAnalysisOutput,
+  evidence: BookEvidence[],
+  dimensions: FitDimension[]
+): BookAnalysis {
+  const ids = new Set(evidence.map((item) => item.id));
+  const citations: BookAnalysisCitations = {};
+  for (const field of CITABLE_FIELDS) {
+    const valid = [...new Set(rawCitations?.[field] || [])].filter((id) => ids.has(id));
+    if (valid.length > 0) citations[field] = valid;
+  }
+
+  return {
+    ...analysis,
+    shouldRead: personalizeShouldRead(shouldRead, dimensions),
+    keyTakeaways: citations.keyTakeaways ? analysis.keyTakeaways : [],
+    similarBooks: citations.similarBooks ? analysis.similarBooks : undefined,
+    evidence,
+    citations,
+  };
+}
 
 export async function analyzeNode(state: AgentState): Promise<Partial<AgentState>> {
-  const { selectedBook } = state;
+  const { selectedBook, reader } = state;
 
   if (!selectedBook) {
     return {
@@ -13,18 +129,13 @@ export async function analyzeNode(state: AgentState): Promise<Partial<AgentState
   }
 
   try {
-    // If the book is from Open Library and missing description, fetch it
-    let description = selectedBook.description;
-    if (!description && selectedBook.source === "openlibrary") {
-      const { id } = parseBookId(selectedBook.id);
-      description = (await getOpenLibraryBookDescription(id)) || undefined;
-    }
+    // Fetch book content (descriptions, subjects, snippets) from all sources as evidence
+    const evidence = await collectBookEvidence(selectedBook);
 
     // Prepare book information for AI analysis
     const bookInfo = `
 Title: ${selectedBook.title}
 Authors: ${selectedBook.authors.join(", ")}
-${description ? `Description: ${description}` : ""}
 ${selectedBook.publisher ? `Publisher: ${selectedBook.publisher}` : ""}
 ${selectedBook.publishedDate ? `Published: ${selectedBook.publishedDate}` : ""}
 ${selectedBook.pageCount ? `Pages: ${selectedBook.pageCount}` : ""}
@@ -32,9 +143,30 @@ ${selectedBook.categories?.length ? `Categories: ${selectedBook.categories.join(
 ${selectedBook.averageRating ? `Rating: ${selectedBook.averageRating}/5 (${selectedBook.ratingsCount} reviews)` : ""}
 `.trim();
 
+    const evidenceInfo =
+      evidence.length > 0
+        ? evidence
+            .map((item) => `[${item.id}] (${item.source}, ${item.kind}) ${item.text}`)
+            .join("\n\n")
+        : "No evidence available.";
+
+    // Score dimensions the reader profile has information for
+    const dimensions = getFitDimensions(reader);
+    const readerInfo =
+      reader && dimensions.length > 0 ? `\n\nReader profile:\n${formatReaderProfile(reader)}` : "";
+    const personalizationRules =
+      dimensions.length > 0
+        ? `
+
+Personalize "shouldRead" for the reader profile provided with the book:
+- Add "breakdown" to "shouldRead" with a 0-100 sub-score for each of:
+${dimensions.map((dimension) => `  - ${FIT_DESCRIPTIONS[dimension]}`).join("\n")}
+- Base "reasons" on how well the book fits this reader, not on the book's general quality.`
+        : "";
+
     // Use LLM factory to create model instance
-    const llm = createLLM();
-    
+    const llm = createLLM("bookAnalysis");
+
     const systemPrompt = `You are a professional book analyst and reading advisor. Your task is to analyze books and help readers determine if a book matches their interests.
 
 Provide your analysis in the following JSON format:
@@ -48,21 +180,35 @@ Provide your analysis in the following JSON format:
     "score": 0-100,
     "reasons": ["reason1", "reason2", "reason3"]
   },
-  "similarBooks": ["book1", "book2", "book3"]
+  "similarBooks": ["book1", "book2", "book3"],
+  "citations": {
+    "summary": ["E1"],
+    "themes": ["E1", "E2"],
+    "keyTakeaways": ["E2"],
+    "similarBooks": ["E3"]
+  }
 }
 
-Be helpful, concise, and focus on helping the reader decide if this book is right for them.`;
+Ground the analysis in the evidence provided with the book (descriptions, subjects, text snippets), each labeled with an ID like [E1]:
+- In "citations", list for each field the evidence IDs it is based on. Omit fields that are not supported by any evidence.
+- "keyTakeaways" must come from the evidence. If the evidence does not reveal the book's content, return an empty array.
+- Only suggest "similarBooks" when the evidence (e.g. subjects) supports the comparison, otherwise return an empty array.
+- Never invent plot details, arguments or takeaways that are not in the evidence. With little evidence, keep the summary short and say it is based on limited information.${personalizationRules}
 
-    const response = await llm.invoke([
-      { role: "system", content: systemPrompt },
-      {
-        role: "user",
-        content: `Please analyze this book and respond with valid JSON only:\n\n${bookInfo}`,
-      },
-    ]);
+Be helpful, concise, and focus on helping the reader decide if this book is right for them.`;
 
-    const analysisJson = response.content.toString();
-    const analysis: BookAnalysis = JSON.parse(analysisJson);
+    const output = await invokeStructured(
+      llm,
+      [
+        new SystemMessage(systemPrompt),
+        new HumanMessage(
+          `Please analyze this book and respond with valid JSON only:\n\n${bookInfo}${readerInfo}\n\nEvidence:\n${evidenceInfo}`
+        ),
+      ],
+      BookAnalysisSchema,
+      { name: "book_analysis", task: "bookAnalysis" }
+    );
+    const analysis = groundAnalysis(output, evidence, dimensions);
 
     return {
       analysis,
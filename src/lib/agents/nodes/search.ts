@@ -1,67 +1,34 @@
-import { AgentState, Book } from "@/types/book";
-import { searchGoogleBooks } from "@/lib/api/google-books";
-import { searchOpenLibrary } from "@/lib/api/open-library";
-import { searchDoubanBooks, isChineseQuery } from "@/lib/api/douban";
+import { AgentState, Book, SearchFilters } from "@/types/book";
+import { isChineseQuery } from "@/lib/api/douban";
+import {
+  getNextPagination,
+  mergeBooks,
+  paginateCandidates,
+  searchAllSources,
+  type CandidateBatch,
+  type SourcePagination,
+} from "@/lib/sources";
+import { buildCacheKey, resolveCacheTtl, withCache } from "@/lib/cache";
+import {
+  classifyBooks,
+  computeFacets,
+  explainRanking,
+  getUpstreamFilters,
+  matchesFacetFilters,
+  rankBooks,
+  semanticRerank,
+  type RankedBook,
+} from "@/lib/ranking";
 import { createLLM } from "@/lib/llm/factory";
+import { invokeStructured } from "@/lib/llm/structured";
+import { KeywordExtractionSchema } from "../schemas";
 
-// 简单的内存缓存（5分钟过期）
-const searchCache = new Map<string, { books: Book[]; timestamp: number }>();
-const CACHE_TTL = 5 * 60 * 1000; // 5分钟
-
-function getCachedResults(query: string): Book[] | null {
-  const cached = searchCache.get(query.toLowerCase().trim());
-  if (cached && Date.now() - cached.timestamp < CACHE_TTL) {
-    console.log("[SearchNode] Cache hit for:", query);
-    return cached.books;
-  }
-  return null;
-}
-
-function setCachedResults(query: string, books: Book[]) {
-  searchCache.set(query.toLowerCase().trim(), {
-    books,
-    timestamp: Date.now(),
-  });
-  
-  // 清理过期缓存
-  if (searchCache.size > 100) {
-    const now = Date.now();
-    for (const [key, value] of searchCache.entries()) {
-      if (now - value.timestamp > CACHE_TTL) {
-        searchCache.delete(key);
-      }
-    }
-  }
-}
-
-/**
- * 检测书籍语言
- */
-function detectBookLanguage(book: Book): "zh" | "en" | "mixed" {
-  const title = book.title || "";
-  const chineseChars = (title.match(/[\u4e00-\u9fff]/g) || []).length;
-
-  if (chineseChars > 0) {
-    return "zh";
-  }
-
-  const englishChars = (title.match(/[a-zA-Z]/g) || []).length;
-  if (englishChars > 0) {
-    return "en";
-  }
-
-  return "mixed";
-}
-
-/**
- * 提取关键词
- */
 /**
  * 使用 LLM 提取搜索关键词
  */
 async function extractKeywordsWithLLM(query: string): Promise<string[]> {
   try {
-    const llm = createLLM();
+    const llm = createLLM("keywords");
     
     const prompt = `从用户的查询中提取用于图书搜索的关键词。
 
@@ -81,22 +48,18 @@ async function extractKeywordsWithLLM(query: string): Promise<string[]> {
 
 只返回 JSON，不要其他内容。`;
 
-    const response = await llm.invoke([
-      { role: "user", content: prompt }
-    ]);
-    
-    const content = response.content.toString().trim();
-    const jsonMatch = content.match(/\{[\s\S]*\}/);
-    
-    if (jsonMatch) {
-      const result = JSON.parse(jsonMatch[0]);
-      const keywords = result.keywords || [];
+    const { keywords } = await invokeStructured(llm, prompt, KeywordExtractionSchema, {
+      name: "extract_keywords",
+      task: "keywords",
+    });
+
+    if (keywords.length > 0) {
       console.log("[LLM] Extracted keywords:", keywords);
       return keywords;
     }
     
     // 降级：简单分词
-    console.warn("[LLM] Failed to parse, fallback to simple extraction");
+    console.warn("[LLM] No keywords extracted, fallback to simple extraction");
     return fallbackExtractKeywords(query);
   } catch (error) {
     console.error("[LLM] Keyword extraction failed:", error);
@@ -125,81 +88,6 @@ function fallbackExtractKeywords(query: string): string[] {
   return [...new Set(words)];
 }
 
-/**
- * 计算相关性评分
- */
-function calculateRelevanceScore(
-  book: Book,
-  keywords: string[],
-  languagePreference: "zh" | "en" | "any"
-): number {
-  let score = 0;
-
-  const title = (book.title || "").toLowerCase();
-  const description = (book.description || "").toLowerCase();
-  const bookLang = detectBookLanguage(book);
-
-  // 语言匹配
-  if (languagePreference === "zh" && bookLang === "en") {
-    return -1000;
-  }
-  if (languagePreference === "en" && bookLang === "zh") {
-    return -1000;
-  }
-
-  // 关键词匹配
-  let titleMatchCount = 0;
-  let descMatchCount = 0;
-
-  for (const keyword of keywords) {
-    if (keyword.length < 2) continue;
-
-    if (title.includes(keyword)) {
-      score += Math.max(30, keyword.length * 10);
-      titleMatchCount++;
-    } else if (description.includes(keyword)) {
-      score += Math.max(10, keyword.length * 3);
-      descMatchCount++;
-    }
-  }
-
-  // 覆盖率加成
-  if (keywords.length > 0) {
-    const matchRate = (titleMatchCount + descMatchCount) / keywords.length;
-    score += Math.floor(matchRate * 50);
-  }
-
-  if (titleMatchCount >= 2) {
-    score += 30;
-  }
-
-  // 无匹配严重惩罚
-  if (titleMatchCount === 0 && descMatchCount === 0) {
-    return -1000; // 完全不相关的书直接过滤
-  }
-  
-  // 标题无匹配但描述有匹配，降低分数
-  if (titleMatchCount === 0 && descMatchCount > 0) {
-    score -= 30;
-  }
-
-  // 书籍质量分
-  if (book.authors?.length > 0 && book.authors[0] !== "Unknown Author") {
-    score += 5;
-  }
-  if (book.thumbnail && !book.thumbnail.includes("placeholder")) {
-    score += 5;
-  }
-  if (book.averageRating && book.averageRating > 0) {
-    score += Math.min(book.averageRating * 2, 10);
-  }
-  if (book.ratingsCount && book.ratingsCount > 100) {
-    score += Math.min(Math.log10(book.ratingsCount) * 3, 15);
-  }
-
-  return score;
-}
-
 /**
  * 检查书籍质量（基于统计特征，不用硬编码规则）
  */
@@ -233,171 +121,132 @@ function isValidBook(book: Book): boolean {
 }
 
 /**
- * 去重
+ * 去重：过滤低质量结果后跨数据源合并同一本书
  */
 function deduplicateBooks(books: Book[]): Book[] {
-  const seen = new Map<string, Book>();
-
-  for (const book of books) {
-    // 先检查质量
-    if (!isValidBook(book)) {
-      continue;
-    }
-    
-    const normalizedTitle = book.title
-      .toLowerCase()
-      .replace(/[（(][^）)]*[）)]/g, "")
-      .replace(/[:：].*$/, "")
-      .replace(/\s+/g, "")
-      .trim();
+  return mergeBooks(books.filter(isValidBook));
+}
 
-    const key = normalizedTitle.slice(0, 20);
+// 每页返回的结果数
+const MAX_RESULTS = 20;
 
-    if (!seen.has(key)) {
-      seen.set(key, book);
-    } else {
-      const existing = seen.get(key)!;
-      // 保留信息更完整的
-      const existingScore =
-        (existing.description ? 1 : 0) +
-        (existing.thumbnail ? 1 : 0) +
-        (existing.averageRating ? 1 : 0);
-      const newScore =
-        (book.description ? 1 : 0) + (book.thumbnail ? 1 : 0) + (book.averageRating ? 1 : 0);
-      if (newScore > existingScore) {
-        seen.set(key, book);
-      }
-    }
+/**
+ * 搜索一批候选：从 pagination 位置开始请求各数据源，合并、分类并排序
+ * 分面过滤和统计都基于排序后的候选
+ */
+async function searchCandidates(
+  query: string,
+  keywords: string[],
+  filters: SearchFilters | undefined,
+  pagination?: SourcePagination
+): Promise<CandidateBatch<RankedBook>> {
+  const isChinese = isChineseQuery(query);
+  const languagePreference: "zh" | "en" | "any" = isChinese ? "zh" : "any";
+
+  console.log("[SearchNode] Query:", query);
+  console.log("[SearchNode] Keywords:", keywords);
+  console.log("[SearchNode] Language:", languagePreference);
+  if (pagination) {
+    console.log("[SearchNode] Continuing from offsets:", pagination.offsets);
   }
 
-  return Array.from(seen.values());
-}
+  // 根据语言偏好按数据源配比搜索
+  const results = await searchAllSources([query], {
+    maxResults: 30,
+    language: languagePreference,
+    queryHasChinese: isChinese,
+    filters,
+    pagination,
+  });
 
-export async function searchNode(state: AgentState): Promise<Partial<AgentState>> {
-  const { query, filters } = state;
+  // 性能日志
+  results.forEach(({ sourceId, books, elapsedMs }) => {
+    console.log(`[SearchNode] ${sourceId}: ${books.length} books in ${elapsedMs}ms`);
+  });
 
-  try {
-    const startTime = Date.now();
-    
-    // 检查缓存
-    const cachedBooks = getCachedResults(query);
-    if (cachedBooks && cachedBooks.length > 0) {
-      console.log(`[SearchNode] Returning ${cachedBooks.length} cached results`);
-      return {
-        books: cachedBooks,
-        messages: [
-          ...state.messages,
-          {
-            role: "assistant",
-            content: `Found ${cachedBooks.length} books matching "${query}" (cached)`,
-            timestamp: new Date(),
-          },
-        ],
-      };
-    }
-    
-    // 使用 LLM 提取关键词
-    const keywords = await extractKeywordsWithLLM(query);
-    const isChinese = isChineseQuery(query);
-    const languagePreference: "zh" | "en" | "any" = isChinese ? "zh" : "any";
+  const allBooks = results.flatMap((r) => r.books);
 
-    console.log("[SearchNode] Query:", query);
-    console.log("[SearchNode] Keywords:", keywords);
-    console.log("[SearchNode] Language:", languagePreference);
+  console.log("[SearchNode] Total books fetched:", allBooks.length);
 
-    // 根据语言偏好调整搜索策略
-    const searchPromises: Promise<{ books: Book[]; source: string; time?: number }>[] = [];
+  // 去重
+  const uniqueBooks = deduplicateBooks(allBooks);
+  console.log("[SearchNode] After dedup:", uniqueBooks.length);
 
-    if (isChinese) {
-      // 中文搜索：优先豆瓣
-      const doubanStart = Date.now();
-      searchPromises.push(
-        searchDoubanBooks(query, 20)
-          .then((result) => ({ 
-            ...result, 
-            source: "douban",
-            time: Date.now() - doubanStart 
-          }))
-          .catch(() => ({ books: [], source: "douban" }))
-      );
-      
-      const googleStart = Date.now();
-      searchPromises.push(
-        searchGoogleBooks(query, filters, 10)
-          .then((result) => ({ 
-            ...result, 
-            source: "google",
-            time: Date.now() - googleStart 
-          }))
-          .catch(() => ({ books: [], totalItems: 0, query, source: "google" }))
-      );
-    } else {
-      // 英文搜索：优先 Google Books
-      const googleStart = Date.now();
-      searchPromises.push(
-        searchGoogleBooks(query, filters, 15)
-          .then((result) => ({ 
-            ...result, 
-            source: "google",
-            time: Date.now() - googleStart 
-          }))
-          .catch(() => ({ books: [], totalItems: 0, query, source: "google" }))
-      );
-      
-      const openLibStart = Date.now();
-      searchPromises.push(
-        searchOpenLibrary(query, 10)
-          .then((result) => ({ 
-            ...result, 
-            source: "openlibrary",
-            time: Date.now() - openLibStart 
-          }))
-          .catch(() => ({ books: [], totalItems: 0, query, source: "openlibrary" }))
-      );
-    }
+  // 启发式分类难度与类型（用于结果卡片展示），计算相关性评分，再用向量相似度重排序，
+  // 完全不相关（没有任何关键词匹配）的书直接过滤
+  const classifiedBooks = await classifyBooks(uniqueBooks);
+  const keywordRanked = rankBooks(classifiedBooks, {
+    keywords,
+    language: languagePreference,
+    // 按最新排序时同样偏好近几年出版的书
+    yearPreference: filters?.orderBy === "newest" ? "latest" : undefined,
+  });
+  const rankedBooks = (await semanticRerank(keywordRanked, query)).filter(
+    ({ score, breakdown }) => score > -100 && breakdown.matchedKeywords.length > 0
+  );
+
+  return {
+    items: rankedBooks,
+    next: getNextPagination(results, pagination),
+    exhausted: results.every((result) => result.exhausted),
+  };
+}
 
-    const results = await Promise.all(searchPromises);
-    
-    // 性能日志
-    results.forEach(({ source, books, time }) => {
-      console.log(`[SearchNode] ${source}: ${books.length} books in ${time}ms`);
-    });
-    
-    const allBooks = results.flatMap((r) => r.books);
+/**
+ * 按 id 去重（不同批次可能返回同一本书）
+ */
+function uniqueById(books: Book[]): Book[] {
+  return [...new Map(books.map((book) => [book.id, book])).values()];
+}
 
-    console.log("[SearchNode] Total books fetched:", allBooks.length);
+export async function searchNode(state: AgentState): Promise<Partial<AgentState>> {
+  const { query, filters, cursor } = state;
 
-    // 去重
-    const uniqueBooks = deduplicateBooks(allBooks);
-    console.log("[SearchNode] After dedup:", uniqueBooks.length);
+  try {
+    const startTime = Date.now();
 
-    // 计算相关性评分并排序
-    const scoredBooks = uniqueBooks.map((book) => ({
-      book,
-      score: calculateRelevanceScore(book, keywords, languagePreference),
-    }));
+    // 只有传给数据源的条件参与缓存，切换分面条件或翻页时直接复用缓存的候选批次
+    const upstreamFilters = getUpstreamFilters(filters);
+    // 关键词在本次请求内只提取一次，批次都命中缓存时不调用 LLM
+    let keywords: Promise<string[]> | undefined;
+
+    const page = await paginateCandidates({
+      query,
+      cursor,
+      pageSize: MAX_RESULTS,
+      toBook: (item: RankedBook) => item.book,
+      accept: (item) => !filters || matchesFacetFilters(item.book, filters),
+      loadBatch: (pagination) =>
+        withCache(
+          "search-node",
+          buildCacheKey("search-node-candidates", query, { filters: upstreamFilters, pagination }),
+          resolveCacheTtl("results"),
+          async () => {
+            keywords ??= extractKeywordsWithLLM(query);
+            return searchCandidates(query, await keywords, upstreamFilters, pagination);
+          },
+          (batch) => batch.items.length > 0
+        ),
+    });
 
-    // 过滤掉低分书籍
-    const filteredBooks = scoredBooks
-      .filter(({ score }) => score > -100)
-      .sort((a, b) => b.score - a.score)
-      .slice(0, 20)
-      .map(({ book }) => book);
+    // 分面统计基于已加载的全部候选
+    const facets = computeFacets(uniqueById(page.loaded.map(({ book }) => book)));
+    const books = page.items.map(({ book }) => book);
 
     const totalTime = Date.now() - startTime;
-    console.log("[SearchNode] Final results:", filteredBooks.length);
+    console.log(`[SearchNode] Final results: ${books.length}/${facets.total}`);
     console.log(`[SearchNode] Total time: ${totalTime}ms`);
 
-    // 缓存结果
-    setCachedResults(query, filteredBooks);
-
     return {
-      books: filteredBooks,
+      books,
+      ranking: explainRanking(page.items, page.position),
+      facets,
+      nextCursor: page.nextCursor,
       messages: [
         ...state.messages,
         {
           role: "assistant",
-          content: `Found ${filteredBooks.length} books matching "${query}" (${totalTime}ms)`,
+          content: `Found ${books.length} books matching "${query}" (${totalTime}ms)`,
           timestamp: new Date(),
         },
       ],
@@ -4,6 +4,8 @@
  * 参考 dreams-agent 的设计模式，提供清晰的系统提示词
  */
 
+import type { UserPreferences } from "./types";
+
 /**
  * 获取书籍搜索 Agent 的系统提示词
  */
@@ -83,14 +85,34 @@ export function getBookSearchAgentPrompt(): string {
 4.  Don't add unnecessary modifiers to queries - keep them focused on the topic`;
 }
 
+/**
+ * 意图分析的对话上下文（用户在回答澄清问题时提供）
+ */
+export interface IntentAnalysisContext {
+  lastQuestion?: string; // 上一轮向用户提出的澄清问题
+  knownPreferences?: UserPreferences; // 之前已收集到的偏好
+}
+
 /**
  * 获取意图分析的提示词
  */
-export function getIntentAnalysisPrompt(userMessage: string): string {
+export function getIntentAnalysisPrompt(
+  userMessage: string,
+  context?: IntentAnalysisContext
+): string {
+  const contextSection = context
+    ? `
+【对话上下文】
+用户正在回答上一轮的澄清问题，请结合已知偏好，返回合并后的完整结果（用户新提供的信息优先）。
+上一轮提问: "${context.lastQuestion || ""}"
+已知偏好: ${JSON.stringify(context.knownPreferences || {})}
+`
+    : "";
+
   return `你是一个专业的图书推荐意图分析专家。请仔细分析用户的书籍搜索需求，提取核心主题。
 
 用户输入: "${userMessage}"
-
+${contextSection}
 【核心任务】
 找出用户真正想要的书籍主题。用户说的话可能很长，但核心主题通常只有1-3个词。
 
@@ -113,6 +135,16 @@ export function getIntentAnalysisPrompt(userMessage: string): string {
    - 入门/初学者/beginner → beginner
    - 进阶/中级/intermediate → intermediate
    - 高级/深入/advanced → advanced
+   - 用户没有说明 → null（不要猜测）
+
+5. **判断出版年份偏好**：
+   - 最新/近几年/新版/latest/recent → latest
+   - 经典/必读/老书/classic → classic
+   - 用户没有说明 → null
+
+6. **评估置信度**：你对理解用户需求有多确定
+   - 主题明确具体（如"Python入门"、"类似《三体》的科幻"）→ 0.8 以上
+   - 主题宽泛或含糊（如"推荐几本书"、"有什么好看的"）→ 0.4 以下，topic 返回空字符串
 
 返回以下 JSON（不要包含其他文字）:
 {
@@ -121,8 +153,10 @@ export function getIntentAnalysisPrompt(userMessage: string): string {
   "level": "beginner | intermediate | advanced | null",
   "language": "zh | en",
   "bookType": "practical | theoretical | both | null",
+  "yearPreference": "latest | classic | null",
   "searchKeywords": ["关键词1", "关键词2"],
-  "referenceBooks": ["参考书名（如果有）"]
+  "referenceBooks": ["参考书名（如果有）"],
+  "confidence": 0.0
 }
 
 【重要规则】
@@ -133,19 +167,153 @@ export function getIntentAnalysisPrompt(userMessage: string): string {
 
 【示例】
 输入: "我想找一些AI相关的书籍，最好是机器学习相关的书籍"
-输出: {"topic": "机器学习", "category": "technical", "level": "intermediate", "language": "zh", "searchKeywords": ["机器学习"]}
+输出: {"topic": "机器学习", "category": "technical", "level": null, "language": "zh", "searchKeywords": ["机器学习"], "confidence": 0.8}
 
 输入: "推荐科幻小说"
-输出: {"topic": "科幻小说", "category": "fiction", "level": null, "language": "zh", "searchKeywords": ["科幻小说"]}
+输出: {"topic": "科幻小说", "category": "fiction", "level": null, "language": "zh", "searchKeywords": ["科幻小说"], "confidence": 0.9}
 
 输入: "找一些类似《三体》的书"
-输出: {"topic": "科幻小说", "category": "fiction", "level": null, "language": "zh", "searchKeywords": ["科幻小说", "刘慈欣"], "referenceBooks": ["三体"]}
+输出: {"topic": "科幻小说", "category": "fiction", "level": null, "language": "zh", "searchKeywords": ["科幻小说", "刘慈欣"], "referenceBooks": ["三体"], "confidence": 0.9}
 
 输入: "I want to learn Python programming"
-输出: {"topic": "Python", "category": "technical", "level": "beginner", "language": "en", "searchKeywords": ["Python programming"]}
+输出: {"topic": "Python", "category": "technical", "level": "beginner", "language": "en", "searchKeywords": ["Python programming"], "confidence": 0.9}
 
 输入: "推荐一些历史书籍"
-输出: {"topic": "历史", "category": "nonfiction", "level": null, "language": "zh", "searchKeywords": ["历史"]}`;
+输出: {"topic": "历史", "category": "nonfiction", "level": null, "language": "zh", "searchKeywords": ["历史"], "confidence": 0.7}
+
+输入: "有什么好书推荐吗"
+输出: {"topic": "", "category": "nonfiction", "level": null, "language": "zh", "searchKeywords": [], "confidence": 0.2}`;
+}
+
+/**
+ * 获取澄清问题
+ * @param missingFields 缺失的必要信息（topic / level）
+ * @param topic 已识别的主题，置信度低时用于复述确认
+ */
+export function getClarifyingQuestion(
+  language: "zh" | "en",
+  missingFields: string[],
+  topic?: string
+): string {
+  if (language === "en") {
+    if (missingFields.includes("topic") || !topic) {
+      return "What topic or field are you interested in? For example: programming, history, psychology, or science fiction.";
+    }
+    if (missingFields.includes("level")) {
+      return `What's your current level with ${topic}: beginner, intermediate, or advanced? And do you prefer hands-on or theory-focused books?`;
+    }
+    return `It sounds like you're looking for books about "${topic}". Could you tell me a bit more, such as the specific area, the problem you want to solve, or a book you liked?`;
+  }
+
+  if (missingFields.includes("topic") || !topic) {
+    return "你想找哪个主题或领域的书呢？比如编程、历史、心理学或者科幻小说。";
+  }
+  if (missingFields.includes("level")) {
+    return `关于「${topic}」，你目前是什么水平？入门、进阶还是高级？另外更想要实战类还是原理类的书？`;
+  }
+  return `我理解你想找「${topic}」相关的书，能再具体说说吗？比如感兴趣的方向、想解决的问题，或者喜欢的参考书。`;
+}
+
+/**
+ * 获取工具选择时附带的偏好上下文
+ */
+export function getToolSelectionContext(preferences: {
+  topic: string;
+  level: string;
+  language: string;
+  isFiction?: boolean;
+  bookType?: string;
+  yearPreference?: string;
+  searchKeywords?: string[];
+}): string {
+  return `Analyzed user preferences (use them to build the tool arguments):
+${JSON.stringify(preferences, null, 2)}
+
+Call the tools needed to find books for the user now. Do not ask the user any questions.`;
+}
+
+/**
+ * 获取 JSON 工具调用协议的提示词
+ * 用于不支持原生 Function Calling 的模型
+ */
+export function getToolProtocolPrompt(
+  tools: Array<{ name: string; description: string; parameters: unknown }>
+): string {
+  return `You can call the following tools:
+
+${tools
+  .map(
+    (t) => `- ${t.name}: ${t.description}
+  parameters (JSON Schema): ${JSON.stringify(t.parameters)}`
+  )
+  .join("\n")}
+
+Respond ONLY with JSON in this format, without any other text:
+{"tool_calls": [{"name": "<tool name>", "args": { ... }}]}
+
+You may include several tool calls, e.g. one search per language.`;
+}
+
+/**
+ * 获取 LLM 评审重排序的提示词
+ * 候选书籍按编号列出，要求模型按适合程度排序、去掉不相关的书，并给出一句话理由
+ */
+export function getRerankPrompt(
+  language: "zh" | "en",
+  preferences: {
+    topic: string;
+    level: string;
+    isFiction?: boolean;
+    bookType?: string;
+  },
+  candidates: Array<{
+    title: string;
+    authors: string[];
+    publishedDate?: string;
+    description?: string;
+  }>
+): string {
+  const list = candidates
+    .map(
+      (b, i) =>
+        `${i + 1}. "${b.title}" - ${b.authors.join(", ")}${b.publishedDate ? ` (${b.publishedDate})` : ""}` +
+        (b.description ? `\n   ${b.description.slice(0, 200).replace(/\s+/g, " ")}` : "")
+    )
+    .join("\n");
+
+  if (language === "en") {
+    return `You are reviewing book search results for a reader.
+
+Reader preferences:
+- Topic: ${preferences.topic}
+${preferences.isFiction ? "- Genre: fiction" : `- Level: ${preferences.level}`}
+${preferences.bookType ? `- Book type: ${preferences.bookType}` : ""}
+
+Candidates:
+${list}
+
+Order the candidates from best to worst fit for this reader and drop the ones that are clearly irrelevant (wrong topic, wrong level, not a real book).
+For each kept book, give a one-line rationale (max 20 words) in English explaining why it fits.
+
+Respond ONLY with JSON:
+{"ranking": [{"index": 3, "rationale": "..."}, {"index": 1, "rationale": "..."}]}`;
+  }
+
+  return `你正在为读者评审书籍搜索结果。
+
+读者偏好：
+- 主题：${preferences.topic}
+${preferences.isFiction ? "- 类型：文学/小说" : `- 难度：${preferences.level}`}
+${preferences.bookType ? `- 书籍类型：${preferences.bookType}` : ""}
+
+候选书籍：
+${list}
+
+请按适合该读者的程度从高到低排序，去掉明显不相关的书（主题不符、难度不符、不是正式出版的书）。
+为每本保留的书写一句中文推荐理由（不超过 30 字），说明它为什么适合。
+
+只返回 JSON：
+{"ranking": [{"index": 3, "rationale": "..."}, {"index": 1, "rationale": "..."}]}`;
 }
 
 /**
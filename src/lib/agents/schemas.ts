@@ -0,0 +1,85 @@
+/**
+ * LLM 结构化输出的 zod schema
+ * 与 prompts.ts 中要求的 JSON 格式保持一致
+ */
+
+import { z } from "zod";
+
+/**
+ * 意图分析结果
+ * 可选字段允许 null（提示词要求未说明时返回 null）
+ */
+export const AnalyzedIntentSchema = z.object({
+  topic: z.string().describe("核心主题（1-3个词），无法判断时为空字符串"),
+  category: z.enum(["technical", "fiction", "nonfiction", "other"]),
+  level: z.enum(["beginner", "intermediate", "advanced"]).nullish(),
+  language: z.enum(["zh", "en"]),
+  bookType: z.enum(["practical", "theoretical", "both"]).nullish(),
+  yearPreference: z.enum(["latest", "classic", "any"]).nullish(),
+  searchKeywords: z.array(z.string()),
+  referenceBooks: z.array(z.string()).nullish(),
+  confidence: z.number().min(0).max(1).nullish().describe("理解用户需求的置信度 0-1"),
+});
+
+export type AnalyzedIntentOutput = z.infer<typeof AnalyzedIntentSchema>;
+
+/**
+ * 搜索关键词提取结果
+ */
+export const KeywordExtractionSchema = z.object({
+  keywords: z.array(z.string()).describe("用于图书搜索的关键词"),
+});
+
+/**
+ * 书籍分析结果，对应 BookAnalysis
+ */
+export const BookAnalysisSchema = z.object({
+  summary: z.string().describe("2-3 句话的内容概要"),
+  themes: z.array(z.string()),
+  targetAudience: z.string(),
+  difficulty: z.enum(["beginner", "intermediate", "advanced"]),
+  keyTakeaways: z.array(z.string()),
+  shouldRead: z.object({
+    score: z.number().min(0).max(100),
+    reasons: z.array(z.string()),
+    breakdown: z
+      .object({
+        levelFit: z.number().min(0).max(100).nullish(),
+        topicFit: z.number().min(0).max(100).nullish(),
+        practicalityFit: z.number().min(0).max(100).nullish(),
+      })
+      .nullish()
+      .describe("按读者画像的分维度得分，没有读者画像时为空"),
+  }),
+  similarBooks: z.array(z.string()).optional(),
+  citations: z
+    .record(z.string(), z.array(z.string()))
+    .nullish()
+    .describe('各字段引用的证据 ID，如 {"summary": ["E1"]}'),
+});
+
+export type BookAnalysisOutput = z.infer<typeof BookAnalysisSchema>;
+
+/**
+ * JSON 工具调用协议（不支持原生 Function Calling 的模型）
+ */
+export const ToolCallProtocolSchema = z.object({
+  tool_calls: z.array(
+    z.object({
+      name: z.string(),
+      args: z.record(z.string(), z.unknown()).optional(),
+    })
+  ),
+});
+
+/**
+ * LLM 评审重排序结果（index 为候选列表中从 1 开始的编号）
+ */
+export const RerankSchema = z.object({
+  ranking: z.array(
+    z.object({
+      index: z.number().int().min(1),
+      rationale: z.string(),
+    })
+  ),
+});
@@ -0,0 +1,125 @@
+/**
+ * Agent 线程管理
+ * 查询、分叉、删除按 thread_id 保存的对话
+ */
+
+import type { BaseMessage } from "@langchain/core/messages";
+import { bookAgent, getThreadConfig, getThreadSnapshot } from "./graph";
+import { getCheckpointer } from "./checkpointer";
+import type { BookAgentStateType } from "./types";
+
+/**
+ * 线程中的单条消息（前端展示用）
+ */
+export interface ThreadMessage {
+  role: "user" | "assistant" | "tool";
+  content: string;
+}
+
+/**
+ * 线程中的单个检查点
+ */
+export interface ThreadCheckpoint {
+  checkpointId: string;
+  parentCheckpointId?: string;
+  step: number;
+  source: string; // input | loop | update | fork
+  next: string[]; // 从该检查点继续时将执行的节点
+  phase: BookAgentStateType["phase"];
+  messageCount: number;
+  createdAt: string;
+}
+
+/**
+ * 线程详情
+ */
+export interface ThreadDetail {
+  threadId: string;
+  checkpointId?: string;
+  messages: ThreadMessage[];
+  preferences: BookAgentStateType["preferences"];
+  inferredPreferences?: BookAgentStateType["inferredPreferences"];
+  missingFields: string[];
+  phase: BookAgentStateType["phase"];
+  books: BookAgentStateType["books"];
+  searchQuery?: string;
+}
+
+function toThreadMessage(message: BaseMessage): ThreadMessage {
+  const type = message._getType();
+  return {
+    role: type === "human" ? "user" : type === "tool" ? "tool" : "assistant",
+    content: typeof message.content === "string" ? message.content : "",
+  };
+}
+
+/**
+ * 获取线程当前（或指定检查点）的状态
+ */
+export async function getThread(
+  threadId: string,
+  checkpointId?: string
+): Promise<ThreadDetail | null> {
+  const snapshot = await getThreadSnapshot(threadId, checkpointId);
+  if (!snapshot) return null;
+
+  const values = snapshot.values as BookAgentStateType;
+  return {
+    threadId,
+    checkpointId: snapshot.config.configurable?.checkpoint_id,
+    messages: values.messages.map(toThreadMessage),
+    preferences: values.preferences,
+    inferredPreferences: values.inferredPreferences,
+    missingFields: values.missingFields,
+    phase: values.phase,
+    books: values.books,
+    searchQuery: values.searchQuery,
+  };
+}
+
+/**
+ * 获取线程的检查点历史（从新到旧）
+ */
+export async function getThreadHistory(threadId: string, limit = 50): Promise<ThreadCheckpoint[]> {
+  const history: ThreadCheckpoint[] = [];
+
+  for await (const snapshot of bookAgent.getStateHistory(getThreadConfig(threadId), { limit })) {
+    const values = snapshot.values as Partial<BookAgentStateType>;
+    history.push({
+      checkpointId: snapshot.config.configurable?.checkpoint_id,
+      parentCheckpointId: snapshot.parentConfig?.configurable?.checkpoint_id,
+      step: snapshot.metadata?.step ?? -1,
+      source: snapshot.metadata?.source ?? "unknown",
+      next: [...snapshot.next],
+      phase: values.phase ?? "gathering",
+      messageCount: values.messages?.length ?? 0,
+      createdAt: snapshot.createdAt ?? "",
+    });
+  }
+
+  return history;
+}
+
+/**
+ * 分叉线程
+ * 以指定检查点（默认最新）的状态创建一个新线程，原线程不受影响
+ */
+export async function forkThread(threadId: string, checkpointId?: string): Promise<string | null> {
+  const snapshot = await getThreadSnapshot(threadId, checkpointId);
+  if (!snapshot) return null;
+
+  const newThreadId = crypto.randomUUID();
+  // 以 respond 节点的身份写入，新线程处于一轮对话结束、等待用户输入的状态
+  await bookAgent.updateState(getThreadConfig(newThreadId), snapshot.values, "respond");
+
+  console.log(`[Thread] Forked ${threadId}@${checkpointId || "latest"} → ${newThreadId}`);
+  return newThreadId;
+}
+
+/**
+ * 删除线程及其所有检查点
+ */
+export async function deleteThread(threadId: string): Promise<void> {
+  await getCheckpointer().deleteThread(threadId);
+  console.log(`[Thread] Deleted ${threadId}`);
+}
@@ -1,137 +1,260 @@
 import { tool } from "@langchain/core/tools";
+import type { LangGraphRunnableConfig } from "@langchain/langgraph";
 import { z } from "zod";
-import { searchGoogleBooks } from "@/lib/api/google-books";
-import { searchOpenLibrary } from "@/lib/api/open-library";
-import { searchInternetArchive } from "@/lib/api/internet-archive";
-import { searchDoubanBooks, isChineseQuery, enrichBooksWithDouban } from "@/lib/api/douban";
-import { Book } from "@/types/book";
+import { isChineseQuery, enrichBooksWithDouban } from "@/lib/api/douban";
+import {
+  encodeSearchCursor,
+  getNextPagination,
+  mergeBooks,
+  paginateCandidates,
+  searchAllSources,
+  type CandidateBatch,
+  type SearchCursor,
+  type SourcePagination,
+  type SourceProgressEvent,
+} from "@/lib/sources";
+import { buildCacheKey, resolveCacheTtl, withCache } from "@/lib/cache";
+import {
+  classifyBooks,
+  explainRanking,
+  rankBooks,
+  semanticRerank,
+  type RankedBook,
+  type RankingExplanation,
+} from "@/lib/ranking";
+import { Book, type BookClassification } from "@/types/book";
+import type { AgentStreamEvent } from "./types";
 
 /**
- * 检测书籍语言
- * 返回 "zh" | "en" | "mixed"
+ * 带排序说明的搜索结果
  */
-function detectBookLanguage(book: Book): "zh" | "en" | "mixed" {
-  const title = book.title || "";
-  const chineseChars = (title.match(/[\u4e00-\u9fff]/g) || []).length;
-
-  // 只要有中文字符，就认为是中文书（或混合）
-  if (chineseChars > 0) {
-    return "zh";
-  }
-
-  // 没有中文字符，检查是否是纯英文
-  const englishChars = (title.match(/[a-zA-Z]/g) || []).length;
-  if (englishChars > 0) {
-    return "en";
-  }
+export interface RankedSearchResult {
+  books: Book[];
+  ranking: RankingExplanation[]; // 与 books 一一对应的评分明细
+  nextCursor?: string; // 加载下一页的游标，没有更多结果时为空
+}
 
-  return "mixed";
+/**
+ * 用户水平、偏好的书籍类型与出版年份，用于调整排序
+ */
+interface ReaderFit {
+  level?: BookClassification["level"];
+  bookType?: BookClassification["bookType"];
+  yearPreference?: "latest" | "classic" | "any";
 }
 
 /**
- * 通用相关性评分函数
- * 核心原则：纯粹基于关键词匹配，无任何硬编码
- *
- * 评分逻辑：
- * 1. 语言必须匹配（用户选择的语言）
- * 2. 关键词在标题中匹配 = 高分
- * 3. 关键词在描述中匹配 = 中等分
- * 4. 匹配的关键词越多，分数越高
- * 5. 书籍信息完整度影响质量分
+ * 多数据源搜索 + 去重 + 分类 + 相关性排序
+ * 返回从 pagination 位置开始的一批候选（已排除语言不匹配和相关性过低的书）
  */
-function calculateRelevanceScore(
-  book: Book,
+async function searchAndRankBatch(
   query: string,
-  keywords: string[],
-  languagePreference: string = "any"
-): number {
-  let score = 0;
+  maxResults: number,
+  language: "en" | "zh" | "any",
+  fit: ReaderFit,
+  pagination?: SourcePagination,
+  onProgress?: (event: SourceProgressEvent) => void
+): Promise<CandidateBatch<RankedBook>> {
+  const queryHasChinese = isChineseQuery(query);
+
+  // 直接使用查询词作为关键词（查询词已经是 LLM 提取的核心主题）
+  // 按空格分割，每个词都是一个关键词
+  const keywords = query.split(/\s+/).filter((w) => w.length >= 2);
+
+  console.log(`[Tool] Search query: "${query}"`);
+  console.log(`[Tool] Keywords for scoring:`, keywords);
+  console.log(`[Tool] Query has Chinese: ${queryHasChinese}, Language preference: ${language}`);
+  console.log(`[Tool] Target results: ${maxResults}`);
+
+  try {
+    // 构建搜索查询
+    // 使用原始查询 + 关键词组合
+    const searchQueries = [query];
+    if (keywords.length > 1) {
+      searchQueries.push(keywords.join(" "));
+    }
+    // 对于长查询，也尝试只用前几个关键词
+    if (keywords.length > 3) {
+      searchQueries.push(keywords.slice(0, 3).join(" "));
+    }
 
-  const title = (book.title || "").toLowerCase();
-  const description = (book.description || "").toLowerCase();
+    const uniqueQueries = [...new Set(searchQueries)].slice(0, 3);
+    console.log(`[Tool] Search queries:`, uniqueQueries);
+    if (pagination) {
+      console.log(`[Tool] Continuing from offsets:`, pagination.offsets);
+    }
 
-  // ============ 1. 语言匹配（硬性要求） ============
-  const bookLang = detectBookLanguage(book);
+    // 根据语言偏好按数据源配比并行搜索，获取目标的5倍结果以便筛选
+    const sourceResults = await searchAllSources(uniqueQueries, {
+      maxResults,
+      language,
+      queryHasChinese,
+      multiplier: 5,
+      pagination,
+      // 偏好最新出版时，支持排序的数据源（Google Books）按出版时间排序
+      filters: fit.yearPreference === "latest" ? { orderBy: "newest" } : undefined,
+      onProgress,
+    });
+
+    // 合并所有结果
+    const allBooks: Book[] = sourceResults.flatMap((result) => result.books);
+    console.log(`[Tool] Total books from all sources: ${allBooks.length}`);
+
+    // 跨数据源合并同一本书（ISBN + 标题作者相似度）
+    const uniqueBooks = mergeBooks(allBooks);
+    console.log(`[Tool] After dedup: ${uniqueBooks.length} unique books`);
+
+    // 启发式分类难度与类型，计算关键词相关性分数
+    const context = { keywords, language, ...fit };
+    let ranked = rankBooks(await classifyBooks(uniqueBooks), context);
+
+    // 用户给出了水平或类型偏好时，对排名靠前但分类不确定的书用 LLM 重新分类
+    if (fit.level || fit.bookType) {
+      const reclassified = await classifyBooks(
+        ranked.map((item) => item.book),
+        { llmLimit: maxResults * 2 }
+      );
+      ranked = rankBooks(reclassified, context);
+    }
 
-  if (languagePreference === "zh" && bookLang === "en") {
-    return -1000; // 用户要中文，这是英文书，排除
-  }
-  if (languagePreference === "en" && bookLang === "zh") {
-    return -1000; // 用户要英文，这是中文书，排除
-  }
+    // 再用向量相似度重排序
+    const scoredBooks = await semanticRerank(ranked, query);
 
-  // ============ 2. 关键词匹配（核心评分） ============
-  let titleMatchCount = 0;
-  let descMatchCount = 0;
-  let totalMatchScore = 0;
+    // 打印前 20 个书籍的分数用于调试
+    console.log(`[Tool] Top 20 scored books:`);
+    scoredBooks.slice(0, 20).forEach((item, i) => {
+      console.log(`  ${i + 1}. "${item.book.title}" (${item.book.source}) - score: ${item.score}`);
+    });
 
-  for (const keyword of keywords) {
-    if (keyword.length < 2) continue;
+    // 分数过滤：结果已按分数排序，高相关（> 0）在前，中低相关（> -100）补充在后，
+    // 排除完全不相关和语言不匹配（-1000）的书籍
+    const candidates = scoredBooks.filter((item) => item.score > -100);
+    console.log(
+      `[Tool] Found ${uniqueBooks.length} unique, ${candidates.length} relevant candidates`
+    );
 
-    // 标题包含关键词（权重最高）
-    if (title.includes(keyword)) {
-      // 根据关键词长度给分，越长的词匹配越有价值
-      const keywordScore = Math.max(30, keyword.length * 10);
-      totalMatchScore += keywordScore;
-      titleMatchCount++;
-    }
-    // 描述包含关键词
-    else if (description.includes(keyword)) {
-      const keywordScore = Math.max(10, keyword.length * 3);
-      totalMatchScore += keywordScore;
-      descMatchCount++;
-    }
+    return {
+      items: candidates,
+      next: getNextPagination(sourceResults, pagination),
+      exhausted: sourceResults.every((result) => result.exhausted),
+    };
+  } catch (error) {
+    console.error("[Tool] Search error:", error);
+    return {
+      items: [],
+      next: pagination || { offsets: {}, exhausted: [] },
+      exhausted: true,
+    };
   }
+}
 
-  score += totalMatchScore;
+/**
+ * 搜索并排序书籍（带缓存）
+ * 搜索工具与确认搜索 API 共用，debug 模式下可返回排序说明；
+ * 传入上一页返回的游标可继续加载后续结果，不会重复返回已返回过的书
+ */
+export async function searchBooks(
+  query: string,
+  options: ReaderFit & {
+    maxResults?: number;
+    language?: "en" | "zh" | "any";
+    cursor?: SearchCursor;
+    onProgress?: (event: SourceProgressEvent) => void;
+  } = {}
+): Promise<RankedSearchResult> {
+  const {
+    maxResults = 20,
+    language = "any",
+    level,
+    bookType,
+    yearPreference,
+    cursor,
+    onProgress,
+  } = options;
+  const fit = { level, bookType, yearPreference };
+  const ttlMs = resolveCacheTtl("results");
+
+  const loadPage = async (): Promise<RankedSearchResult> => {
+    const page = await paginateCandidates({
+      query,
+      cursor,
+      pageSize: maxResults,
+      toBook: (item: RankedBook) => item.book,
+      // 每批候选单独缓存，翻页时复用，不会重复请求数据源
+      loadBatch: (pagination) =>
+        withCache(
+          "tool",
+          buildCacheKey("ranked-batch", query, { maxResults, language, ...fit, pagination }),
+          ttlMs,
+          () => searchAndRankBatch(query, maxResults, language, fit, pagination, onProgress),
+          (batch) => batch.items.length > 0
+        ),
+    });
+
+    let books = page.items.map((item) => item.book);
+    console.log(`[Tool] Returning ${books.length} books (target: ${maxResults})`);
+
+    // 如果是中文查询，尝试为书籍添加豆瓣信息
+    if (isChineseQuery(query) && books.length > 0) {
+      books = await enrichBooksWithDouban(books, query);
+    }
 
-  // ============ 3. 匹配覆盖率加成 ============
-  // 如果用户搜索了多个关键词，匹配越多越好
-  if (keywords.length > 0) {
-    const matchRate = (titleMatchCount + descMatchCount) / keywords.length;
-    score += Math.floor(matchRate * 50); // 覆盖率加成，最多50分
-  }
+    // 标记可在线阅读的书籍
+    books = books.map((book) => {
+      if (book.source === "internetarchive" && !book.readOnlineLink) {
+        book.readOnlineLink = book.previewLink;
+      }
+      return book;
+    });
 
-  // 多关键词在标题中匹配，额外加分
-  if (titleMatchCount >= 2) {
-    score += 30;
-  }
+    return {
+      books,
+      ranking: explainRanking(page.items, page.position),
+      nextCursor: page.nextCursor,
+    };
+  };
+
+  const cacheKey = buildCacheKey("ranked-search", query, {
+    maxResults,
+    language,
+    ...fit,
+    cursor: cursor && encodeSearchCursor(cursor),
+  });
+  return withCache("tool", cacheKey, ttlMs, loadPage, (result) => result.books.length > 0);
+}
 
-  // ============ 4. 无匹配惩罚 ============
-  // 如果没有任何关键词匹配，这本书可能不相关
-  // 但对于豆瓣来源的书，因为搜索已经做了过滤，惩罚较轻
-  if (titleMatchCount === 0 && descMatchCount === 0) {
-    if (book.source === "douban") {
-      score -= 10; // 豆瓣搜索结果本身已经是相关的
-    } else {
-      score -= 50;
+/**
+ * 将数据源进度转换为流式事件
+ * 仅在图以 "custom" 模式流式运行时 config.writer 存在
+ */
+function createProgressWriter(config?: LangGraphRunnableConfig) {
+  const writer = config?.writer;
+  if (!writer) return undefined;
+
+  return (event: SourceProgressEvent) => {
+    if (event.type === "start") {
+      writer({ type: "source_start", sources: event.sources } satisfies AgentStreamEvent);
+      return;
     }
-  }
-
-  // ============ 5. 书籍质量分（信息完整度） ============
-  if (book.authors?.length > 0 && book.authors[0] !== "Unknown Author") {
-    score += 5;
-  }
-  if (book.thumbnail && !book.thumbnail.includes("placeholder")) {
-    score += 5;
-  }
-  if (book.publishedDate) {
-    score += 2;
-  }
-  if (book.description && book.description.length > 50) {
-    score += 3;
-  }
-  if (book.averageRating && book.averageRating > 0) {
-    score += Math.min(book.averageRating * 2, 10);
-  }
 
-  // ============ 6. 数据源质量 ============
-  // 豆瓣的中文书数据通常更准确
-  if (book.source === "douban" && languagePreference === "zh") {
-    score += 10;
-  }
-
-  return score;
+    const { result, sourceName } = event;
+    writer({
+      type: "source_result",
+      sourceId: result.sourceId,
+      sourceName,
+      count: result.books.length,
+      elapsedMs: result.elapsedMs,
+      error: result.error,
+    } satisfies AgentStreamEvent);
+
+    if (result.books.length > 0) {
+      writer({
+        type: "books_partial",
+        sourceId: result.sourceId,
+        books: result.books,
+      } satisfies AgentStreamEvent);
+    }
+  };
 }
 
 /**
@@ -141,265 +264,20 @@ function calculateRelevanceScore(
  * 目标返回 20 条高质量、最相关的结果
  */
 export const searchBooksTool = tool(
-  async ({ query, maxResults = 20, language }): Promise<Book[]> => {
-    const queryHasChinese = isChineseQuery(query);
-
-    // 直接使用查询词作为关键词（查询词已经是 LLM 提取的核心主题）
-    // 按空格分割，每个词都是一个关键词
-    const keywords = query.split(/\s+/).filter((w) => w.length >= 2);
-
-    console.log(`[Tool] Search query: "${query}"`);
-    console.log(`[Tool] Keywords for scoring:`, keywords);
-    console.log(`[Tool] Query has Chinese: ${queryHasChinese}, Language preference: ${language}`);
-    console.log(`[Tool] Target results: ${maxResults}`);
-
-    try {
-      // 根据语言偏好动态调整数据源配比
-      // 豆瓣新 API 可以返回更多数据，中文搜索优先使用豆瓣
-      let googleRatio: number;
-      let doubanRatio: number;
-      let openLibraryRatio: number;
-
-      if (language === "en") {
-        // 英文优先：主要用 Google Books 和 Open Library
-        googleRatio = 0.7;
-        doubanRatio = 0;
-        openLibraryRatio = 0.3;
-      } else if (language === "zh") {
-        // 中文优先：豆瓣为主（数据更准确），Google Books 为辅
-        googleRatio = 0.4;
-        doubanRatio = 0.6;
-        openLibraryRatio = 0;
-      } else {
-        // 不限语言：混合搜索
-        if (queryHasChinese) {
-          googleRatio = 0.4;
-          doubanRatio = 0.5;
-          openLibraryRatio = 0.1;
-        } else {
-          googleRatio = 0.6;
-          doubanRatio = 0.2;
-          openLibraryRatio = 0.2;
-        }
-      }
-
-      // 搜索时获取更多结果以便筛选（目标的5倍）
-      const searchMultiplier = 5;
-      const googleSearchMax = Math.ceil(maxResults * googleRatio * searchMultiplier);
-      const doubanSearchMax = Math.ceil(maxResults * doubanRatio * searchMultiplier);
-      const openLibrarySearchMax = Math.ceil(maxResults * openLibraryRatio * searchMultiplier);
-
-      console.log(
-        `[Tool] Source ratio - Google: ${googleRatio * 100}%, Douban: ${doubanRatio * 100}%, OpenLibrary: ${openLibraryRatio * 100}%`
-      );
-
-      // 构建搜索查询
-      // 使用原始查询 + 关键词组合
-      const searchQueries = [query];
-      if (keywords.length > 1) {
-        searchQueries.push(keywords.join(" "));
-      }
-      // 对于长查询，也尝试只用前几个关键词
-      if (keywords.length > 3) {
-        searchQueries.push(keywords.slice(0, 3).join(" "));
-      }
-
-      const uniqueQueries = [...new Set(searchQueries)].slice(0, 3);
-      console.log(`[Tool] Search queries:`, uniqueQueries);
-
-      // 设置语言过滤器
-      const googleFilters =
-        language === "zh" ? { language: "zh" } : language === "en" ? { language: "en" } : undefined;
-
-      // Google Books 搜索
-      const googlePromises = uniqueQueries.map((q) =>
-        searchGoogleBooks(
-          q,
-          googleFilters,
-          Math.ceil(googleSearchMax / uniqueQueries.length)
-        ).catch((e) => {
-          console.error(`[Tool] Google Books error for "${q}":`, e);
-          return { books: [], total: 0 };
-        })
-      );
-
-      // 其他数据源
-      const otherPromises: Promise<{ books: Book[]; total?: number; source?: string }>[] = [];
-
-      // 豆瓣搜索（中文书籍）
-      if (doubanRatio > 0) {
-        for (const q of uniqueQueries) {
-          otherPromises.push(
-            searchDoubanBooks(q, Math.ceil(doubanSearchMax / uniqueQueries.length))
-              .then((r) => ({ ...r, source: "douban" }))
-              .catch((e) => {
-                console.error(`[Tool] Douban error for "${q}":`, e);
-                return { books: [], totalItems: 0, query: q, source: "douban" };
-              })
-          );
-        }
-      }
-
-      // Open Library 搜索
-      if (openLibraryRatio > 0) {
-        // 对于中文查询，尝试用关键词的英文翻译或直接搜索
-        const olQuery = queryHasChinese ? keywords.join(" ") : query;
-        otherPromises.push(
-          searchOpenLibrary(olQuery, openLibrarySearchMax)
-            .then((r) => ({ ...r, source: "openlibrary" }))
-            .catch((e) => {
-              console.error("[Tool] Open Library error:", e);
-              return { books: [], total: 0, source: "openlibrary" };
-            })
-        );
-      }
-
-      // Internet Archive（设置超时）
-      if (openLibraryRatio > 0) {
-        const iaPromise = Promise.race([
-          searchInternetArchive(query, openLibrarySearchMax).then((r) => ({
-            ...r,
-            source: "internetarchive",
-          })),
-          new Promise<{ books: Book[]; totalItems: number; query: string; source: string }>(
-            (_, reject) => setTimeout(() => reject(new Error("Internet Archive timeout")), 5000)
-          ),
-        ]).catch((e) => {
-          console.error("[Tool] Internet Archive error:", e.message || e);
-          return { books: [], totalItems: 0, query: query, source: "internetarchive" };
-        });
-
-        otherPromises.push(iaPromise);
-      }
-
-      // 并行执行所有搜索
-      const [googleResults, otherResults] = await Promise.all([
-        Promise.all(googlePromises),
-        Promise.all(otherPromises),
-      ]);
-
-      // 合并所有结果
-      let allBooks: Book[] = [];
-
-      for (const result of googleResults) {
-        if (result && result.books) {
-          allBooks = [...allBooks, ...result.books];
-        }
-      }
-      console.log(`[Tool] Google Books total found: ${allBooks.length} books`);
-
-      const googleCount = allBooks.length;
-      for (const result of otherResults) {
-        if (result && result.books) {
-          console.log(`[Tool] ${result.source || "other"} found: ${result.books.length} books`);
-          allBooks = [...allBooks, ...result.books];
-        }
-      }
-      console.log(`[Tool] Other sources total found: ${allBooks.length - googleCount} books`);
-      console.log(`[Tool] Total books from all sources: ${allBooks.length}`);
-
-      // 去重（基于标题相似度）
-      const seen = new Set<string>();
-      const uniqueBooks = allBooks.filter((book) => {
-        const normalizedTitle = book.title
-          .toLowerCase()
-          .replace(/[《》「」『』【】\[\]()（）:：]/g, "")
-          .replace(/\s+/g, "");
-        const key = `${normalizedTitle}-${book.authors.join(",").toLowerCase()}`;
-
-        if (seen.has(key)) return false;
-
-        // 检查标题是否太相似
-        for (const existingKey of seen) {
-          const existingTitle = existingKey.split("-")[0];
-          if (existingTitle.length > 3 && normalizedTitle.length > 3) {
-            if (
-              existingTitle.includes(normalizedTitle) ||
-              normalizedTitle.includes(existingTitle)
-            ) {
-              return false;
-            }
-          }
-        }
-
-        seen.add(key);
-        return true;
-      });
-
-      console.log(`[Tool] After dedup: ${uniqueBooks.length} unique books`);
-
-      // 计算相关性分数
-      const scoredBooks = uniqueBooks.map((book) => ({
-        book,
-        score: calculateRelevanceScore(book, query, keywords, language),
-      }));
-
-      // 按分数排序
-      scoredBooks.sort((a, b) => b.score - a.score);
-
-      // 打印前 20 个书籍的分数用于调试
-      console.log(`[Tool] Top 20 scored books:`);
-      scoredBooks.slice(0, 20).forEach((item, i) => {
-        console.log(
-          `  ${i + 1}. "${item.book.title}" (${item.book.source}) - score: ${item.score}`
-        );
-      });
-
-      // 分数过滤策略：
-      // 1. 优先返回分数 > 0 的高相关书籍
-      // 2. 如果不够，补充分数 > -30 的中等相关书籍
-      // 3. 排除分数 < -500 的书籍（语言不匹配）
-      let filteredBooks = scoredBooks
-        .filter((item) => item.score > 0)
-        .slice(0, maxResults)
-        .map((item) => item.book);
-
-      console.log(`[Tool] High relevance books (score > 0): ${filteredBooks.length}`);
-
-      // 如果高相关书籍不够，补充一些中等相关的
-      if (filteredBooks.length < maxResults) {
-        const additionalBooks = scoredBooks
-          .filter((item) => item.score > -30 && item.score <= 0)
-          .slice(0, maxResults - filteredBooks.length)
-          .map((item) => item.book);
-        filteredBooks = [...filteredBooks, ...additionalBooks];
-        console.log(`[Tool] After adding medium relevance: ${filteredBooks.length}`);
-      }
-
-      // 如果还是不够，再放宽到分数 > -100（但不包括语言不匹配的）
-      if (filteredBooks.length < maxResults) {
-        const moreBooks = scoredBooks
-          .filter((item) => item.score > -100 && item.score <= -30)
-          .slice(0, maxResults - filteredBooks.length)
-          .map((item) => item.book);
-        filteredBooks = [...filteredBooks, ...moreBooks];
-        console.log(`[Tool] After adding lower relevance: ${filteredBooks.length}`);
-      }
-
-      console.log(`[Tool] Returning ${filteredBooks.length} books (target: ${maxResults})`);
-
-      // 如果是中文查询，尝试为书籍添加豆瓣信息
-      if (queryHasChinese && filteredBooks.length > 0) {
-        filteredBooks = await enrichBooksWithDouban(filteredBooks, query);
-      }
-
-      // 标记可在线阅读的书籍
-      filteredBooks = filteredBooks.map((book) => {
-        if (book.source === "internetarchive" && !book.readOnlineLink) {
-          book.readOnlineLink = book.previewLink;
-        }
-        return book;
-      });
-
-      console.log(
-        `[Tool] Found ${uniqueBooks.length} unique, returning ${filteredBooks.length} relevant books`
-      );
-
-      return filteredBooks;
-    } catch (error) {
-      console.error("[Tool] Search error:", error);
-      return [];
-    }
+  async (
+    { query, maxResults = 20, language = "any", level, bookType, yearPreference },
+    config
+  ): Promise<Pick<RankedSearchResult, "books" | "nextCursor">> => {
+    const onProgress = createProgressWriter(config as LangGraphRunnableConfig);
+    const { books, nextCursor } = await searchBooks(query, {
+      maxResults,
+      language,
+      level,
+      bookType,
+      yearPreference,
+      onProgress,
+    });
+    return { books, nextCursor };
   },
   {
     name: "search_books",
@@ -409,6 +287,18 @@ export const searchBooksTool = tool(
       query: z.string().describe("搜索关键词，应该包含主题、难度级别等信息"),
       maxResults: z.number().optional().default(20).describe("返回的最大结果数，默认20"),
       language: z.enum(["en", "zh", "any"]).optional().default("any").describe("语言偏好"),
+      level: z
+        .enum(["beginner", "intermediate", "advanced"])
+        .optional()
+        .describe("用户水平，用于过滤难度不合适的书籍"),
+      bookType: z
+        .enum(["practical", "theoretical", "both"])
+        .optional()
+        .describe("偏好的书籍类型：实战、理论或都可以"),
+      yearPreference: z
+        .enum(["latest", "classic", "any"])
+        .optional()
+        .describe("出版年份偏好：最新出版、经典或不限"),
     }),
   }
 );
@@ -445,3 +335,10 @@ export const analyzePreferencesTool = tool(
 
 // 导出所有工具
 export const bookAgentTools = [searchBooksTool, analyzePreferencesTool];
+
+/**
+ * 按名称查找工具，供工具执行节点使用
+ */
+export function getBookAgentTool(name: string) {
+  return bookAgentTools.find((t) => t.name === name);
+}
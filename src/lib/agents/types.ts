@@ -1,6 +1,8 @@
 import { Annotation } from "@langchain/langgraph";
 import { BaseMessage } from "@langchain/core/messages";
 import { Book } from "@/types/book";
+import type { ProviderReport } from "@/lib/llm/profiles";
+import type { UsageSummary } from "@/lib/llm/usage";
 
 /**
  * 用户偏好类型
@@ -26,6 +28,8 @@ export interface InferredPreferences {
   isFiction?: boolean; // 是否是文学/小说类
   bookType?: "practical" | "theoretical" | "both"; // 书籍类型：实战/理论/两者
   bookTypeLabel?: string; // 书籍类型中文标签
+  yearPreference?: "latest" | "classic" | "any"; // 出版年份偏好
+  yearPreferenceLabel?: string; // 出版年份偏好标签
   searchKeywords?: string[]; // LLM 建议的搜索关键词
 }
 
@@ -52,6 +56,18 @@ export const BookAgentState = Annotation.Root({
     default: () => undefined,
   }),
 
+  // 连续澄清的轮数（搜索后重置）
+  clarificationCount: Annotation<number>({
+    reducer: (_, update) => update,
+    default: () => 0,
+  }),
+
+  // 本轮用户确认的偏好（每轮重置，存在时跳过意图推断）
+  confirmedPreferences: Annotation<InferredPreferences | undefined>({
+    reducer: (_, update) => update,
+    default: () => undefined,
+  }),
+
   // 搜索结果书籍
   books: Annotation<Book[]>({
     reducer: (_, update) => update,
@@ -64,6 +80,12 @@ export const BookAgentState = Annotation.Root({
     default: () => undefined,
   }),
 
+  // 本轮搜索结果的下一页游标
+  searchCursor: Annotation<string | undefined>({
+    reducer: (_, update) => update,
+    default: () => undefined,
+  }),
+
   // 是否需要更多信息
   needsMoreInfo: Annotation<boolean>({
     reducer: (_, update) => update,
@@ -116,3 +138,53 @@ export interface SearchToolParams {
   maxResults?: number;
   language?: string;
 }
+
+/**
+ * Agent 图节点名称
+ */
+export type AgentNodeName = "conversation" | "tools" | "rerank" | "respond";
+
+/**
+ * 一轮对话结束后返回给前端的状态
+ */
+export interface AgentTurnState {
+  preferences: UserPreferences;
+  missingFields: string[];
+  phase: BookAgentStateType["phase"];
+  inferredPreferences?: InferredPreferences;
+}
+
+/**
+ * SSE 流式事件
+ * 节点切换 → 数据源进度 / 部分结果 → 推荐说明逐字输出 → 完成
+ */
+export type AgentStreamEvent =
+  | { type: "node_start"; node: AgentNodeName }
+  | { type: "node_end"; node: AgentNodeName }
+  | { type: "preferences"; inferredPreferences: InferredPreferences }
+  | { type: "source_start"; sources: Array<{ id: string; name: string }> }
+  | {
+      type: "source_result";
+      sourceId: string;
+      sourceName: string;
+      count: number;
+      elapsedMs: number;
+      error?: string;
+    }
+  | { type: "books_partial"; sourceId: string; books: Book[] }
+  | { type: "books"; books: Book[]; searchQuery?: string }
+  | { type: "token"; content: string }
+  | {
+      type: "done";
+      threadId: string;
+      checkpointId?: string;
+      message: string;
+      books: Book[];
+      searchQuery?: string;
+      nextCursor?: string; // 加载更多搜索结果的游标
+      inferredPreferences?: InferredPreferences;
+      llm?: ProviderReport; // 本轮实际使用和失败的模型
+      usage?: UsageSummary; // 本轮的 Token 用量和费用
+      state: AgentTurnState;
+    }
+  | { type: "error"; error: string };
@@ -5,10 +5,14 @@
  */
 
 import { Book, SearchResult } from "@/types/book";
+import type { BookSource, SourceEvidence } from "@/lib/sources/types";
 
 // 豆瓣移动端搜索 API（更好用，返回更多数据）
 const DOUBAN_REXXAR_API = "https://m.douban.com/rexxar/api/v2/search/subjects";
 
+// 豆瓣移动端书籍详情 API
+const DOUBAN_REXXAR_BOOK_API = "https://m.douban.com/rexxar/api/v2/book";
+
 // 豆瓣搜索建议 API（备用）
 const DOUBAN_SUGGEST_API = "https://book.douban.com/j/subject_suggest";
 
@@ -44,6 +48,26 @@ interface DoubanRexxarResponse {
   };
 }
 
+interface DoubanRexxarBook {
+  id: string;
+  title: string;
+  author?: string[];
+  pubdate?: string[];
+  press?: string[];
+  pages?: string[];
+  intro?: string;
+  cover_url?: string;
+  pic?: {
+    large?: string;
+    normal?: string;
+  };
+  rating?: {
+    count: number;
+    value: number;
+  } | null;
+  tags?: Array<{ name: string }>;
+}
+
 interface DoubanSuggestItem {
   id: string;
   title: string;
@@ -154,18 +178,21 @@ function delay(ms: number): Promise<void> {
  * 使用豆瓣 rexxar API 搜索书籍（主要方法）
  * @param query 搜索关键词
  * @param maxResults 最大结果数
+ * @param start 跳过的结果数（分页）
  * @param retries 重试次数
+ * @returns 书籍及搜索结果总数
  */
 async function searchWithRexxar(
   query: string,
   maxResults: number,
+  start: number = 0,
   retries: number = 2
-): Promise<Book[]> {
+): Promise<{ books: Book[]; total: number }> {
   const params = new URLSearchParams({
     q: query,
     type: "book",
     count: String(Math.min(maxResults, 50)), // API 最多返回 50 条
-    start: "0",
+    start: String(start),
   });
 
   // 使用不同的 User-Agent 轮换
@@ -203,13 +230,13 @@ async function searchWithRexxar(
       const data: DoubanRexxarResponse = await response.json();
 
       if (!data.subjects?.items) {
-        return [];
+        return { books: [], total: 0 };
       }
 
       // 只保留书籍类型
       const bookItems = data.subjects.items.filter((item) => item.target_type === "book");
 
-      return bookItems.map(rexxarItemToBook);
+      return { books: bookItems.map(rexxarItemToBook), total: data.subjects.total || 0 };
     } catch (error) {
       if (attempt < retries) {
         console.warn(`[Douban] Rexxar attempt ${attempt + 1} failed, retrying...`);
@@ -220,7 +247,7 @@ async function searchWithRexxar(
     }
   }
 
-  return [];
+  return { books: [], total: 0 };
 }
 
 /**
@@ -257,19 +284,27 @@ async function searchWithSuggest(query: string, maxResults: number): Promise<Boo
 /**
  * 搜索豆瓣书籍
  * 优先使用 rexxar API（数据更丰富），失败时回退到 suggest API
+ * 查询变体补充和 suggest API 只用于第一页
  * @param query 搜索关键词
  * @param maxResults 最大结果数
+ * @param offset 跳过的结果数（分页）
  */
 export async function searchDoubanBooks(
   query: string,
-  maxResults: number = 20
+  maxResults: number = 20,
+  offset: number = 0
 ): Promise<SearchResult> {
-  console.log(`[Douban] Searching for "${query}", max: ${maxResults}`);
+  console.log(`[Douban] Searching for "${query}", max: ${maxResults}, offset: ${offset}`);
 
   try {
     // 首先尝试 rexxar API
-    let books = await searchWithRexxar(query, maxResults);
-    console.log(`[Douban] Rexxar API returned ${books.length} books`);
+    const rexxar = await searchWithRexxar(query, maxResults, offset);
+    let books = rexxar.books;
+    console.log(`[Douban] Rexxar API returned ${books.length}/${rexxar.total} books`);
+
+    if (offset > 0) {
+      return { books, totalItems: rexxar.total, query };
+    }
 
     // 如果 rexxar 返回结果不足，尝试补充
     if (books.length < maxResults) {
@@ -281,7 +316,7 @@ export async function searchDoubanBooks(
         if (books.length >= maxResults) break;
 
         try {
-          const moreBooks = await searchWithRexxar(q, maxResults - books.length);
+          const { books: moreBooks } = await searchWithRexxar(q, maxResults - books.length);
           for (const book of moreBooks) {
             if (!seenIds.has(book.id) && books.length < maxResults) {
               seenIds.add(book.id);
@@ -309,13 +344,16 @@ export async function searchDoubanBooks(
 
     return {
       books,
-      totalItems: books.length,
+      totalItems: Math.max(rexxar.total, books.length),
       query,
     };
   } catch (error) {
     console.error("[Douban] Search error:", error);
 
-    // 主 API 失败，尝试备用
+    // 主 API 失败，尝试备用（suggest API 不支持分页）
+    if (offset > 0) {
+      return { books: [], totalItems: 0, query };
+    }
     try {
       console.log(`[Douban] Primary API failed, trying suggest API`);
       const books = await searchWithSuggest(query, maxResults);
@@ -423,6 +461,50 @@ export async function getDoubanBookRating(
   }
 }
 
+/**
+ * 根据豆瓣 ID 获取书籍详情
+ * @param doubanId 豆瓣书籍 ID
+ */
+export async function getDoubanBookById(doubanId: string): Promise<Book | null> {
+  const response = await fetch(`${DOUBAN_REXXAR_BOOK_API}/${doubanId}`, {
+    headers: {
+      "User-Agent":
+        "Mozilla/5.0 (iPhone; CPU iPhone OS 16_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/16.0 Mobile/15E148 Safari/604.1",
+      Referer: "https://m.douban.com/",
+      Accept: "application/json",
+    },
+  });
+
+  if (!response.ok) {
+    if (response.status === 404) return null;
+    throw new Error(`Rexxar API error: ${response.status}`);
+  }
+
+  const data: DoubanRexxarBook = await response.json();
+  const subjectUrl = `https://book.douban.com/subject/${data.id}/`;
+  const pageCount = data.pages?.[0] ? parseInt(data.pages[0]) : undefined;
+
+  return {
+    id: `douban_${data.id}`,
+    title: data.title,
+    authors: data.author && data.author.length > 0 ? data.author : ["Unknown Author"],
+    description: data.intro || undefined,
+    publishedDate: data.pubdate?.[0],
+    publisher: data.press?.[0],
+    pageCount: pageCount && !isNaN(pageCount) ? pageCount : undefined,
+    categories: data.tags?.slice(0, 5).map((tag) => tag.name),
+    thumbnail: data.pic?.large || data.cover_url || undefined,
+    averageRating: data.rating?.value || undefined,
+    ratingsCount: data.rating?.count || undefined,
+    doubanRating: data.rating?.value || undefined,
+    infoLink: subjectUrl,
+    doubanUrl: subjectUrl,
+    previewLink: subjectUrl,
+    source: "douban",
+    language: "zh-CN",
+  };
+}
+
 /**
  * 检测查询语言是否为中文
  */
@@ -474,3 +556,50 @@ export async function enrichBooksWithDouban(books: Book[], query: string): Promi
     return books;
   }
 }
+
+/**
+ * 获取书籍分析的依据：内容简介和用户标签
+ * @param doubanId 豆瓣书籍 ID
+ */
+export async function getDoubanBookEvidence(doubanId: string): Promise<SourceEvidence[]> {
+  const book = await getDoubanBookById(doubanId);
+  if (!book) return [];
+
+  const evidence: SourceEvidence[] = [];
+  if (book.description) {
+    evidence.push({ kind: "description", text: book.description, url: book.doubanUrl });
+  }
+  if (book.categories?.length) {
+    evidence.push({ kind: "subjects", text: book.categories.join(", "), url: book.doubanUrl });
+  }
+  return evidence;
+}
+
+/**
+ * 豆瓣数据源
+ * 中文书籍数据更准确，中文搜索优先使用
+ */
+export const doubanSource: BookSource<"douban"> = {
+  id: "douban",
+  name: "豆瓣读书",
+  idPrefix: "douban",
+  supportedLanguages: ["zh"],
+  capabilities: {
+    getById: true,
+    readableOnline: false,
+    ratings: true,
+    languageFilter: false,
+    multiQuery: true,
+    maxResultsPerRequest: 50,
+  },
+  cacheTtlMs: 30 * 60 * 1000,
+  weight: ({ language, queryHasChinese }) => {
+    if (language === "en") return 0;
+    if (language === "zh") return 0.6;
+    return queryHasChinese ? 0.5 : 0.2;
+  },
+  search: (query, { maxResults, offset }) => searchDoubanBooks(query, maxResults, offset),
+  getById: getDoubanBookById,
+  // 豆瓣没有按 ISBN 查询的公开接口，只处理有豆瓣记录的书
+  getEvidence: async (_, id) => (id ? getDoubanBookEvidence(id) : []),
+};
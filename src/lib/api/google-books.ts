@@ -1,5 +1,6 @@
 import { Book, SearchFilters, SearchResult } from "@/types/book";
 import { generateBookId } from "@/lib/utils";
+import type { BookSource, SourceEvidence } from "@/lib/sources/types";
 
 const GOOGLE_BOOKS_API_BASE = "https://www.googleapis.com/books/v1/volumes";
 
@@ -27,6 +28,13 @@ interface GoogleBooksVolume {
       identifier: string;
     }>;
   };
+  accessInfo?: {
+    viewability?: "NO_PAGES" | "PARTIAL" | "ALL_PAGES" | "UNKNOWN";
+  };
+  // 只出现在搜索结果中：与查询匹配的正文片段（HTML）
+  searchInfo?: {
+    textSnippet?: string;
+  };
 }
 
 interface GoogleBooksResponse {
@@ -53,6 +61,9 @@ function transformGoogleBook(volume: GoogleBooksVolume): Book {
     thumbnail: info.imageLinks?.thumbnail?.replace("http://", "https://"),
     previewLink: info.previewLink,
     infoLink: info.infoLink,
+    hasPreview:
+      volume.accessInfo?.viewability === "PARTIAL" ||
+      volume.accessInfo?.viewability === "ALL_PAGES",
     averageRating: info.averageRating,
     ratingsCount: info.ratingsCount,
     isbn,
@@ -63,7 +74,8 @@ function transformGoogleBook(volume: GoogleBooksVolume): Book {
 export async function searchGoogleBooks(
   query: string,
   filters?: SearchFilters,
-  maxResults: number = 20
+  maxResults: number = 20,
+  startIndex: number = 0
 ): Promise<SearchResult> {
   // Google Books API 最大返回 40 条结果
   const actualMaxResults = Math.min(maxResults, 40);
@@ -74,6 +86,10 @@ export async function searchGoogleBooks(
     orderBy: filters?.orderBy || "relevance",
   });
 
+  if (startIndex > 0) {
+    params.append("startIndex", startIndex.toString());
+  }
+
   if (filters?.language) {
     params.append("langRestrict", filters.language);
   }
@@ -114,3 +130,99 @@ export async function getGoogleBookById(bookId: string): Promise<Book | null> {
   const volume: GoogleBooksVolume = await response.json();
   return transformGoogleBook(volume);
 }
+
+/**
+ * 去掉 HTML 标签和常见实体
+ */
+function stripHtml(html: string): string {
+  return html
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * 获取书籍分析的依据：简介和正文片段
+ * 正文片段（searchInfo）只在搜索结果中返回，因此按 ISBN 或书名 + 作者搜索后取对应的书；
+ * 没有 Google Books 记录时只接受 ISBN 匹配或书名相同的结果
+ */
+export async function getGoogleBookEvidence(
+  book: Book,
+  volumeId?: string
+): Promise<SourceEvidence[]> {
+  const author = book.authors.find((a) => a !== "Unknown Author");
+  const q = book.isbn
+    ? `isbn:${book.isbn}`
+    : `intitle:"${book.title}"${author ? ` inauthor:"${author}"` : ""}`;
+
+  const params = new URLSearchParams({ q, maxResults: "5" });
+  const apiKey = process.env.GOOGLE_BOOKS_API_KEY;
+  if (apiKey) {
+    params.append("key", apiKey);
+  }
+
+  const response = await fetch(`${GOOGLE_BOOKS_API_BASE}?${params.toString()}`);
+  if (!response.ok) {
+    throw new Error(`Google Books API error: ${response.status}`);
+  }
+
+  const data: GoogleBooksResponse = await response.json();
+  const items = data.items || [];
+  let volume = volumeId
+    ? items.find((item) => item.id === volumeId)
+    : book.isbn
+      ? items[0]
+      : items.find((item) => item.volumeInfo.title.toLowerCase() === book.title.toLowerCase());
+
+  // 搜索结果中没有该书时直接获取详情（只有简介，没有正文片段）
+  if (!volume && volumeId) {
+    const detail = await fetch(`${GOOGLE_BOOKS_API_BASE}/${volumeId}`);
+    volume = detail.ok ? ((await detail.json()) as GoogleBooksVolume) : undefined;
+  }
+  if (!volume) return [];
+
+  const url = volume.volumeInfo.infoLink;
+  const evidence: SourceEvidence[] = [];
+  if (volume.volumeInfo.description) {
+    evidence.push({ kind: "description", text: stripHtml(volume.volumeInfo.description), url });
+  }
+  if (volume.searchInfo?.textSnippet) {
+    evidence.push({ kind: "snippet", text: stripHtml(volume.searchInfo.textSnippet), url });
+  }
+  return evidence;
+}
+
+/**
+ * Google Books 数据源
+ */
+export const googleBooksSource: BookSource<"google"> = {
+  id: "google",
+  name: "Google Books",
+  idPrefix: "google",
+  supportedLanguages: ["zh", "en"],
+  capabilities: {
+    getById: true,
+    readableOnline: false,
+    ratings: true,
+    languageFilter: true,
+    multiQuery: true,
+    maxResultsPerRequest: 40,
+  },
+  cacheTtlMs: 30 * 60 * 1000,
+  weight: ({ language, queryHasChinese }) => {
+    if (language === "en") return 0.7;
+    if (language === "zh") return 0.4;
+    return queryHasChinese ? 0.4 : 0.6;
+  },
+  search: (query, { maxResults, language, filters, offset }) => {
+    const languageFilters =
+      language === "zh" || language === "en" ? { ...filters, language } : filters;
+    return searchGoogleBooks(query, languageFilters, maxResults, offset);
+  },
+  getById: getGoogleBookById,
+  getEvidence: getGoogleBookEvidence,
+};
@@ -5,8 +5,10 @@
  */
 
 import { Book, SearchResult } from "@/types/book";
+import type { BookSource, SourceEvidence } from "@/lib/sources/types";
 
 const IA_API_BASE = "https://archive.org/advancedsearch.php";
+const IA_METADATA_BASE = "https://archive.org/metadata";
 
 interface IADoc {
   identifier: string;
@@ -23,6 +25,18 @@ interface IADoc {
   num_reviews?: number;
 }
 
+interface IAMetadataResponse {
+  metadata?: Omit<IADoc, "imagecount"> & {
+    mediatype?: string;
+    imagecount?: string | number;
+  };
+}
+
+interface IAFile {
+  name: string;
+  format?: string;
+}
+
 interface IASearchResponse {
   response: {
     numFound: number;
@@ -74,11 +88,13 @@ function iaDocToBook(doc: IADoc): Book {
  * 搜索 Internet Archive 书籍
  * @param query 搜索关键词
  * @param maxResults 最大结果数
+ * @param offset 跳过的结果数（分页）
  * @returns 搜索结果
  */
 export async function searchInternetArchive(
   query: string,
-  maxResults: number = 10
+  maxResults: number = 10,
+  offset: number = 0
 ): Promise<SearchResult> {
   try {
     // 构建搜索参数
@@ -103,7 +119,8 @@ export async function searchInternetArchive(
         "num_reviews",
       ].join(","),
       rows: maxResults.toString(),
-      page: "1",
+      // 只支持按页翻页，offset 换算为页码
+      page: String(Math.floor(offset / maxResults) + 1),
       output: "json",
       sort: "downloads desc", // 按下载量排序
     });
@@ -135,22 +152,171 @@ export async function searchInternetArchive(
   }
 }
 
+/**
+ * 根据标识符获取 Internet Archive 书籍详情
+ * @param identifier Internet Archive 标识符
+ */
+export async function getInternetArchiveBookById(identifier: string): Promise<Book | null> {
+  const response = await fetch(`${IA_METADATA_BASE}/${encodeURIComponent(identifier)}`);
+
+  if (!response.ok) {
+    throw new Error(`Internet Archive API error: ${response.status}`);
+  }
+
+  // 不存在的标识符会返回空对象
+  const data: IAMetadataResponse = await response.json();
+  if (!data.metadata) {
+    return null;
+  }
+
+  const { imagecount, ...metadata } = data.metadata;
+  return iaDocToBook({
+    ...metadata,
+    identifier: metadata.identifier || identifier,
+    imagecount: imagecount ? Number(imagecount) || undefined : undefined,
+  });
+}
+
+/**
+ * 获取条目的文件列表
+ */
+async function getIAFiles(identifier: string): Promise<IAFile[]> {
+  const response = await fetch(`${IA_METADATA_BASE}/${encodeURIComponent(identifier)}/files`);
+  if (!response.ok) {
+    throw new Error(`Internet Archive API error: ${response.status}`);
+  }
+
+  const data: { result?: IAFile[] } = await response.json();
+  return data.result || [];
+}
+
+// 可在线阅读的格式
+const READABLE_FORMATS = ["pdf", "epub", "djvu", "txt"];
+
+function hasReadableFormat(files: IAFile[]): boolean {
+  return files.some((file) =>
+    READABLE_FORMATS.some((fmt) => file.format?.toLowerCase().includes(fmt))
+  );
+}
+
 /**
  * 检查书籍是否可以在线阅读
  * @param identifier Internet Archive 标识符
  */
 export async function checkReadableOnline(identifier: string): Promise<boolean> {
   try {
-    const response = await fetch(`https://archive.org/metadata/${identifier}/files`);
-    if (!response.ok) return false;
-
-    const data = await response.json();
-    // 检查是否有可读取的格式
-    const readableFormats = ["pdf", "epub", "djvu", "txt"];
-    return data.result?.some((file: { format?: string }) =>
-      readableFormats.some((fmt) => file.format?.toLowerCase().includes(fmt))
-    );
+    return hasReadableFormat(await getIAFiles(identifier));
   } catch {
     return false;
   }
 }
+
+// 全文只读取开头部分，足够抽取正文片段
+const FULLTEXT_MAX_BYTES = 200_000;
+const FULLTEXT_PASSAGES = 3;
+const FULLTEXT_PASSAGE_LENGTH = 600;
+
+/**
+ * 读取响应的前 maxBytes 字节（服务器忽略 Range 时避免下载整本书）
+ */
+async function readTextPrefix(response: Response, maxBytes: number): Promise<string> {
+  if (!response.body) return "";
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (size < maxBytes) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    size += value.length;
+  }
+  await reader.cancel();
+  return new TextDecoder().decode(Buffer.concat(chunks).subarray(0, maxBytes));
+}
+
+/**
+ * 从 OCR 全文中均匀抽取几段正文，跳过开头的版权页和目录
+ */
+function extractPassages(text: string): string[] {
+  const normalized = text.replace(/\s+/g, " ").trim();
+  const body = normalized.slice(Math.floor(normalized.length * 0.2));
+  if (body.length <= FULLTEXT_PASSAGE_LENGTH) {
+    return body ? [body] : [];
+  }
+
+  const step = Math.floor((body.length - FULLTEXT_PASSAGE_LENGTH) / FULLTEXT_PASSAGES);
+  return Array.from({ length: FULLTEXT_PASSAGES }, (_, i) => {
+    // 从句子开头截取
+    const sentence = body.indexOf(". ", i * step);
+    const start = sentence >= 0 && sentence < i * step + 200 ? sentence + 2 : i * step;
+    return body.slice(start, start + FULLTEXT_PASSAGE_LENGTH).trim();
+  });
+}
+
+/**
+ * 获取书籍分析的依据：条目简介、主题，以及可在线阅读的书的全文片段（OCR 文本）
+ * @param identifier Internet Archive 标识符
+ */
+export async function getInternetArchiveEvidence(identifier: string): Promise<SourceEvidence[]> {
+  const [book, files] = await Promise.all([
+    getInternetArchiveBookById(identifier),
+    getIAFiles(identifier),
+  ]);
+  if (!book) return [];
+
+  const evidence: SourceEvidence[] = [];
+  if (book.description) {
+    evidence.push({ kind: "description", text: book.description, url: book.infoLink });
+  }
+  if (book.categories?.length) {
+    evidence.push({ kind: "subjects", text: book.categories.join(", "), url: book.infoLink });
+  }
+
+  const textFile = hasReadableFormat(files)
+    ? files.find((file) => file.format === "DjVuTXT") ||
+      files.find((file) => file.name.endsWith(".txt"))
+    : undefined;
+  if (!textFile) return evidence;
+
+  const response = await fetch(
+    `https://archive.org/download/${encodeURIComponent(identifier)}/${encodeURIComponent(textFile.name)}`,
+    { headers: { Range: `bytes=0-${FULLTEXT_MAX_BYTES - 1}` } }
+  );
+  if (!response.ok) return evidence;
+
+  for (const passage of extractPassages(await readTextPrefix(response, FULLTEXT_MAX_BYTES))) {
+    evidence.push({ kind: "fulltext", text: passage, url: book.readOnlineLink });
+  }
+  return evidence;
+}
+
+/**
+ * Internet Archive 数据源
+ * 响应较慢，设置 5 秒超时
+ */
+export const internetArchiveSource: BookSource<"internetarchive"> = {
+  id: "internetarchive",
+  name: "Internet Archive",
+  idPrefix: "ia",
+  supportedLanguages: ["zh", "en"],
+  capabilities: {
+    getById: true,
+    readableOnline: true,
+    ratings: true,
+    languageFilter: false,
+    multiQuery: false,
+    maxResultsPerRequest: 100,
+  },
+  timeoutMs: 5000,
+  cacheTtlMs: 60 * 60 * 1000,
+  // 与 Open Library 配比一致，作为公共领域书籍的补充
+  weight: ({ language, queryHasChinese }) => {
+    if (language === "en") return 0.3;
+    if (language === "zh") return 0;
+    return queryHasChinese ? 0.1 : 0.2;
+  },
+  search: (query, { maxResults, offset }) => searchInternetArchive(query, maxResults, offset),
+  getById: getInternetArchiveBookById,
+  getEvidence: async (_, id) => (id ? getInternetArchiveEvidence(id) : []),
+};
@@ -1,5 +1,6 @@
 import { Book, SearchResult } from "@/types/book";
 import { generateBookId } from "@/lib/utils";
+import type { BookSource, SourceEvidence } from "@/lib/sources/types";
 
 const OPEN_LIBRARY_API_BASE = "https://openlibrary.org";
 
@@ -18,6 +19,16 @@ interface OpenLibraryDoc {
   ratings_count?: number;
 }
 
+interface OpenLibraryWork {
+  key: string;
+  title: string;
+  description?: string | { value: string };
+  authors?: Array<{ author: { key: string } }>;
+  subjects?: string[];
+  covers?: number[];
+  first_publish_date?: string;
+}
+
 interface OpenLibrarySearchResponse {
   docs: OpenLibraryDoc[];
   numFound: number;
@@ -47,10 +58,15 @@ function transformOpenLibraryBook(doc: OpenLibraryDoc): Book {
   };
 }
 
-export async function searchOpenLibrary(query: string, limit: number = 20): Promise<SearchResult> {
+export async function searchOpenLibrary(
+  query: string,
+  limit: number = 20,
+  offset: number = 0
+): Promise<SearchResult> {
   const params = new URLSearchParams({
     q: query,
     limit: limit.toString(),
+    offset: offset.toString(),
     fields:
       "key,title,author_name,first_publish_year,publisher,number_of_pages_median,subject,language,cover_i,isbn,ratings_average,ratings_count",
   });
@@ -87,3 +103,120 @@ export async function getOpenLibraryBookDescription(workId: string): Promise<str
     return null;
   }
 }
+
+/**
+ * 根据 work ID 获取书籍详情
+ * @param workId Open Library work ID，如 "OL45804W"
+ */
+export async function getOpenLibraryWorkById(workId: string): Promise<Book | null> {
+  const response = await fetch(`${OPEN_LIBRARY_API_BASE}/works/${workId}.json`);
+
+  if (!response.ok) {
+    if (response.status === 404) return null;
+    throw new Error(`Open Library API error: ${response.status}`);
+  }
+
+  const work: OpenLibraryWork = await response.json();
+
+  // 作者信息需要单独获取，最多取前 3 位
+  const authorKeys = (work.authors || []).slice(0, 3).map((a) => a.author.key);
+  const authors = await Promise.all(
+    authorKeys.map(async (key) => {
+      try {
+        const authorResponse = await fetch(`${OPEN_LIBRARY_API_BASE}${key}.json`);
+        if (!authorResponse.ok) return null;
+        const author: { name?: string } = await authorResponse.json();
+        return author.name || null;
+      } catch {
+        return null;
+      }
+    })
+  );
+  const authorNames = authors.filter((name): name is string => !!name);
+
+  const description =
+    typeof work.description === "string" ? work.description : work.description?.value;
+  const coverId = work.covers?.find((id) => id > 0);
+
+  return {
+    id: generateBookId("openlibrary", workId),
+    title: work.title,
+    authors: authorNames.length > 0 ? authorNames : ["Unknown Author"],
+    description,
+    publishedDate: work.first_publish_date,
+    categories: work.subjects?.slice(0, 5),
+    thumbnail: coverId ? `https://covers.openlibrary.org/b/id/${coverId}-L.jpg` : undefined,
+    infoLink: `${OPEN_LIBRARY_API_BASE}/works/${workId}`,
+    source: "openlibrary",
+  };
+}
+
+/**
+ * 根据 ISBN 查找对应的 work ID
+ */
+async function findOpenLibraryWorkIdByIsbn(isbn: string): Promise<string | undefined> {
+  const response = await fetch(`${OPEN_LIBRARY_API_BASE}/isbn/${isbn}.json`);
+  if (!response.ok) return undefined;
+
+  const edition: { works?: Array<{ key: string }> } = await response.json();
+  return edition.works?.[0]?.key.replace("/works/", "");
+}
+
+/**
+ * 获取书籍分析的依据：work 简介和主题
+ * 没有 work ID 时按 ISBN 查找
+ */
+export async function getOpenLibraryEvidence(
+  book: Book,
+  workId?: string
+): Promise<SourceEvidence[]> {
+  const id = workId || (book.isbn ? await findOpenLibraryWorkIdByIsbn(book.isbn) : undefined);
+  if (!id) return [];
+
+  const response = await fetch(`${OPEN_LIBRARY_API_BASE}/works/${id}.json`);
+  if (!response.ok) {
+    if (response.status === 404) return [];
+    throw new Error(`Open Library API error: ${response.status}`);
+  }
+
+  const work: OpenLibraryWork = await response.json();
+  const url = `${OPEN_LIBRARY_API_BASE}/works/${id}`;
+  const description =
+    typeof work.description === "string" ? work.description : work.description?.value;
+
+  const evidence: SourceEvidence[] = [];
+  if (description) {
+    evidence.push({ kind: "description", text: description, url });
+  }
+  if (work.subjects?.length) {
+    evidence.push({ kind: "subjects", text: work.subjects.slice(0, 20).join(", "), url });
+  }
+  return evidence;
+}
+
+/**
+ * Open Library 数据源
+ */
+export const openLibrarySource: BookSource<"openlibrary"> = {
+  id: "openlibrary",
+  name: "Open Library",
+  idPrefix: "openlibrary",
+  supportedLanguages: ["en"],
+  capabilities: {
+    getById: true,
+    readableOnline: false,
+    ratings: true,
+    languageFilter: false,
+    multiQuery: false,
+    maxResultsPerRequest: 100,
+  },
+  cacheTtlMs: 60 * 60 * 1000,
+  weight: ({ language, queryHasChinese }) => {
+    if (language === "en") return 0.3;
+    if (language === "zh") return 0;
+    return queryHasChinese ? 0.1 : 0.2;
+  },
+  search: (query, { maxResults, offset }) => searchOpenLibrary(query, maxResults, offset),
+  getById: getOpenLibraryWorkById,
+  getEvidence: getOpenLibraryEvidence,
+};
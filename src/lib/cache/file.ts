@@ -0,0 +1,59 @@
+import { createJsonFilePersistence } from "@/lib/json-file";
+import { createLRUEntries } from "./memory";
+import type { CacheEntry, CacheStore } from "./types";
+
+/**
+ * 创建文件持久化缓存
+ * 读写都走内存 LRU，写入后延迟落盘，开发服务器重启后可从文件恢复
+ */
+export function createFileCache(options: {
+  filePath: string;
+  maxEntries?: number;
+  flushDelayMs?: number;
+}): CacheStore {
+  const { filePath, maxEntries = 2000, flushDelayMs = 1000 } = options;
+  const lru = createLRUEntries(maxEntries);
+
+  const { ensureLoaded, scheduleFlush } = createJsonFilePersistence<Record<string, CacheEntry>>({
+    filePath,
+    label: "Cache",
+    flushDelayMs,
+    // 跳过已过期的条目
+    load: (stored) => {
+      const now = Date.now();
+      for (const [key, entry] of Object.entries(stored)) {
+        if (entry.expiresAt > now) {
+          lru.set(key, entry);
+        }
+      }
+      return lru.entries.size;
+    },
+    snapshot: () => Object.fromEntries(lru.entries),
+  });
+
+  return {
+    backend: "file",
+    async get<T>(key: string) {
+      await ensureLoaded();
+      return lru.get(key)?.value as T | undefined;
+    },
+    async set<T>(key: string, value: T, ttlMs: number) {
+      await ensureLoaded();
+      lru.set(key, { value, expiresAt: Date.now() + ttlMs });
+      scheduleFlush();
+    },
+    async delete(key: string) {
+      await ensureLoaded();
+      lru.entries.delete(key);
+      scheduleFlush();
+    },
+    async clear() {
+      await ensureLoaded();
+      lru.entries.clear();
+      scheduleFlush();
+    },
+    size() {
+      return lru.entries.size;
+    },
+  };
+}
@@ -0,0 +1,126 @@
+/**
+ * 搜索结果缓存
+ * 供 Agent 搜索工具、搜索节点以及各数据源客户端共享
+ */
+
+import { join } from "node:path";
+import { createMemoryCache } from "./memory";
+import { createFileCache } from "./file";
+import type { CacheStats, CacheStore } from "./types";
+
+export type { CacheEntry, CacheStats, CacheStore } from "./types";
+export { createMemoryCache } from "./memory";
+export { createFileCache } from "./file";
+
+// 聚合搜索结果默认缓存 5 分钟
+const DEFAULT_SEARCH_TTL_MS = 5 * 60 * 1000;
+
+let searchCache: CacheStore | null = null;
+const stats: Record<string, { hits: number; misses: number }> = {};
+
+/**
+ * 获取共享的搜索缓存
+ * 通过 SEARCH_CACHE_BACKEND 选择后端（memory | file），serverless 环境默认使用内存
+ */
+export function getSearchCache(): CacheStore {
+  if (!searchCache) {
+    const backend = process.env.SEARCH_CACHE_BACKEND || (process.env.VERCEL ? "memory" : "file");
+
+    searchCache =
+      backend === "file"
+        ? createFileCache({
+            filePath:
+              process.env.SEARCH_CACHE_FILE || join(process.cwd(), ".cache", "search-cache.json"),
+          })
+        : createMemoryCache();
+
+    console.log(`[Cache] Using ${searchCache.backend} backend`);
+  }
+  return searchCache;
+}
+
+/**
+ * 替换搜索缓存后端
+ */
+export function setSearchCache(store: CacheStore) {
+  searchCache = store;
+}
+
+/**
+ * 构建缓存 key
+ * 查询词统一小写并合并空白，其余参数按 key 排序后序列化
+ */
+export function buildCacheKey(
+  namespace: string,
+  query: string,
+  params: Record<string, unknown> = {}
+): string {
+  const normalizedQuery = query.toLowerCase().trim().replace(/\s+/g, " ");
+  const normalizedParams = Object.keys(params)
+    .filter((key) => params[key] !== undefined && params[key] !== null && params[key] !== "")
+    .sort()
+    .map((key) => `${key}=${JSON.stringify(params[key])}`)
+    .join("&");
+
+  return `${namespace}:${normalizedQuery}|${normalizedParams}`;
+}
+
+/**
+ * 解析缓存时间
+ * 环境变量 SEARCH_CACHE_TTL_<NAME>（秒）优先，例如 SEARCH_CACHE_TTL_DOUBAN=3600
+ */
+export function resolveCacheTtl(name: string, defaultTtlMs: number = DEFAULT_SEARCH_TTL_MS) {
+  const envValue = process.env[`SEARCH_CACHE_TTL_${name.toUpperCase()}`];
+  const seconds = envValue ? Number(envValue) : NaN;
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : defaultTtlMs;
+}
+
+/**
+ * 带缓存执行
+ * @param namespace 统计分组，如 "tool"、"source:google"
+ * @param shouldCache 判断结果是否值得缓存（如空结果不缓存）
+ */
+export async function withCache<T>(
+  namespace: string,
+  key: string,
+  ttlMs: number,
+  fn: () => Promise<T>,
+  shouldCache: (value: T) => boolean = () => true
+): Promise<T> {
+  const cache = getSearchCache();
+  const counter = (stats[namespace] ||= { hits: 0, misses: 0 });
+
+  if (ttlMs > 0) {
+    const cached = await cache.get<T>(key);
+    if (cached !== undefined) {
+      counter.hits++;
+      return cached;
+    }
+  }
+
+  counter.misses++;
+  const value = await fn();
+
+  if (ttlMs > 0 && shouldCache(value)) {
+    await cache.set(key, value, ttlMs);
+  }
+  return value;
+}
+
+/**
+ * 获取缓存命中统计
+ */
+export function getCacheStats(): CacheStats {
+  const cache = getSearchCache();
+  const totals = Object.values(stats).reduce(
+    (acc, s) => ({ hits: acc.hits + s.hits, misses: acc.misses + s.misses }),
+    { hits: 0, misses: 0 }
+  );
+
+  return {
+    backend: cache.backend,
+    size: cache.size(),
+    ...totals,
+    namespaces: { ...stats },
+  };
+}
@@ -0,0 +1,63 @@
+import type { CacheEntry, CacheStore } from "./types";
+
+/**
+ * LRU 条目容器
+ * 利用 Map 的插入顺序：最近访问的条目移到末尾，淘汰时删除最前面的
+ */
+export function createLRUEntries(maxEntries: number) {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    entries,
+    get(key: string): CacheEntry | undefined {
+      const entry = entries.get(key);
+      if (!entry) return undefined;
+
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return undefined;
+      }
+
+      // 刷新访问顺序
+      entries.delete(key);
+      entries.set(key, entry);
+      return entry;
+    },
+    set(key: string, entry: CacheEntry) {
+      entries.delete(key);
+      entries.set(key, entry);
+
+      while (entries.size > maxEntries) {
+        const oldestKey = entries.keys().next().value;
+        if (oldestKey === undefined) break;
+        entries.delete(oldestKey);
+      }
+    },
+  };
+}
+
+/**
+ * 创建内存 LRU 缓存（进程重启后丢失）
+ */
+export function createMemoryCache(options: { maxEntries?: number } = {}): CacheStore {
+  const lru = createLRUEntries(options.maxEntries ?? 500);
+
+  return {
+    backend: "memory",
+    async get<T>(key: string) {
+      return lru.get(key)?.value as T | undefined;
+    },
+    async set<T>(key: string, value: T, ttlMs: number) {
+      lru.set(key, { value, expiresAt: Date.now() + ttlMs });
+    },
+    async delete(key: string) {
+      lru.entries.delete(key);
+    },
+    async clear() {
+      lru.entries.clear();
+    },
+    size() {
+      return lru.entries.size;
+    },
+  };
+}
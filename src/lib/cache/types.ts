@@ -0,0 +1,31 @@
+/**
+ * 缓存条目
+ */
+export interface CacheEntry<T = unknown> {
+  value: T;
+  expiresAt: number; // 过期时间戳（毫秒）
+}
+
+/**
+ * 缓存存储后端
+ * 内存 LRU 与文件持久化实现同一接口，可按需切换
+ */
+export interface CacheStore {
+  readonly backend: "memory" | "file";
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+  size(): number;
+}
+
+/**
+ * 命中统计
+ */
+export interface CacheStats {
+  backend: CacheStore["backend"];
+  size: number;
+  hits: number;
+  misses: number;
+  namespaces: Record<string, { hits: number; misses: number }>;
+}
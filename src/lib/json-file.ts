@@ -0,0 +1,77 @@
+/**
+ * JSON 文件持久化
+ * 数据保存在调用方的内存结构中：首次访问时从文件加载，修改后延迟落盘（写临时文件再重命名）
+ * 供搜索缓存、模型配置存储和 Agent 检查点共用
+ */
+
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
+
+export interface JsonFilePersistence {
+  /** 首次调用时从文件加载，之后直接返回 */
+  ensureLoaded(): Promise<void>;
+  /** 延迟写入文件，延迟期间的多次修改只写一次 */
+  scheduleFlush(): void;
+}
+
+/**
+ * @param label 日志前缀，如 "Cache"
+ * @param load 用文件内容初始化内存数据，返回加载的条目数
+ * @param snapshot 返回要写入文件的数据
+ * @param fileMode 文件权限，保存敏感数据时使用 0o600
+ * @param replacer / reviver 自定义 JSON 序列化（如二进制数据）
+ */
+export function createJsonFilePersistence<T>(options: {
+  filePath: string;
+  label: string;
+  flushDelayMs: number;
+  load: (data: T) => number;
+  snapshot: () => T;
+  fileMode?: number;
+  replacer?: (key: string, value: unknown) => unknown;
+  reviver?: (key: string, value: unknown) => unknown;
+}): JsonFilePersistence {
+  const { filePath, label, flushDelayMs, load, snapshot, fileMode, replacer, reviver } = options;
+
+  let loadPromise: Promise<void> | null = null;
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function ensureLoaded(): Promise<void> {
+    if (!loadPromise) {
+      loadPromise = readFile(filePath, "utf-8")
+        .then((content) => {
+          const count = load(JSON.parse(content, reviver) as T);
+          console.log(`[${label}] Loaded ${count} entries from ${filePath}`);
+        })
+        .catch((error: NodeJS.ErrnoException) => {
+          if (error.code !== "ENOENT") {
+            console.warn(`[${label}] Failed to load ${filePath}:`, error.message);
+          }
+        });
+    }
+    return loadPromise;
+  }
+
+  async function flush() {
+    flushTimer = null;
+    try {
+      await mkdir(dirname(filePath), { recursive: true });
+      const tmpPath = `${filePath}.tmp`;
+      await writeFile(tmpPath, JSON.stringify(snapshot(), replacer), {
+        encoding: "utf-8",
+        mode: fileMode,
+      });
+      await rename(tmpPath, filePath);
+    } catch (error) {
+      console.warn(`[${label}] Failed to persist ${filePath}:`, error);
+    }
+  }
+
+  function scheduleFlush() {
+    if (!flushTimer) {
+      flushTimer = setTimeout(flush, flushDelayMs);
+    }
+  }
+
+  return { ensureLoaded, scheduleFlush };
+}
@@ -0,0 +1,209 @@
+/**
+ * 模型连接测试与能力探测
+ * 通过 createLLM 创建与实际使用完全相同的模型实例，因此所有服务商共用同一套测试；
+ * 能力探测结果按服务商、模型和地址缓存
+ */
+
+import type { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { z } from "zod";
+import { getModelInfo, type UserModelConfig } from "@/types/model-config";
+import { buildCacheKey, getSearchCache, resolveCacheTtl, withCache } from "@/lib/cache";
+import { createLLM } from "./factory";
+
+/**
+ * 模型能力
+ */
+export interface ModelCapabilities {
+  toolCalling: boolean; // 原生工具调用（bindTools）
+  jsonMode: boolean; // 原生 JSON 输出模式
+  streaming: boolean; // 逐块流式输出
+  contextLength?: number; // 上下文长度（Tokens），未知时为空
+  errors: Partial<Record<"toolCalling" | "jsonMode" | "streaming", string>>;
+  probedAt: number;
+}
+
+const PROBE_TIMEOUT_MS = 30_000;
+// 探测结果默认缓存一天，可通过 SEARCH_CACHE_TTL_CAPABILITIES（秒）覆盖
+const CAPABILITY_TTL_MS = 24 * 60 * 60 * 1000;
+
+const PING_TOOL = {
+  type: "function" as const,
+  function: {
+    name: "ping",
+    description: "Echo a message back to the caller",
+    parameters: {
+      type: "object",
+      properties: { message: { type: "string" } },
+      required: ["message"],
+    },
+  },
+};
+
+function describeError(error: unknown): string {
+  if (error instanceof Error && error.name === "TimeoutError") {
+    return "连接超时";
+  }
+  return error instanceof Error ? error.message : "连接失败";
+}
+
+/**
+ * 只测试配置本身的模型：不使用备用模型和任务配置
+ */
+function createProbeLLM(config: UserModelConfig, maxTokens: number): BaseChatModel {
+  return createLLM("chat", {
+    ...config,
+    fallbacks: undefined,
+    tasks: undefined,
+    temperature: 0,
+    maxTokens,
+  });
+}
+
+/**
+ * 测试模型连接：发送一条很短的消息
+ */
+export async function testModelConnection(
+  config: UserModelConfig
+): Promise<{ success: boolean; error?: string; latency?: number }> {
+  const startTime = Date.now();
+  try {
+    await createProbeLLM(config, 16).invoke("Say 'OK' in one word.", {
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    });
+    return { success: true, latency: Date.now() - startTime };
+  } catch (error) {
+    return { success: false, error: describeError(error) };
+  }
+}
+
+async function probeToolCalling(llm: BaseChatModel): Promise<boolean> {
+  if (!llm.bindTools) return false;
+  const response = await llm
+    .bindTools([PING_TOOL])
+    .invoke('Call the ping tool with message "ok".', {
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    });
+  return (response.tool_calls?.length ?? 0) > 0;
+}
+
+async function probeJsonMode(llm: BaseChatModel): Promise<boolean> {
+  const structured = llm.withStructuredOutput(z.object({ ok: z.boolean() }), {
+    method: "jsonMode",
+  });
+  const result = await structured.invoke(
+    'Respond with a JSON object: {"ok": true}. Output JSON only.',
+    { signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) }
+  );
+  return result.ok === true;
+}
+
+async function probeStreaming(llm: BaseChatModel): Promise<boolean> {
+  const stream = await llm.stream("Count from 1 to 10, separated by spaces.", {
+    signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+  });
+  let chunks = 0;
+  for await (const chunk of stream) {
+    if (chunk.content) chunks++;
+  }
+  return chunks > 1;
+}
+
+/**
+ * 上下文长度：优先使用预定义的模型信息，Ollama 模型从 /api/show 读取
+ */
+async function getContextLength(config: UserModelConfig): Promise<number | undefined> {
+  const known = getModelInfo(config.provider, config.model)?.contextLength;
+  if (known || config.provider !== "ollama") return known;
+
+  const baseUrl = config.ollamaHost || config.baseUrl || "http://localhost:11434";
+  try {
+    const response = await fetch(`${baseUrl}/api/show`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ model: config.model }),
+      signal: AbortSignal.timeout(5000),
+    });
+    if (!response.ok) return undefined;
+
+    const data = await response.json();
+    // model_info 中的 key 带架构前缀，如 "llama.context_length"
+    const entry = Object.entries(data.model_info || {}).find(([key]) =>
+      key.endsWith(".context_length")
+    );
+    return entry ? Number(entry[1]) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 依次探测各项能力，单项失败只记录错误
+ */
+async function runProbe(config: UserModelConfig): Promise<ModelCapabilities> {
+  const llm = createProbeLLM(config, 200);
+  const capabilities: ModelCapabilities = {
+    toolCalling: false,
+    jsonMode: false,
+    streaming: false,
+    errors: {},
+    probedAt: Date.now(),
+  };
+
+  const probes = [
+    ["toolCalling", probeToolCalling],
+    ["jsonMode", probeJsonMode],
+    ["streaming", probeStreaming],
+  ] as const;
+  for (const [name, probe] of probes) {
+    try {
+      capabilities[name] = await probe(llm);
+    } catch (error) {
+      capabilities.errors[name] = describeError(error);
+    }
+  }
+  capabilities.contextLength = await getContextLength(config);
+
+  console.log(
+    `[Capabilities] ${config.provider}/${config.model}:`,
+    JSON.stringify({ ...capabilities, errors: Object.keys(capabilities.errors) })
+  );
+  return capabilities;
+}
+
+function getCapabilityCacheKey(config: UserModelConfig): string {
+  return buildCacheKey("model-capabilities", `${config.provider}/${config.model}`, {
+    baseUrl: config.baseUrl,
+    ollamaHost: config.ollamaHost,
+  });
+}
+
+/**
+ * 读取缓存的能力探测结果
+ */
+export async function getCachedCapabilities(
+  config: UserModelConfig
+): Promise<ModelCapabilities | undefined> {
+  return getSearchCache().get<ModelCapabilities>(getCapabilityCacheKey(config));
+}
+
+/**
+ * 探测模型能力，refresh 为 true 时忽略缓存
+ * 所有探测都失败（多半是连接问题）时不缓存
+ */
+export async function probeModelCapabilities(
+  config: UserModelConfig,
+  options: { refresh?: boolean } = {}
+): Promise<ModelCapabilities> {
+  const key = getCapabilityCacheKey(config);
+  if (options.refresh) {
+    await getSearchCache().delete(key);
+  }
+
+  return withCache(
+    "capabilities",
+    key,
+    resolveCacheTtl("capabilities", CAPABILITY_TTL_MS),
+    () => runProbe(config),
+    (capabilities) => capabilities.toolCalling || capabilities.jsonMode || capabilities.streaming
+  );
+}
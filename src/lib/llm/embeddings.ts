@@ -0,0 +1,232 @@
+/**
+ * Embedding 工厂
+ * 与 createLLM 使用同一份模型配置，按服务商创建向量模型；
+ * 没有可用的向量接口时使用本地确定性哈希向量
+ */
+
+import { createHash } from "node:crypto";
+import { Embeddings } from "@langchain/core/embeddings";
+import { OpenAIEmbeddings } from "@langchain/openai";
+import { OllamaEmbeddings } from "@langchain/ollama";
+import { UserModelConfig, getProviderConfig } from "@/types/model-config";
+import { createMemoryCache, resolveCacheTtl, type CacheStore } from "@/lib/cache";
+import { getCurrentConfig } from "./factory";
+
+/**
+ * 向量服务商
+ */
+export type EmbeddingProvider = "ollama" | "openai" | "local";
+
+// 提供 OpenAI 兼容向量接口的服务商及默认模型
+const OPENAI_COMPATIBLE_EMBEDDING_MODELS: Partial<Record<UserModelConfig["provider"], string>> = {
+  openai: "text-embedding-3-small",
+  siliconflow: "BAAI/bge-m3",
+  zhipu: "embedding-3",
+};
+
+const DEFAULT_OLLAMA_EMBEDDING_MODEL = "nomic-embed-text";
+
+// 本地哈希向量维度
+const LOCAL_EMBEDDING_DIMENSIONS = 512;
+
+// 向量缓存默认一天，可通过 SEARCH_CACHE_TTL_EMBEDDINGS（秒）覆盖
+const EMBEDDING_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const EMBEDDING_CACHE_MAX_ENTRIES = 5000;
+
+/**
+ * 字符串哈希（FNV-1a）
+ */
+function hashToken(token: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * 本地哈希向量
+ * 英文按单词、中文按单字和双字切分后哈希到固定维度，无需网络，结果确定；
+ * 只能捕捉字面相似度，作为没有向量接口时的降级方案
+ */
+export class LocalHashEmbeddings extends Embeddings {
+  constructor(private readonly dimensions = LOCAL_EMBEDDING_DIMENSIONS) {
+    super({});
+  }
+
+  private tokenize(text: string): string[] {
+    const normalized = text.toLowerCase();
+    const words = normalized.match(/[a-z0-9]+/g) || [];
+    const tokens = [...words];
+
+    for (const segment of normalized.match(/[\u4e00-\u9fff]+/g) || []) {
+      for (let i = 0; i < segment.length; i++) {
+        tokens.push(segment[i]);
+        if (i < segment.length - 1) tokens.push(segment.slice(i, i + 2));
+      }
+    }
+    return tokens;
+  }
+
+  private embed(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const token of this.tokenize(text)) {
+      const hash = hashToken(token);
+      // 用哈希的最高位决定符号，减少冲突带来的偏差
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -1 : 1;
+    }
+    const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+    return norm > 0 ? vector.map((v) => v / norm) : vector;
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    return documents.map((doc) => this.embed(doc));
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    return this.embed(document);
+  }
+}
+
+let embeddingCache: CacheStore | null = null;
+
+/**
+ * 向量只缓存在进程内存中，不写入共享的搜索缓存文件
+ */
+function getEmbeddingCache(): CacheStore {
+  if (!embeddingCache) {
+    embeddingCache = createMemoryCache({ maxEntries: EMBEDDING_CACHE_MAX_ENTRIES });
+  }
+  return embeddingCache;
+}
+
+/**
+ * 带缓存的向量模型
+ * 同一模型对同一文本的向量不变，按模型和文本哈希缓存，只对未命中的文本调用向量接口
+ */
+class CachedEmbeddings extends Embeddings {
+  constructor(
+    private readonly inner: Embeddings,
+    private readonly modelId: string
+  ) {
+    super({});
+  }
+
+  private getKey(kind: "query" | "document", text: string): string {
+    const hash = createHash("sha256").update(text).digest("hex");
+    return `embedding:${this.modelId}:${kind}:${hash}`;
+  }
+
+  async embedDocuments(documents: string[]): Promise<number[][]> {
+    const cache = getEmbeddingCache();
+    const vectors = await Promise.all(
+      documents.map((doc) => cache.get<number[]>(this.getKey("document", doc)))
+    );
+
+    const missing = documents.flatMap((_, i) => (vectors[i] ? [] : [i]));
+    if (missing.length > 0) {
+      const computed = await this.inner.embedDocuments(missing.map((i) => documents[i]));
+      const ttlMs = resolveCacheTtl("embeddings", EMBEDDING_CACHE_TTL_MS);
+      await Promise.all(
+        missing.map((docIndex, i) => {
+          vectors[docIndex] = computed[i];
+          return cache.set(this.getKey("document", documents[docIndex]), computed[i], ttlMs);
+        })
+      );
+    }
+    return vectors as number[][];
+  }
+
+  async embedQuery(document: string): Promise<number[]> {
+    const cache = getEmbeddingCache();
+    const key = this.getKey("query", document);
+    const cached = await cache.get<number[]>(key);
+    if (cached) return cached;
+
+    const vector = await this.inner.embedQuery(document);
+    await cache.set(key, vector, resolveCacheTtl("embeddings", EMBEDDING_CACHE_TTL_MS));
+    return vector;
+  }
+}
+
+/**
+ * 解析向量服务商
+ * EMBEDDING_PROVIDER（ollama | openai | local）优先，否则跟随当前 LLM 服务商
+ */
+function resolveEmbeddingProvider(config: UserModelConfig): EmbeddingProvider {
+  const override = process.env.EMBEDDING_PROVIDER;
+  if (override === "ollama" || override === "openai" || override === "local") {
+    return override;
+  }
+
+  if (config.provider === "ollama") return "ollama";
+  if (OPENAI_COMPATIBLE_EMBEDDING_MODELS[config.provider]) return "openai";
+  return "local";
+}
+
+/**
+ * 创建向量模型
+ * 环境变量：EMBEDDING_PROVIDER、EMBEDDING_MODEL、EMBEDDING_BASE_URL、EMBEDDING_API_KEY
+ */
+export function createEmbeddings(config?: UserModelConfig): Embeddings {
+  const cfg = config || getCurrentConfig();
+  const provider = resolveEmbeddingProvider(cfg);
+  const model = process.env.EMBEDDING_MODEL;
+
+  console.log(`[Embeddings] Using ${provider}${model ? ` / ${model}` : ""}`);
+
+  switch (provider) {
+    case "ollama": {
+      const ollamaModel = model || DEFAULT_OLLAMA_EMBEDDING_MODEL;
+      const baseUrl =
+        process.env.EMBEDDING_BASE_URL ||
+        (cfg.provider === "ollama" ? cfg.ollamaHost || cfg.baseUrl : undefined) ||
+        "http://localhost:11434";
+      return new CachedEmbeddings(
+        new OllamaEmbeddings({ model: ollamaModel, baseUrl }),
+        `ollama/${ollamaModel}@${baseUrl}`
+      );
+    }
+
+    case "openai": {
+      // 当前服务商没有向量接口时（如通过 EMBEDDING_PROVIDER 强制指定）直接使用 OpenAI
+      const compatible = Boolean(OPENAI_COMPATIBLE_EMBEDDING_MODELS[cfg.provider]);
+      const openaiModel =
+        model || OPENAI_COMPATIBLE_EMBEDDING_MODELS[cfg.provider] || "text-embedding-3-small";
+      const baseURL =
+        process.env.EMBEDDING_BASE_URL ||
+        (compatible ? cfg.baseUrl || getProviderConfig(cfg.provider)?.baseUrl : undefined);
+      return new CachedEmbeddings(
+        new OpenAIEmbeddings({
+          model: openaiModel,
+          apiKey:
+            process.env.EMBEDDING_API_KEY ||
+            (compatible ? cfg.apiKey : undefined) ||
+            process.env.OPENAI_API_KEY,
+          configuration: { baseURL },
+        }),
+        `openai/${openaiModel}@${baseURL || "default"}`
+      );
+    }
+
+    default:
+      // 本地哈希向量计算很快，不需要缓存
+      return new LocalHashEmbeddings();
+  }
+}
+
+/**
+ * 余弦相似度
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
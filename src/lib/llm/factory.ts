@@ -1,88 +1,271 @@
 /**
  * LLM 工厂
  * 根据配置动态创建 LLM 实例
+ * 配置按请求所属的档案解析（见 ./profiles），没有档案配置时使用环境变量
+ * 配置了备用模型时返回故障转移模型（见 ./fallback）
+ * 各任务可以单独指定服务商、模型和生成参数（见 resolveTaskConfig）
  */
 
-import { ChatOpenAI } from "@langchain/openai";
+import { AzureChatOpenAI, ChatOpenAI } from "@langchain/openai";
 import { ChatOllama } from "@langchain/ollama";
 import { ChatAnthropic } from "@langchain/anthropic";
+import { ChatGoogleGenerativeAI } from "@langchain/google-genai";
 import { BaseChatModel } from "@langchain/core/language_models/chat_models";
-import { UserModelConfig, getProviderConfig, DEFAULT_CONFIG } from "@/types/model-config";
+import {
+  UserModelConfig,
+  FallbackModelConfig,
+  LLMProvider,
+  LLMTask,
+  TaskModelConfig,
+  getProviderConfig,
+  getTaskInfo,
+  AZURE_DEFAULT_API_VERSION,
+  DEFAULT_CONFIG,
+} from "@/types/model-config";
+import { getRequestModelConfig } from "./profiles";
+import { createFallbackChatModel, type FallbackEntry } from "./fallback";
+import { createUsageHandler } from "./usage";
 
-// 服务端当前配置缓存
-let serverConfig: UserModelConfig | null = null;
+/**
+ * 获取当前配置
+ * 优先使用当前请求所属档案的配置，否则使用环境变量配置
+ */
+export function getCurrentConfig(): UserModelConfig {
+  return getRequestModelConfig() || getDefaultConfig();
+}
 
 /**
- * 设置服务端配置
+ * 默认配置：从环境变量检测
+ * LLM_FALLBACKS 配置备用模型，如 "openrouter,ollama:qwen2.5:7b"（服务商[:模型]，按顺序故障转移）
+ * LLM_TASKS 配置任务模型（JSON），如 {"intent":{"provider":"deepseek","temperature":0}}
  */
-export function setServerConfig(config: UserModelConfig) {
-  serverConfig = config;
-  console.log("[LLM Factory] Config updated:", {
-    provider: config.provider,
-    model: config.model,
-  });
+export function getDefaultConfig(): UserModelConfig {
+  const useOllama = process.env.USE_OLLAMA === "true" || !!process.env.OLLAMA_BASE_URL;
+  const config =
+    (useOllama && getEnvProviderConfig("ollama")) ||
+    (["openrouter", "openai", "anthropic", "deepseek", "google", "azure"] as const)
+      .map((provider) => getEnvProviderConfig(provider))
+      .find(Boolean) ||
+    // 默认使用 Ollama
+    DEFAULT_CONFIG;
+
+  const fallbacks = getEnvFallbacks(config);
+  const tasks = getEnvTasks();
+  return {
+    ...config,
+    ...(fallbacks.length > 0 && { fallbacks }),
+    ...(tasks && { tasks }),
+  };
 }
 
 /**
- * 获取当前配置
- * 优先使用服务端配置，否则使用环境变量配置
+ * 从环境变量读取单个服务商的配置，没有配置 API Key 时返回 undefined
  */
-export function getCurrentConfig(): UserModelConfig {
-  if (serverConfig) {
-    return serverConfig;
+function getEnvProviderConfig(provider: LLMProvider, model?: string): UserModelConfig | undefined {
+  switch (provider) {
+    case "ollama":
+      return {
+        provider: "ollama",
+        model: model || process.env.OLLAMA_MODEL || "llama3.2:latest",
+        ollamaHost: process.env.OLLAMA_BASE_URL || "http://localhost:11434",
+      };
+
+    case "openrouter":
+      return process.env.OPENROUTER_API_KEY
+        ? {
+            provider: "openrouter",
+            model:
+              model || process.env.OPENROUTER_MODEL || "meta-llama/llama-3.3-70b-instruct:free",
+            apiKey: process.env.OPENROUTER_API_KEY,
+          }
+        : undefined;
+
+    case "openai":
+      return process.env.OPENAI_API_KEY
+        ? {
+            provider: "openai",
+            model: model || process.env.OPENAI_MODEL || "gpt-4o-mini",
+            apiKey: process.env.OPENAI_API_KEY,
+          }
+        : undefined;
+
+    case "anthropic":
+      return process.env.ANTHROPIC_API_KEY
+        ? {
+            provider: "anthropic",
+            model: model || process.env.ANTHROPIC_MODEL || "claude-3-haiku-20240307",
+            apiKey: process.env.ANTHROPIC_API_KEY,
+            baseUrl: process.env.ANTHROPIC_BASE_URL,
+          }
+        : undefined;
+
+    case "google":
+      return process.env.GOOGLE_API_KEY
+        ? {
+            provider: "google",
+            model: model || process.env.GOOGLE_MODEL || "gemini-2.0-flash",
+            apiKey: process.env.GOOGLE_API_KEY,
+          }
+        : undefined;
+
+    case "azure":
+      return process.env.AZURE_OPENAI_API_KEY && process.env.AZURE_OPENAI_ENDPOINT
+        ? {
+            provider: "azure",
+            model: model || process.env.AZURE_OPENAI_MODEL || "gpt-4o-mini",
+            apiKey: process.env.AZURE_OPENAI_API_KEY,
+            baseUrl: process.env.AZURE_OPENAI_ENDPOINT,
+            azureDeployment: process.env.AZURE_OPENAI_DEPLOYMENT,
+            azureApiVersion: process.env.AZURE_OPENAI_API_VERSION,
+          }
+        : undefined;
+
+    case "deepseek":
+      return process.env.DEEPSEEK_API_KEY
+        ? {
+            provider: "deepseek",
+            model: model || process.env.DEEPSEEK_MODEL || "deepseek-chat",
+            apiKey: process.env.DEEPSEEK_API_KEY,
+          }
+        : undefined;
+
+    default:
+      return undefined;
   }
+}
 
-  // 从环境变量检测
-  if (process.env.USE_OLLAMA === "true" || process.env.OLLAMA_BASE_URL) {
-    return {
-      provider: "ollama",
-      model: process.env.OLLAMA_MODEL || "llama3.2:latest",
-      ollamaHost: process.env.OLLAMA_BASE_URL || "http://localhost:11434",
-    };
+/**
+ * 解析 LLM_FALLBACKS，跳过与主模型相同或缺少 API Key 的服务商
+ */
+function getEnvFallbacks(primary: UserModelConfig): FallbackModelConfig[] {
+  const fallbacks: FallbackModelConfig[] = [];
+
+  for (const item of (process.env.LLM_FALLBACKS || "").split(",")) {
+    const [provider, ...modelParts] = item.trim().split(":");
+    if (!provider) continue;
+
+    const config = getEnvProviderConfig(provider as LLMProvider, modelParts.join(":") || undefined);
+    if (!config) {
+      console.warn(`[LLM Factory] Skipping fallback ${provider}: not configured`);
+      continue;
+    }
+    if (config.provider === primary.provider && config.model === primary.model) continue;
+    fallbacks.push(config);
   }
 
-  if (process.env.OPENROUTER_API_KEY) {
-    return {
-      provider: "openrouter",
-      model: process.env.OPENROUTER_MODEL || "meta-llama/llama-3.3-70b-instruct:free",
-      apiKey: process.env.OPENROUTER_API_KEY,
-    };
+  return fallbacks;
+}
+
+/**
+ * 解析 LLM_TASKS，格式错误时忽略
+ * 任务指定的服务商使用对应的环境变量 API Key
+ */
+function getEnvTasks(): UserModelConfig["tasks"] {
+  const raw = process.env.LLM_TASKS;
+  if (!raw) return undefined;
+
+  let parsed: Partial<Record<LLMTask, TaskModelConfig>>;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    console.warn("[LLM Factory] Invalid LLM_TASKS, ignoring:", error);
+    return undefined;
   }
 
-  if (process.env.OPENAI_API_KEY) {
-    return {
-      provider: "openai",
-      model: process.env.OPENAI_MODEL || "gpt-4o-mini",
-      apiKey: process.env.OPENAI_API_KEY,
-    };
+  const tasks: UserModelConfig["tasks"] = {};
+  for (const [task, override] of Object.entries(parsed) as Array<[LLMTask, TaskModelConfig]>) {
+    const provider = override.provider && getEnvProviderConfig(override.provider, override.model);
+    if (override.provider && !provider) {
+      console.warn(
+        `[LLM Factory] Skipping ${task} task model ${override.provider}: not configured`
+      );
+      continue;
+    }
+    tasks[task] = { ...provider, ...override };
   }
+  return tasks;
+}
 
-  if (process.env.ANTHROPIC_API_KEY) {
-    return {
-      provider: "anthropic",
-      model: process.env.ANTHROPIC_MODEL || "claude-3-haiku-20240307",
-      apiKey: process.env.ANTHROPIC_API_KEY,
-    };
+/**
+ * 解析任务使用的模型配置
+ * 任务指定了其他服务商时使用该服务商的连接配置，否则沿用主模型（可替换模型名）；
+ * 生成参数依次取任务配置、主配置和任务默认值；备用模型继承任务的生成参数
+ */
+export function resolveTaskConfig(config: UserModelConfig, task: LLMTask): UserModelConfig {
+  const { tasks, fallbacks, ...base } = config;
+  const override = tasks?.[task] || {};
+  const defaults = getTaskInfo(task);
+
+  const connection: FallbackModelConfig =
+    override.provider && override.provider !== base.provider
+      ? {
+          provider: override.provider,
+          model: override.model || base.model,
+          apiKey: override.apiKey,
+          apiKeyId: override.apiKeyId,
+          baseUrl: override.baseUrl,
+          ollamaHost: override.ollamaHost,
+          azureDeployment: override.azureDeployment,
+          azureApiVersion: override.azureApiVersion,
+        }
+      : { ...base, model: override.model || base.model };
+
+  const params = {
+    temperature: override.temperature ?? base.temperature ?? defaults.temperature,
+    maxTokens: override.maxTokens ?? base.maxTokens ?? defaults.maxTokens,
+  };
+
+  return {
+    ...connection,
+    ...params,
+    fallbacks: fallbacks?.map((fallback) => ({ ...fallback, ...params })),
+  };
+}
+
+/**
+ * 创建 LLM 实例
+ * 按任务解析模型配置；配置了备用模型时，返回按顺序故障转移的模型
+ */
+export function createLLM(task: LLMTask = "chat", config?: UserModelConfig): BaseChatModel {
+  const cfg = resolveTaskConfig(config || getCurrentConfig(), task);
+  console.log(
+    `[LLM Factory] Task ${task}: temperature ${cfg.temperature}, maxTokens ${cfg.maxTokens}`
+  );
+  if (!cfg.fallbacks?.length) {
+    return createProviderLLM(cfg, task);
   }
 
-  if (process.env.DEEPSEEK_API_KEY) {
-    return {
-      provider: "deepseek",
-      model: process.env.DEEPSEEK_MODEL || "deepseek-chat",
-      apiKey: process.env.DEEPSEEK_API_KEY,
-    };
+  const entries: FallbackEntry[] = [
+    { config: cfg, model: createProviderLLM(cfg, task), supportsTools: supportsToolCalling(cfg) },
+  ];
+  for (const fallback of cfg.fallbacks) {
+    try {
+      entries.push({
+        config: fallback,
+        model: createProviderLLM(fallback, task),
+        supportsTools: supportsToolCalling(fallback),
+      });
+    } catch (error) {
+      console.warn(`[LLM Factory] Skipping fallback ${fallback.provider}:`, error);
+    }
   }
 
-  // 默认使用 Ollama
-  return DEFAULT_CONFIG;
+  console.log(
+    `[LLM Factory] Fallback chain: ${entries.map((e) => `${e.config.provider}/${e.config.model}`).join(" → ")}`
+  );
+  return createFallbackChatModel(entries);
 }
 
 /**
- * 创建 LLM 实例
+ * 创建单个服务商的 LLM 实例，并挂上用量统计回调
  */
-export function createLLM(config?: UserModelConfig): BaseChatModel {
-  const cfg = config || getCurrentConfig();
+function createProviderLLM(cfg: FallbackModelConfig, task: LLMTask): BaseChatModel {
+  const llm = createProviderModel(cfg);
+  llm.callbacks = [createUsageHandler(cfg, task)];
+  return llm;
+}
 
+function createProviderModel(cfg: FallbackModelConfig): BaseChatModel {
   console.log(`[LLM Factory] Creating LLM: ${cfg.provider} / ${cfg.model}`);
 
   switch (cfg.provider) {
@@ -97,10 +280,12 @@ export function createLLM(config?: UserModelConfig): BaseChatModel {
     case "anthropic":
       return createAnthropicLLM(cfg);
 
-    // Google Gemini (使用 OpenAI 兼容接口)
     case "google":
       return createGoogleLLM(cfg);
 
+    case "azure":
+      return createAzureLLM(cfg);
+
     // 聚合平台
     case "openrouter":
       return createOpenRouterLLM(cfg);
@@ -134,20 +319,21 @@ export function createLLM(config?: UserModelConfig): BaseChatModel {
  */
 function createOllamaLLM(config: UserModelConfig): BaseChatModel {
   const baseUrl = config.ollamaHost || config.baseUrl || "http://localhost:11434";
-  
+
   // 在 Vercel 等 serverless 环境中给出友好提示
   if (process.env.VERCEL && baseUrl.includes("localhost")) {
     console.warn(
       "[LLM Factory] ⚠️ Ollama 无法在 Vercel 等 serverless 环境中运行。" +
-      "请在环境变量中配置云端 LLM 提供商（OpenAI、Anthropic、DeepSeek、OpenRouter 等），" +
-      "或在 Settings 页面配置。"
+        "请在环境变量中配置云端 LLM 提供商（OpenAI、Anthropic、DeepSeek、OpenRouter 等），" +
+        "或在 Settings 页面配置。"
     );
   }
-  
+
   return new ChatOllama({
     model: config.model,
     baseUrl,
-    temperature: 0.7,
+    temperature: config.temperature ?? 0.7,
+    numPredict: config.maxTokens,
   });
 }
 
@@ -157,21 +343,23 @@ function createOllamaLLM(config: UserModelConfig): BaseChatModel {
 function createOpenAILLM(config: UserModelConfig): BaseChatModel {
   return new ChatOpenAI({
     modelName: config.model,
-    temperature: 0.7,
-    maxTokens: 1000,
+    temperature: config.temperature ?? 0.7,
+    maxTokens: config.maxTokens ?? 1000,
     apiKey: config.apiKey || process.env.OPENAI_API_KEY,
   });
 }
 
 /**
  * 创建 Anthropic LLM
+ * 配置了 baseUrl 时通过兼容 Anthropic 接口的代理调用（SDK 会自动拼接 /v1）
  */
 function createAnthropicLLM(config: UserModelConfig): BaseChatModel {
   return new ChatAnthropic({
     modelName: config.model,
-    temperature: 0.7,
-    maxTokens: 1000,
+    temperature: config.temperature ?? 0.7,
+    maxTokens: config.maxTokens ?? 1000,
     anthropicApiKey: config.apiKey || process.env.ANTHROPIC_API_KEY,
+    anthropicApiUrl: config.baseUrl?.replace(/\/v1\/?$/, "") || undefined,
   });
 }
 
@@ -181,8 +369,8 @@ function createAnthropicLLM(config: UserModelConfig): BaseChatModel {
 function createOpenRouterLLM(config: UserModelConfig): BaseChatModel {
   return new ChatOpenAI({
     modelName: config.model,
-    temperature: 0.7,
-    maxTokens: 1000,
+    temperature: config.temperature ?? 0.7,
+    maxTokens: config.maxTokens ?? 1000,
     configuration: {
       baseURL: "https://openrouter.ai/api/v1",
       defaultHeaders: {
@@ -196,19 +384,36 @@ function createOpenRouterLLM(config: UserModelConfig): BaseChatModel {
 
 /**
  * 创建 Google Gemini LLM
- * 使用 OpenAI 兼容接口 (通过 OpenRouter 或直接调用)
+ * 使用原生 Gemini 接口；配置了 baseUrl 时通过代理调用（SDK 会自动拼接 API 版本）
  */
 function createGoogleLLM(config: UserModelConfig): BaseChatModel {
-  // Google Gemini 可以通过 OpenAI 兼容的方式调用
-  // 使用 generativelanguage.googleapis.com 的 OpenAI 兼容端点
-  return new ChatOpenAI({
-    modelName: config.model,
-    temperature: 0.7,
-    maxTokens: 1000,
-    configuration: {
-      baseURL: "https://generativelanguage.googleapis.com/v1beta/openai",
-    },
+  return new ChatGoogleGenerativeAI({
+    model: config.model,
+    temperature: config.temperature ?? 0.7,
+    maxOutputTokens: config.maxTokens ?? 1000,
     apiKey: config.apiKey || process.env.GOOGLE_API_KEY,
+    baseUrl: config.baseUrl?.replace(/\/v1(beta)?\/?$/, "") || undefined,
+  });
+}
+
+/**
+ * 创建 Azure OpenAI LLM
+ * baseUrl 为资源地址（如 https://<resource>.openai.azure.com），部署名称默认与模型名相同
+ */
+function createAzureLLM(config: UserModelConfig): BaseChatModel {
+  const endpoint = config.baseUrl || process.env.AZURE_OPENAI_ENDPOINT;
+  if (!endpoint) {
+    throw new Error("Azure OpenAI 需要配置资源地址");
+  }
+
+  return new AzureChatOpenAI({
+    model: config.model,
+    temperature: config.temperature ?? 0.7,
+    maxTokens: config.maxTokens ?? 1000,
+    azureOpenAIApiKey: config.apiKey || process.env.AZURE_OPENAI_API_KEY,
+    azureOpenAIEndpoint: endpoint,
+    azureOpenAIApiDeploymentName: config.azureDeployment || config.model,
+    azureOpenAIApiVersion: config.azureApiVersion || AZURE_DEFAULT_API_VERSION,
   });
 }
 
@@ -221,8 +426,8 @@ function createOpenAICompatibleLLM(config: UserModelConfig): BaseChatModel {
 
   return new ChatOpenAI({
     modelName: config.model,
-    temperature: 0.7,
-    maxTokens: 1000,
+    temperature: config.temperature ?? 0.7,
+    maxTokens: config.maxTokens ?? 1000,
     configuration: {
       baseURL: baseUrl,
     },
@@ -240,8 +445,8 @@ function createCustomLLM(config: UserModelConfig): BaseChatModel {
 
   return new ChatOpenAI({
     modelName: config.model,
-    temperature: 0.7,
-    maxTokens: 1000,
+    temperature: config.temperature ?? 0.7,
+    maxTokens: config.maxTokens ?? 1000,
     configuration: {
       baseURL: config.baseUrl,
     },
@@ -249,6 +454,46 @@ function createCustomLLM(config: UserModelConfig): BaseChatModel {
   });
 }
 
+// 原生支持 Function Calling 的服务商（OpenAI 兼容接口或原生 SDK）
+const TOOL_CALLING_PROVIDERS = new Set<UserModelConfig["provider"]>([
+  "openai",
+  "anthropic",
+  "google",
+  "azure",
+  "deepseek",
+  "mistral",
+  "groq",
+  "together",
+  "fireworks",
+  "moonshot",
+  "zhipu",
+  "siliconflow",
+  "openrouter",
+]);
+
+// 支持工具调用的 Ollama 模型系列
+const OLLAMA_TOOL_MODELS =
+  /llama3\.[1-9]|qwen2\.5|qwen3|mistral|mixtral|command-r|hermes3|firefunction/i;
+
+/**
+ * 判断模型是否支持原生工具调用（bindTools）
+ * 不支持的模型由调用方改用 JSON 协议描述工具调用
+ * 可以传入任务名，按该任务使用的模型判断
+ * 可通过 LLM_TOOL_CALLING=on|off 强制开启或关闭
+ */
+export function supportsToolCalling(target?: LLMTask | FallbackModelConfig): boolean {
+  const override = process.env.LLM_TOOL_CALLING;
+  if (override === "on") return true;
+  if (override === "off") return false;
+
+  const cfg =
+    typeof target === "object" ? target : resolveTaskConfig(getCurrentConfig(), target || "chat");
+  if (cfg.provider === "ollama") {
+    return OLLAMA_TOOL_MODELS.test(cfg.model);
+  }
+  return TOOL_CALLING_PROVIDERS.has(cfg.provider);
+}
+
 /**
  * 获取当前 LLM 信息
  */
@@ -0,0 +1,225 @@
+/**
+ * 服务商故障转移
+ * 主模型和备用模型包装成一个 BaseChatModel，调用失败时按顺序切换到下一个；
+ * 连续不可用的服务商暂时熔断，冷却后放行一次请求探测是否恢复
+ */
+
+import {
+  BaseChatModel,
+  type BaseChatModelCallOptions,
+  type BindToolsInput,
+} from "@langchain/core/language_models/chat_models";
+import type { BaseLanguageModelInput } from "@langchain/core/language_models/base";
+import type { CallbackManagerForLLMRun } from "@langchain/core/callbacks/manager";
+import type { AIMessageChunk, BaseMessage } from "@langchain/core/messages";
+import { ChatGenerationChunk, type ChatResult } from "@langchain/core/outputs";
+import { RunnableLambda, type Runnable } from "@langchain/core/runnables";
+import type { FallbackModelConfig } from "@/types/model-config";
+import { recordProviderFailure, recordProviderSuccess } from "./profiles";
+
+/**
+ * 故障转移链中的一个模型
+ */
+export interface FallbackEntry {
+  config: FallbackModelConfig;
+  model: Runnable<BaseLanguageModelInput, AIMessageChunk>;
+  supportsTools: boolean; // bindTools 时只保留支持工具调用的模型
+}
+
+// 内部模型继承当前运行上下文中的回调，打上该标记后 LangGraph messages 流会忽略它们，
+// 由外层模型统一转发输出，避免重复推送
+const NOSTREAM_TAG = "nostream";
+
+// ============ 熔断 ============
+
+interface CircuitState {
+  failures: number; // 连续失败次数
+  openUntil: number; // 熔断截止时间
+}
+
+const circuits = new Map<string, CircuitState>();
+
+function getCircuitOptions() {
+  return {
+    threshold: Number(process.env.LLM_CIRCUIT_FAILURES) || 3,
+    cooldownMs: Number(process.env.LLM_CIRCUIT_COOLDOWN_MS) || 60_000,
+  };
+}
+
+/**
+ * 熔断按服务商统计，配置了地址的（本地模型、自定义接口、代理）按地址区分
+ */
+function getCircuitKey(config: FallbackModelConfig): string {
+  const host = config.ollamaHost || config.baseUrl;
+  return host ? `${config.provider}@${host}` : config.provider;
+}
+
+export function isCircuitOpen(config: FallbackModelConfig): boolean {
+  const state = circuits.get(getCircuitKey(config));
+  return !!state && state.openUntil > Date.now();
+}
+
+/**
+ * 是否是服务商不可用导致的错误
+ * 认证失败、参数错误等 4xx 与服务商状态无关（可能只是某个档案的 Key 无效），不计入熔断
+ */
+function isUnavailableError(error: unknown): boolean {
+  if (error instanceof Error && error.name === "AbortError") return false;
+  const status = (error as { status?: number } | undefined)?.status;
+  return typeof status !== "number" || status === 408 || status === 429 || status >= 500;
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+function recordSuccess(config: FallbackModelConfig) {
+  circuits.delete(getCircuitKey(config));
+  recordProviderSuccess(config);
+}
+
+function recordFailure(config: FallbackModelConfig, error: unknown) {
+  recordProviderFailure(config, getErrorMessage(error));
+  console.warn(
+    `[LLM Fallback] ${config.provider} / ${config.model} failed:`,
+    getErrorMessage(error)
+  );
+  if (!isUnavailableError(error)) return;
+
+  const key = getCircuitKey(config);
+  const { threshold, cooldownMs } = getCircuitOptions();
+  const state = circuits.get(key) || { failures: 0, openUntil: 0 };
+  state.failures++;
+  if (state.failures >= threshold) {
+    state.openUntil = Date.now() + cooldownMs;
+    console.warn(
+      `[LLM Fallback] Circuit open for ${key} after ${state.failures} failures, retry in ${cooldownMs}ms`
+    );
+  }
+  circuits.set(key, state);
+}
+
+// ============ 故障转移模型 ============
+
+/**
+ * 按顺序尝试多个模型的 BaseChatModel
+ * invoke 使用 withFallbacks 串联各模型；流式输出在收到第一个分片前失败时切换模型，
+ * 开始输出后再失败则直接抛出
+ */
+export class FallbackChatModel extends BaseChatModel {
+  constructor(private readonly entries: FallbackEntry[]) {
+    super({});
+  }
+
+  static lc_name() {
+    return "FallbackChatModel";
+  }
+
+  _llmType(): string {
+    return "fallback";
+  }
+
+  /**
+   * 跳过熔断中的模型；全部熔断时仍按原顺序尝试
+   */
+  private getCandidates(): FallbackEntry[] {
+    const available = this.entries.filter((entry) => {
+      if (!isCircuitOpen(entry.config)) return true;
+      recordProviderFailure(entry.config, "circuit open");
+      return false;
+    });
+    return available.length > 0 ? available : this.entries;
+  }
+
+  async _generate(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"]
+  ): Promise<ChatResult> {
+    const [first, ...rest] = this.getCandidates().map((entry) =>
+      RunnableLambda.from(async (input: BaseMessage[], config) => {
+        try {
+          const output = await entry.model.invoke(input, {
+            ...options,
+            callbacks: config?.callbacks,
+          });
+          recordSuccess(entry.config);
+          return output;
+        } catch (error) {
+          recordFailure(entry.config, error);
+          throw error;
+        }
+      })
+    );
+
+    const message = await first.withFallbacks(rest).invoke(messages, {
+      tags: [NOSTREAM_TAG],
+      signal: options.signal,
+    });
+    return {
+      generations: [{ text: typeof message.content === "string" ? message.content : "", message }],
+    };
+  }
+
+  async *_streamResponseChunks(
+    messages: BaseMessage[],
+    options: this["ParsedCallOptions"],
+    runManager?: CallbackManagerForLLMRun
+  ): AsyncGenerator<ChatGenerationChunk> {
+    let firstError: unknown;
+
+    for (const entry of this.getCandidates()) {
+      options.signal?.throwIfAborted();
+
+      let iterator: AsyncIterator<AIMessageChunk>;
+      let result: IteratorResult<AIMessageChunk>;
+      try {
+        const stream = await entry.model.stream(messages, { ...options, tags: [NOSTREAM_TAG] });
+        iterator = stream[Symbol.asyncIterator]();
+        result = await iterator.next();
+      } catch (error) {
+        recordFailure(entry.config, error);
+        firstError ??= error;
+        continue;
+      }
+
+      recordSuccess(entry.config);
+      for (; !result.done; result = await iterator.next()) {
+        const message = result.value;
+        const text = typeof message.content === "string" ? message.content : "";
+        const chunk = new ChatGenerationChunk({ message, text });
+        yield chunk;
+        await runManager?.handleLLMNewToken(text, undefined, undefined, undefined, undefined, {
+          chunk,
+        });
+      }
+      return;
+    }
+
+    throw firstError ?? new Error("No model available");
+  }
+
+  bindTools(
+    tools: BindToolsInput[],
+    kwargs?: Partial<BaseChatModelCallOptions>
+  ): Runnable<BaseLanguageModelInput, AIMessageChunk, BaseChatModelCallOptions> {
+    const entries = this.entries.flatMap((entry) => {
+      const model = entry.model as BaseChatModel;
+      return entry.supportsTools && model.bindTools
+        ? [{ ...entry, model: model.bindTools(tools, kwargs) }]
+        : [];
+    });
+    if (entries.length === 0) {
+      throw new Error("No model in the fallback chain supports tool calling");
+    }
+    return new FallbackChatModel(entries);
+  }
+}
+
+/**
+ * 创建故障转移模型，只有一个模型时直接返回该模型
+ */
+export function createFallbackChatModel(entries: FallbackEntry[]): BaseChatModel {
+  return entries.length === 1
+    ? (entries[0].model as BaseChatModel)
+    : new FallbackChatModel(entries);
+}
@@ -0,0 +1,288 @@
+/**
+ * 模型配置档案
+ * 每个浏览器会话对应一个档案（cookie 中的档案 ID），模型配置按档案保存在服务端；
+ * 路由处理函数通过 withModelProfile 包装后，createLLM 会使用当前请求所属档案的配置
+ */
+
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import {
+  getProviderConfig,
+  type FallbackModelConfig,
+  type LLMProvider,
+  type LLMTask,
+  type UserModelConfig,
+} from "@/types/model-config";
+import { deleteApiKey, resolveApiKey, saveApiKey, type ApiKeySummary } from "./secrets";
+import { createRecordStoreFromEnv, type RecordStore } from "./store";
+import type { UsageRecord } from "./usage";
+
+// 保存档案 ID 的 cookie，一年有效
+export const PROFILE_COOKIE = "bookfinder-profile";
+const PROFILE_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+const PROFILE_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+/**
+ * 档案中保存的配置（API Key 只保存加密后的 Key ID，见 ./secrets）
+ */
+export interface ModelProfile {
+  config: UserModelConfig;
+  updatedAt: number;
+}
+
+let profileStore: RecordStore<ModelProfile> | null = null;
+
+/**
+ * 获取共享的档案存储
+ * 通过 MODEL_PROFILE_BACKEND 选择后端（memory | file），serverless 环境默认使用内存
+ */
+export function getProfileStore(): RecordStore<ModelProfile> {
+  if (!profileStore) {
+    profileStore = createRecordStoreFromEnv<ModelProfile>({
+      envPrefix: "MODEL_PROFILE",
+      defaultFile: "model-profiles.json",
+      label: "Profiles",
+    });
+  }
+  return profileStore;
+}
+
+/**
+ * 替换档案存储后端
+ */
+export function setProfileStore(store: RecordStore<ModelProfile>) {
+  profileStore = store;
+}
+
+/**
+ * 加密保存配置中的明文 API Key，返回只带 Key ID 的配置
+ */
+async function storeApiKey<T extends { apiKey?: string; apiKeyId?: string }>(
+  profileId: string,
+  provider: LLMProvider,
+  config: T
+): Promise<{ config: T; key?: ApiKeySummary }> {
+  const { apiKey, ...rest } = config;
+  if (!apiKey) return { config: rest as T };
+  const key = await saveApiKey(profileId, provider, apiKey);
+  return { config: { ...rest, apiKeyId: key.keyId } as T, key };
+}
+
+/**
+ * 配置（包括备用模型和任务模型）引用的所有 Key ID
+ */
+function getKeyIds(config: UserModelConfig | undefined): Set<string> {
+  if (!config) return new Set();
+  return new Set(
+    [config, ...(config.fallbacks || []), ...Object.values(config.tasks || {})]
+      .map((item) => item.apiKeyId)
+      .filter((keyId): keyId is string => Boolean(keyId))
+  );
+}
+
+/**
+ * 保存档案配置
+ * 配置（包括备用模型和任务模型）中带有明文 API Key 时先加密保存，档案中只记录 Key ID
+ */
+export async function saveProfileConfig(
+  profileId: string,
+  config: UserModelConfig
+): Promise<{ profile: ModelProfile; key?: ApiKeySummary }> {
+  // 之前档案引用的 Key 和本次提交时引用的 Key（可能被新的明文 Key 替换）
+  const previous = (await getProfileStore().get(profileId))?.config;
+  const candidates = new Set([...getKeyIds(previous), ...getKeyIds(config)]);
+
+  const { config: stored, key } = await storeApiKey(profileId, config.provider, config);
+  if (config.fallbacks?.length) {
+    stored.fallbacks = [];
+    for (const fallback of config.fallbacks) {
+      stored.fallbacks.push((await storeApiKey(profileId, fallback.provider, fallback)).config);
+    }
+  }
+  if (config.tasks) {
+    stored.tasks = {};
+    for (const [task, taskConfig] of Object.entries(config.tasks)) {
+      const provider = taskConfig.provider || config.provider;
+      stored.tasks[task as LLMTask] = (await storeApiKey(profileId, provider, taskConfig)).config;
+    }
+  }
+
+  const profile = { config: stored, updatedAt: Date.now() };
+  await getProfileStore().set(profileId, profile);
+
+  // 删除不再被任何配置项引用的 Key（被替换、所在的备用模型或任务配置被删除、更换了服务商）
+  const inUse = getKeyIds(stored);
+  for (const keyId of candidates) {
+    if (!inUse.has(keyId)) await deleteApiKey(profileId, keyId);
+  }
+  return { profile, key };
+}
+
+function getOrigin(url: string | undefined): string | undefined {
+  try {
+    return url ? new URL(url).origin : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 已保存的 Key 能否发送到请求中的地址：只允许服务商默认地址，或档案中与该 Key 一起保存的地址
+ * 其他地址需要客户端重新提交明文 Key，避免已保存的 Key 被发往任意地址；明文 Key 或没有 Key ID 时不限制
+ */
+export async function canUseStoredKey(
+  profileId: string | undefined,
+  config: { provider: LLMProvider; apiKey?: string; apiKeyId?: string; baseUrl?: string }
+): Promise<boolean> {
+  const { provider, apiKey, apiKeyId, baseUrl } = config;
+  if (apiKey || !apiKeyId || !profileId || !baseUrl) return true;
+
+  const origin = getOrigin(baseUrl);
+  if (!origin) return false;
+  if (origin === getOrigin(getProviderConfig(provider)?.baseUrl)) return true;
+
+  const saved = (await getProfileStore().get(profileId))?.config;
+  if (!saved) return false;
+  return [saved, ...(saved.fallbacks || []), ...Object.values(saved.tasks || {})].some(
+    (item) => item.apiKeyId === apiKeyId && getOrigin(item.baseUrl) === origin
+  );
+}
+
+/**
+ * 从请求 cookie 中读取档案 ID，格式不正确时视为没有档案
+ */
+export function getProfileId(request: Request): string | undefined {
+  const cookies = request.headers.get("cookie") || "";
+  for (const part of cookies.split(";")) {
+    const [name, ...value] = part.trim().split("=");
+    if (name === PROFILE_COOKIE) {
+      const profileId = decodeURIComponent(value.join("="));
+      return PROFILE_ID_PATTERN.test(profileId) ? profileId : undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * 读取档案 ID，没有时生成新的档案 ID（isNew 为 true 时调用方需写入 cookie）
+ */
+export function getOrCreateProfileId(request: Request): { profileId: string; isNew: boolean } {
+  const profileId = getProfileId(request);
+  return profileId ? { profileId, isNew: false } : { profileId: randomUUID(), isNew: true };
+}
+
+/**
+ * 写入档案 ID cookie 的参数
+ */
+export function getProfileCookie(profileId: string) {
+  return {
+    name: PROFILE_COOKIE,
+    value: profileId,
+    httpOnly: true,
+    sameSite: "lax" as const,
+    path: "/",
+    maxAge: PROFILE_COOKIE_MAX_AGE,
+  };
+}
+
+/**
+ * 本次请求中各服务商的调用情况，随 API 响应返回
+ */
+export interface ProviderReport {
+  active?: { provider: string; model: string }; // 最近一次成功响应的模型
+  failed: Array<{ provider: string; model: string; error: string }>;
+}
+
+/**
+ * 当前请求的模型上下文
+ */
+interface ModelRequestContext {
+  profileId?: string;
+  config?: UserModelConfig;
+  report: ProviderReport;
+  usage: UsageRecord[];
+}
+
+const requestContext = new AsyncLocalStorage<ModelRequestContext>();
+
+/**
+ * 在档案上下文中执行，期间创建的 LLM 都使用该档案的配置
+ * 档案没有保存配置时使用环境变量配置
+ */
+export async function runWithModelProfile<T>(
+  profileId: string | undefined,
+  fn: () => Promise<T>
+): Promise<T> {
+  const profile = profileId ? await getProfileStore().get(profileId) : undefined;
+  const config = profile && (await resolveApiKey(profileId!, profile.config));
+  return requestContext.run({ profileId, config, report: { failed: [] }, usage: [] }, fn);
+}
+
+/**
+ * 当前请求所属档案的模型配置，不在请求上下文中或档案没有配置时为空
+ */
+export function getRequestModelConfig(): UserModelConfig | undefined {
+  return requestContext.getStore()?.config;
+}
+
+/**
+ * 记录服务商调用成功
+ */
+export function recordProviderSuccess(config: FallbackModelConfig) {
+  const report = requestContext.getStore()?.report;
+  if (report) {
+    report.active = { provider: config.provider, model: config.model };
+  }
+}
+
+/**
+ * 记录服务商调用失败（同一模型只记录第一次）
+ */
+export function recordProviderFailure(config: FallbackModelConfig, error: string) {
+  const report = requestContext.getStore()?.report;
+  if (
+    report &&
+    !report.failed.some((f) => f.provider === config.provider && f.model === config.model)
+  ) {
+    report.failed.push({ provider: config.provider, model: config.model, error });
+  }
+}
+
+/**
+ * 当前请求的服务商调用情况，请求中没有调用 LLM 时为空
+ */
+export function getProviderReport(): ProviderReport | undefined {
+  const report = requestContext.getStore()?.report;
+  return report && (report.active || report.failed.length > 0) ? report : undefined;
+}
+
+/**
+ * 当前请求的档案 ID 和用量记录（见 ./usage），不在请求上下文中时为空
+ */
+export function getUsageScope(): { profileId?: string; usage: UsageRecord[] } | undefined {
+  const context = requestContext.getStore();
+  return context && { profileId: context.profileId, usage: context.usage };
+}
+
+/**
+ * 包装路由处理函数，按请求 cookie 中的档案解析模型配置
+ * 没有档案时创建新的档案 ID 并写入响应 cookie，用于按会话统计用量
+ */
+export function withModelProfile<Req extends Request, Args extends unknown[], R>(
+  handler: (request: Req, ...args: Args) => Promise<R>
+): (request: Req, ...args: Args) => Promise<R> {
+  return async (request, ...args) => {
+    const { profileId, isNew } = getOrCreateProfileId(request);
+    const response = await runWithModelProfile(profileId, () => handler(request, ...args));
+    if (isNew && response instanceof Response) {
+      response.headers.append("Set-Cookie", serializeProfileCookie(profileId));
+    }
+    return response;
+  };
+}
+
+function serializeProfileCookie(profileId: string): string {
+  const { name, value, path, maxAge } = getProfileCookie(profileId);
+  return `${name}=${value}; Path=${path}; Max-Age=${maxAge}; HttpOnly; SameSite=Lax`;
+}
@@ -0,0 +1,227 @@
+/**
+ * API Key 加密存储
+ * Key 用本地主密钥（AES-256-GCM）加密后保存在服务端，客户端只持有不透明的 Key ID；
+ * Key ID 归属于保存它的档案，其他档案无法使用
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes, randomUUID } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import type { LLMProvider, LLMTask, UserModelConfig } from "@/types/model-config";
+import { createRecordStoreFromEnv, type RecordStore } from "./store";
+
+/**
+ * 加密后的 API Key
+ */
+interface EncryptedApiKey {
+  profileId: string;
+  provider: LLMProvider;
+  iv: string; // base64
+  tag: string; // base64
+  data: string; // base64
+  hint: string; // 末尾几位，用于界面展示
+  createdAt: number;
+}
+
+/**
+ * 返回给客户端的 Key 信息（不含 Key 本身）
+ */
+export interface ApiKeySummary {
+  keyId: string;
+  provider: LLMProvider;
+  hint: string;
+  createdAt: number;
+}
+
+const ALGORITHM = "aes-256-gcm";
+const KEY_ID_PATTERN = /^key_[A-Za-z0-9-]{36}$/;
+
+let keyStore: RecordStore<EncryptedApiKey> | null = null;
+let masterKeyPromise: Promise<Buffer> | null = null;
+
+/**
+ * 获取共享的 Key 存储
+ * 通过 MODEL_KEY_BACKEND 选择后端（memory | file），serverless 环境默认使用内存
+ */
+function getKeyStore(): RecordStore<EncryptedApiKey> {
+  if (!keyStore) {
+    keyStore = createRecordStoreFromEnv<EncryptedApiKey>({
+      envPrefix: "MODEL_KEY",
+      defaultFile: "api-keys.json",
+      label: "Secrets",
+    });
+  }
+  return keyStore;
+}
+
+/**
+ * 本地主密钥
+ * 优先使用 MODEL_KEY_SECRET（任意字符串，SHA-256 后作为密钥）；
+ * 否则读取 MODEL_KEY_MASTER_FILE（默认 .cache/master.key），不存在时生成并以 0600 权限保存
+ */
+function getMasterKey(): Promise<Buffer> {
+  if (!masterKeyPromise) {
+    masterKeyPromise = loadMasterKey().catch((error) => {
+      masterKeyPromise = null;
+      throw error;
+    });
+  }
+  return masterKeyPromise;
+}
+
+async function loadMasterKey(): Promise<Buffer> {
+  const secret = process.env.MODEL_KEY_SECRET;
+  if (secret) {
+    return createHash("sha256").update(secret).digest();
+  }
+
+  // serverless 环境没有持久化文件，Key 存储也在内存中，使用进程内随机密钥
+  if (process.env.VERCEL) {
+    return randomBytes(32);
+  }
+
+  const filePath = process.env.MODEL_KEY_MASTER_FILE || join(process.cwd(), ".cache", "master.key");
+  try {
+    const key = Buffer.from((await readFile(filePath, "utf-8")).trim(), "base64");
+    if (key.length !== 32) {
+      throw new Error(`Invalid master key in ${filePath}`);
+    }
+    return key;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+
+    const key = randomBytes(32);
+    await mkdir(dirname(filePath), { recursive: true });
+    // wx：多个进程同时生成时只有一个能写入，其余重新读取
+    try {
+      await writeFile(filePath, key.toString("base64"), { mode: 0o600, flag: "wx" });
+      console.log(`[Secrets] Generated master key at ${filePath}`);
+      return key;
+    } catch (writeError) {
+      if ((writeError as NodeJS.ErrnoException).code !== "EEXIST") throw writeError;
+      return Buffer.from((await readFile(filePath, "utf-8")).trim(), "base64");
+    }
+  }
+}
+
+function getKeyHint(apiKey: string): string {
+  return apiKey.length > 8 ? `••••${apiKey.slice(-4)}` : "••••";
+}
+
+/**
+ * 加密保存 API Key，返回 Key ID
+ */
+export async function saveApiKey(
+  profileId: string,
+  provider: LLMProvider,
+  apiKey: string
+): Promise<ApiKeySummary> {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv(ALGORITHM, await getMasterKey(), iv);
+  const data = Buffer.concat([cipher.update(apiKey, "utf8"), cipher.final()]);
+
+  const keyId = `key_${randomUUID()}`;
+  const record: EncryptedApiKey = {
+    profileId,
+    provider,
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+    hint: getKeyHint(apiKey),
+    createdAt: Date.now(),
+  };
+  await getKeyStore().set(keyId, record);
+
+  console.log(`[Secrets] Saved ${provider} key ${keyId} for profile ${profileId}`);
+  return { keyId, provider, hint: record.hint, createdAt: record.createdAt };
+}
+
+/**
+ * 查找属于该档案的 Key
+ */
+async function getOwnedKey(profileId: string, keyId: string): Promise<EncryptedApiKey | undefined> {
+  if (!KEY_ID_PATTERN.test(keyId)) return undefined;
+  const record = await getKeyStore().get(keyId);
+  return record?.profileId === profileId ? record : undefined;
+}
+
+/**
+ * 解密 Key，Key 不存在、不属于该档案或无法解密时返回 undefined
+ */
+export async function decryptApiKey(profileId: string, keyId: string): Promise<string | undefined> {
+  const record = await getOwnedKey(profileId, keyId);
+  if (!record) return undefined;
+
+  try {
+    const decipher = createDecipheriv(
+      ALGORITHM,
+      await getMasterKey(),
+      Buffer.from(record.iv, "base64")
+    );
+    decipher.setAuthTag(Buffer.from(record.tag, "base64"));
+    return Buffer.concat([
+      decipher.update(Buffer.from(record.data, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch (error) {
+    // 主密钥变更后旧 Key 无法解密
+    console.warn(`[Secrets] Failed to decrypt ${keyId}:`, error);
+    return undefined;
+  }
+}
+
+/**
+ * Key 是否属于该档案
+ */
+export async function hasApiKey(profileId: string, keyId: string): Promise<boolean> {
+  return Boolean(await getOwnedKey(profileId, keyId));
+}
+
+/**
+ * 列出档案保存的 Key
+ */
+export async function listApiKeys(profileId: string): Promise<ApiKeySummary[]> {
+  return (await getKeyStore().entries())
+    .filter(([, record]) => record.profileId === profileId)
+    .map(([keyId, { provider, hint, createdAt }]) => ({ keyId, provider, hint, createdAt }));
+}
+
+/**
+ * 删除档案的 Key
+ */
+export async function deleteApiKey(profileId: string, keyId: string): Promise<boolean> {
+  if (!(await getOwnedKey(profileId, keyId))) return false;
+  await getKeyStore().delete(keyId);
+  return true;
+}
+
+async function resolveOne<T extends { apiKey?: string; apiKeyId?: string }>(
+  profileId: string,
+  config: T
+): Promise<T> {
+  if (config.apiKey || !config.apiKeyId) return config;
+  const apiKey = await decryptApiKey(profileId, config.apiKeyId);
+  return apiKey ? { ...config, apiKey } : config;
+}
+
+/**
+ * 用 Key ID 补全配置（包括备用模型和任务模型）中的 API Key（仅在内存中使用，不会写回存储）
+ */
+export async function resolveApiKey(
+  profileId: string | undefined,
+  config: UserModelConfig
+): Promise<UserModelConfig> {
+  if (!profileId) return config;
+  // 复制一份，避免把解密后的 Key 写进档案存储中的对象
+  const resolved = { ...(await resolveOne(profileId, config)) };
+  if (config.fallbacks?.length) {
+    resolved.fallbacks = await Promise.all(config.fallbacks.map((f) => resolveOne(profileId, f)));
+  }
+  if (config.tasks) {
+    resolved.tasks = {};
+    for (const [task, taskConfig] of Object.entries(config.tasks)) {
+      resolved.tasks[task as LLMTask] = await resolveOne(profileId, taskConfig);
+    }
+  }
+  return resolved;
+}
@@ -0,0 +1,112 @@
+/**
+ * 模型配置相关的服务端存储
+ * 按 ID 保存 JSON 记录，文件后端首次访问时加载、修改后延迟落盘
+ */
+
+import { join } from "node:path";
+import { createJsonFilePersistence } from "@/lib/json-file";
+
+export interface RecordStore<T> {
+  readonly backend: "memory" | "file";
+  get(id: string): Promise<T | undefined>;
+  set(id: string, value: T): Promise<void>;
+  delete(id: string): Promise<void>;
+  entries(): Promise<Array<[string, T]>>;
+}
+
+/**
+ * 内存存储
+ */
+export function createMemoryRecordStore<T>(): RecordStore<T> {
+  const records = new Map<string, T>();
+
+  return {
+    backend: "memory",
+    async get(id) {
+      return records.get(id);
+    },
+    async set(id, value) {
+      records.set(id, value);
+    },
+    async delete(id) {
+      records.delete(id);
+    },
+    async entries() {
+      return [...records.entries()];
+    },
+  };
+}
+
+/**
+ * 文件持久化存储
+ * @param label 日志前缀，如 "Profiles"
+ */
+export function createFileRecordStore<T>(options: {
+  filePath: string;
+  label: string;
+  flushDelayMs?: number;
+}): RecordStore<T> {
+  const { filePath, label, flushDelayMs = 200 } = options;
+  const records = new Map<string, T>();
+
+  const { ensureLoaded, scheduleFlush } = createJsonFilePersistence<Record<string, T>>({
+    filePath,
+    label,
+    flushDelayMs,
+    load: (stored) => {
+      for (const [id, value] of Object.entries(stored)) {
+        records.set(id, value);
+      }
+      return records.size;
+    },
+    snapshot: () => Object.fromEntries(records),
+    // 可能保存加密的 API Key，只允许当前用户读写
+    fileMode: 0o600,
+  });
+
+  return {
+    backend: "file",
+    async get(id) {
+      await ensureLoaded();
+      return records.get(id);
+    },
+    async set(id, value) {
+      await ensureLoaded();
+      records.set(id, value);
+      scheduleFlush();
+    },
+    async delete(id) {
+      await ensureLoaded();
+      records.delete(id);
+      scheduleFlush();
+    },
+    async entries() {
+      await ensureLoaded();
+      return [...records.entries()];
+    },
+  };
+}
+
+/**
+ * 按环境变量创建存储
+ * <PREFIX>_BACKEND 选择后端（memory | file，serverless 环境默认内存），<PREFIX>_FILE 指定文件路径
+ */
+export function createRecordStoreFromEnv<T>(options: {
+  envPrefix: string;
+  defaultFile: string;
+  label: string;
+}): RecordStore<T> {
+  const { envPrefix, defaultFile, label } = options;
+  const backend = process.env[`${envPrefix}_BACKEND`] || (process.env.VERCEL ? "memory" : "file");
+
+  const store =
+    backend === "file"
+      ? createFileRecordStore<T>({
+          filePath: process.env[`${envPrefix}_FILE`] || join(process.cwd(), ".cache", defaultFile),
+          label,
+        })
+      : createMemoryRecordStore<T>();
+
+  console.log(`[${label}] Using ${store.backend} backend`);
+  return store;
+}
@@ -0,0 +1,150 @@
+/**
+ * 结构化输出
+ * 用 zod schema 约束 LLM 返回的 JSON，解析或校验失败时带上错误信息重新提问
+ */
+
+import { AIMessage, BaseMessage, HumanMessage } from "@langchain/core/messages";
+import { BaseChatModel } from "@langchain/core/language_models/chat_models";
+import { z } from "zod";
+import type { LLMTask } from "@/types/model-config";
+import { supportsToolCalling } from "./factory";
+
+/**
+ * 结构化调用选项
+ */
+export interface StructuredOutputOptions {
+  name: string; // schema 名称，用于 withStructuredOutput 和日志
+  task?: LLMTask; // 创建 llm 时使用的任务，用于判断该任务的模型是否支持工具调用
+  maxRetries?: number; // 校验失败后的最大修复次数
+}
+
+/**
+ * 结构化输出失败（多次修复后仍无法通过校验）
+ */
+export class StructuredOutputError extends Error {
+  constructor(
+    readonly schemaName: string,
+    readonly lastOutput: string,
+    readonly issues: string
+  ) {
+    super(`${schemaName} 结构化输出校验失败: ${issues}`);
+    this.name = "StructuredOutputError";
+  }
+}
+
+/**
+ * 从模型回复中提取 JSON 文本
+ * 兼容 markdown 代码块和 JSON 前后的说明文字
+ */
+export function extractJson(content: string): string {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const text = (fenced ? fenced[1] : content).trim();
+
+  const start = text.search(/[{[]/);
+  if (start === -1) return text;
+
+  const end = Math.max(text.lastIndexOf("}"), text.lastIndexOf("]"));
+  return end > start ? text.slice(start, end + 1) : text.slice(start);
+}
+
+/**
+ * 解析并校验 JSON，失败时返回可以反馈给模型的错误描述
+ */
+export function parseStructured<T extends z.ZodType>(
+  schema: T,
+  content: string
+): { success: true; data: z.infer<T> } | { success: false; error: string } {
+  let json: unknown;
+  try {
+    json = JSON.parse(extractJson(content));
+  } catch (error) {
+    return {
+      success: false,
+      error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`,
+    };
+  }
+
+  const result = schema.safeParse(json);
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return { success: false, error: z.prettifyError(result.error) };
+}
+
+function toMessages(input: string | BaseMessage[]): BaseMessage[] {
+  return typeof input === "string" ? [new HumanMessage(input)] : input;
+}
+
+function contentToString(message: BaseMessage): string {
+  return typeof message.content === "string"
+    ? message.content
+    : message.content
+        .map((part) => ("text" in part && typeof part.text === "string" ? part.text : ""))
+        .join("");
+}
+
+/**
+ * 调用 LLM 并返回通过 schema 校验的结果
+ * 支持工具调用的服务商优先使用 withStructuredOutput；
+ * 其余情况（或 withStructuredOutput 失败）解析文本回复，校验失败时把错误发回给模型修复
+ */
+export async function invokeStructured<T extends z.ZodType>(
+  llm: BaseChatModel,
+  input: string | BaseMessage[],
+  schema: T,
+  options: StructuredOutputOptions
+): Promise<z.infer<T>> {
+  const { name, task, maxRetries = 2 } = options;
+  const messages = toMessages(input);
+
+  if (supportsToolCalling(task)) {
+    try {
+      const structured = llm.withStructuredOutput(schema as z.ZodType<Record<string, unknown>>, {
+        name,
+      });
+      const output = await structured.invoke(messages);
+      // 部分服务商不做校验，这里再校验一次
+      const result = schema.safeParse(output);
+      if (result.success) {
+        return result.data;
+      }
+      console.warn(`[Structured] ${name} failed validation, falling back to JSON parsing`);
+    } catch (error) {
+      console.warn(
+        `[Structured] ${name} withStructuredOutput failed, falling back to JSON parsing:`,
+        error instanceof Error ? error.message : error
+      );
+    }
+  }
+
+  const conversation = [...messages];
+  let lastOutput = "";
+  let lastError = "";
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const response = await llm.invoke(conversation);
+    lastOutput = contentToString(response);
+
+    const result = parseStructured(schema, lastOutput);
+    if (result.success) {
+      if (attempt > 0) {
+        console.log(`[Structured] ${name} repaired after ${attempt} retries`);
+      }
+      return result.data;
+    }
+
+    lastError = result.error;
+    console.warn(`[Structured] ${name} attempt ${attempt + 1} invalid: ${lastError}`);
+
+    // 带上校验错误重新提问
+    conversation.push(
+      new AIMessage(lastOutput),
+      new HumanMessage(
+        `Your previous response could not be parsed:\n${lastError}\n\n` +
+          "Reply again with ONLY the corrected JSON, no markdown fences or extra text."
+      )
+    );
+  }
+
+  throw new StructuredOutputError(name, lastOutput, lastError);
+}
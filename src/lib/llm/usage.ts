@@ -0,0 +1,235 @@
+/**
+ * Token 用量与费用统计
+ * createLLM 为每个模型挂上回调，记录每次调用的输入/输出 Token；
+ * 用量按 API 请求汇总（随响应返回），并按会话（档案）累计保存在服务端
+ */
+
+import { BaseCallbackHandler } from "@langchain/core/callbacks/base";
+import type { AIMessage } from "@langchain/core/messages";
+import type { ChatGeneration, LLMResult } from "@langchain/core/outputs";
+import { getModelInfo, type FallbackModelConfig, type LLMTask } from "@/types/model-config";
+import { getUsageScope } from "./profiles";
+import { createRecordStoreFromEnv, type RecordStore } from "./store";
+
+/**
+ * 单次 LLM 调用的用量
+ */
+export interface UsageRecord {
+  provider: string;
+  model: string;
+  task: LLMTask;
+  inputTokens: number;
+  outputTokens: number;
+  cost?: number; // 美元，没有价格信息时为空
+}
+
+/**
+ * 用量合计
+ */
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // 有价格信息的调用的费用合计（美元）
+  unpricedCalls: number; // 没有价格信息、未计入费用的调用次数
+}
+
+/**
+ * 用量汇总，按模型分别统计
+ */
+export interface UsageSummary extends UsageTotals {
+  byModel: Array<UsageTotals & { provider: string; model: string }>;
+}
+
+/**
+ * 会话累计用量
+ */
+export interface SessionUsage extends UsageSummary {
+  since: number;
+  updatedAt: number;
+}
+
+let sessionStore: RecordStore<SessionUsage> | null = null;
+
+/**
+ * 获取会话用量存储
+ * 通过 MODEL_USAGE_BACKEND 选择后端（memory | file），serverless 环境默认使用内存
+ */
+function getSessionStore(): RecordStore<SessionUsage> {
+  if (!sessionStore) {
+    sessionStore = createRecordStoreFromEnv<SessionUsage>({
+      envPrefix: "MODEL_USAGE",
+      defaultFile: "model-usage.json",
+      label: "Usage",
+    });
+  }
+  return sessionStore;
+}
+
+/**
+ * 按 ModelInfo.pricing（每 1M Tokens 的美元价格）计算费用
+ * 本地模型和免费模型费用为 0，价格未知时返回 undefined
+ */
+export function calculateCost(
+  config: Pick<FallbackModelConfig, "provider" | "model">,
+  inputTokens: number,
+  outputTokens: number
+): number | undefined {
+  if (config.provider === "ollama") return 0;
+
+  const info = getModelInfo(config.provider, config.model);
+  if (info?.isFree) return 0;
+  if (!info?.pricing) return undefined;
+  return (inputTokens * info.pricing.input + outputTokens * info.pricing.output) / 1_000_000;
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpricedCalls: 0 };
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord) {
+  totals.calls++;
+  totals.inputTokens += record.inputTokens;
+  totals.outputTokens += record.outputTokens;
+  if (record.cost === undefined) {
+    totals.unpricedCalls++;
+  } else {
+    totals.cost += record.cost;
+  }
+}
+
+function addToSummary(summary: UsageSummary, record: UsageRecord) {
+  addToTotals(summary, record);
+  let model = summary.byModel.find(
+    (m) => m.provider === record.provider && m.model === record.model
+  );
+  if (!model) {
+    model = { provider: record.provider, model: record.model, ...emptyTotals() };
+    summary.byModel.push(model);
+  }
+  addToTotals(model, record);
+}
+
+/**
+ * 汇总多次调用的用量
+ */
+export function summarizeUsage(records: UsageRecord[]): UsageSummary {
+  const summary: UsageSummary = { ...emptyTotals(), byModel: [] };
+  for (const record of records) {
+    addToSummary(summary, record);
+  }
+  return summary;
+}
+
+/**
+ * 从模型输出中读取 Token 用量
+ * 优先使用消息上的 usage_metadata，其次是 llmOutput 中的 tokenUsage（各 SDK 格式不同）
+ */
+function getTokenUsage(output: LLMResult): { inputTokens: number; outputTokens: number } {
+  const message = (output.generations[0]?.[0] as ChatGeneration | undefined)?.message as
+    | AIMessage
+    | undefined;
+  if (message?.usage_metadata) {
+    return {
+      inputTokens: message.usage_metadata.input_tokens,
+      outputTokens: message.usage_metadata.output_tokens,
+    };
+  }
+
+  const tokenUsage = output.llmOutput?.tokenUsage || output.llmOutput?.estimatedTokenUsage;
+  return {
+    inputTokens: tokenUsage?.promptTokens || 0,
+    outputTokens: tokenUsage?.completionTokens || 0,
+  };
+}
+
+/**
+ * 记录用量的回调
+ * 创建时绑定当前请求，回调在后台执行时也能记录到正确的请求和会话
+ */
+class UsageCallbackHandler extends BaseCallbackHandler {
+  name = "usage";
+  // 等回调执行完再返回，保证响应中的用量包含本次调用
+  awaitHandlers = true;
+
+  private readonly scope = getUsageScope();
+
+  constructor(
+    private readonly config: FallbackModelConfig,
+    private readonly task: LLMTask
+  ) {
+    super();
+  }
+
+  async handleLLMEnd(output: LLMResult) {
+    const { inputTokens, outputTokens } = getTokenUsage(output);
+    const record: UsageRecord = {
+      provider: this.config.provider,
+      model: this.config.model,
+      task: this.task,
+      inputTokens,
+      outputTokens,
+      cost: calculateCost(this.config, inputTokens, outputTokens),
+    };
+
+    console.log(
+      `[Usage] ${record.task} ${record.provider}/${record.model}: ${inputTokens} in, ${outputTokens} out`
+    );
+    if (!this.scope) return;
+
+    this.scope.usage.push(record);
+    if (this.scope.profileId) {
+      await addSessionUsage(this.scope.profileId, record);
+    }
+  }
+}
+
+/**
+ * 创建记录用量的回调，在 createLLM 中挂到每个模型上
+ */
+export function createUsageHandler(
+  config: FallbackModelConfig,
+  task: LLMTask
+): BaseCallbackHandler {
+  return new UsageCallbackHandler(config, task);
+}
+
+/**
+ * 当前请求的用量汇总，请求中没有调用 LLM 时为空
+ */
+export function getRequestUsage(): UsageSummary | undefined {
+  const records = getUsageScope()?.usage;
+  return records && records.length > 0 ? summarizeUsage(records) : undefined;
+}
+
+async function addSessionUsage(profileId: string, record: UsageRecord) {
+  try {
+    const store = getSessionStore();
+    const now = Date.now();
+    const usage = (await store.get(profileId)) || {
+      ...emptyTotals(),
+      byModel: [],
+      since: now,
+      updatedAt: now,
+    };
+    addToSummary(usage, record);
+    usage.updatedAt = now;
+    await store.set(profileId, usage);
+  } catch (error) {
+    console.warn("[Usage] Failed to update session usage:", error);
+  }
+}
+
+/**
+ * 会话累计用量
+ */
+export async function getSessionUsage(profileId: string): Promise<SessionUsage | undefined> {
+  return getSessionStore().get(profileId);
+}
+
+/**
+ * 清零会话用量
+ */
+export async function resetSessionUsage(profileId: string): Promise<void> {
+  await getSessionStore().delete(profileId);
+}
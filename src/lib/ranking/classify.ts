@@ -0,0 +1,178 @@
+import { z } from "zod";
+import type { Book, BookClassification } from "@/types/book";
+import { createLLM } from "@/lib/llm/factory";
+import { invokeStructured } from "@/lib/llm/structured";
+
+type Level = NonNullable<BookClassification["level"]>;
+type BookType = NonNullable<BookClassification["bookType"]>;
+
+// 标题中的难度信号
+const LEVEL_PATTERNS: Array<[Level, RegExp]> = [
+  [
+    "beginner",
+    /入门|初学|零基础|新手|从零|快速上手|小白|for beginners|beginner|for dummies|getting started|crash course|first steps|head first|\bprimer\b|\bbasics\b|\b101\b/i,
+  ],
+  [
+    "advanced",
+    /高级|深入|精通|源码|内核|底层|剖析|advanced|mastering|\bexpert\b|in depth|deep dive|internals|under the hood/i,
+  ],
+  ["intermediate", /进阶|中级|intermediate|effective|beyond the basics|next level/i],
+];
+
+// 标题中的类型信号
+const BOOK_TYPE_PATTERNS: Array<[BookType, RegExp]> = [
+  [
+    "practical",
+    /实战|实践|实例|案例|项目|手册|cookbook|in action|hands-on|practical|recipes|by example|projects|workshop/i,
+  ],
+  [
+    "theoretical",
+    /原理|理论|设计|架构|算法|概论|导论|principles|theory|foundations|internals|architecture|concepts|algorithms/i,
+  ],
+];
+
+// 页数信号：很薄的书偏入门，很厚的书偏进阶或参考手册
+const THIN_BOOK_PAGES = 200;
+const THICK_BOOK_PAGES = 800;
+
+// 低于该置信度的启发式结果交给 LLM 重新分类
+const LLM_CLASSIFY_CONFIDENCE = 0.5;
+const LLM_CLASSIFY_BATCH_SIZE = 10;
+
+function matchLevel(text: string): Level | undefined {
+  return LEVEL_PATTERNS.find(([, pattern]) => pattern.test(text))?.[0];
+}
+
+function matchBookType(text: string): BookType | undefined {
+  const matched = BOOK_TYPE_PATTERNS.filter(([, pattern]) => pattern.test(text)).map(
+    ([type]) => type
+  );
+  if (matched.length === 2) return "both";
+  return matched[0];
+}
+
+/**
+ * 启发式分类：标题 > 分类标签 > 页数
+ */
+export function classifyBookHeuristically(book: Book): BookClassification {
+  const title = book.title || "";
+  const categories = (book.categories || []).join(" ");
+
+  let level = matchLevel(title);
+  let levelConfidence = level ? 0.7 : 0;
+  if (!level) {
+    level = matchLevel(categories);
+    levelConfidence = level ? 0.5 : 0;
+  }
+  if (!level && book.pageCount) {
+    if (book.pageCount < THIN_BOOK_PAGES) level = "beginner";
+    if (book.pageCount > THICK_BOOK_PAGES) level = "advanced";
+    levelConfidence = level ? 0.3 : 0;
+  }
+
+  let bookType = matchBookType(title);
+  let typeConfidence = bookType ? 0.7 : 0;
+  if (!bookType) {
+    bookType = matchBookType(categories);
+    typeConfidence = bookType ? 0.5 : 0;
+  }
+
+  const confidences = [levelConfidence, typeConfidence].filter((c) => c > 0);
+  return {
+    level,
+    bookType,
+    confidence: confidences.length > 0 ? Math.min(...confidences) : 0,
+    method: "heuristic",
+  };
+}
+
+const ClassificationBatchSchema = z.object({
+  books: z.array(
+    z.object({
+      index: z.number().int().min(1),
+      level: z.enum(["beginner", "intermediate", "advanced"]),
+      bookType: z.enum(["practical", "theoretical", "both"]),
+    })
+  ),
+});
+
+/**
+ * 用 LLM 批量分类
+ */
+async function classifyBatchWithLLM(books: Book[]): Promise<Map<Book, BookClassification>> {
+  const list = books
+    .map(
+      (b, i) =>
+        `${i + 1}. "${b.title}" - ${b.authors.join(", ")}` +
+        (b.pageCount ? `, ${b.pageCount} pages` : "") +
+        (b.categories?.length ? `, categories: ${b.categories.slice(0, 3).join(", ")}` : "") +
+        (b.description ? `\n   ${b.description.slice(0, 160).replace(/\s+/g, " ")}` : "")
+    )
+    .join("\n");
+
+  const { books: results } = await invokeStructured(
+    createLLM("keywords"),
+    `Classify each book by reader level and book type.
+- level: beginner (no prior knowledge needed) | intermediate | advanced (assumes solid experience)
+- bookType: practical (tutorials, projects, recipes) | theoretical (principles, theory, design) | both
+
+Books:
+${list}
+
+Respond ONLY with JSON:
+{"books": [{"index": 1, "level": "beginner", "bookType": "practical"}]}`,
+    ClassificationBatchSchema,
+    { name: "classify_books", task: "keywords" }
+  );
+
+  const classified = new Map<Book, BookClassification>();
+  for (const { index, level, bookType } of results) {
+    const book = books[index - 1];
+    if (book) {
+      classified.set(book, { level, bookType, confidence: 0.8, method: "llm" });
+    }
+  }
+  return classified;
+}
+
+/**
+ * 为书籍添加难度与类型分类
+ * 所有书籍先做启发式分类；llmLimit > 0 时，前 llmLimit 本中置信度低的交给 LLM 批量分类
+ */
+export async function classifyBooks(
+  books: Book[],
+  options: { llmLimit?: number } = {}
+): Promise<Book[]> {
+  const classified = books.map((book) => ({
+    ...book,
+    classification: book.classification || classifyBookHeuristically(book),
+  }));
+
+  const llmLimit = process.env.BOOK_CLASSIFY_LLM === "off" ? 0 : options.llmLimit || 0;
+  const uncertain = classified
+    .slice(0, llmLimit)
+    .filter(({ classification }) => classification.confidence < LLM_CLASSIFY_CONFIDENCE);
+  if (uncertain.length === 0) {
+    return classified;
+  }
+
+  const startTime = Date.now();
+  const updates = new Map<Book, BookClassification>();
+  for (let i = 0; i < uncertain.length; i += LLM_CLASSIFY_BATCH_SIZE) {
+    try {
+      const batch = await classifyBatchWithLLM(uncertain.slice(i, i + LLM_CLASSIFY_BATCH_SIZE));
+      batch.forEach((value, key) => updates.set(key, value));
+    } catch (error) {
+      // 保留启发式结果
+      console.warn("[Ranking] LLM classification failed:", error);
+    }
+  }
+  console.log(
+    `[Ranking] LLM classified ${updates.size}/${uncertain.length} books in ${Date.now() - startTime}ms`
+  );
+
+  return classified.map((book) => {
+    const update = updates.get(book);
+    return update ? { ...book, classification: update } : book;
+  });
+}
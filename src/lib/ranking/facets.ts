@@ -0,0 +1,140 @@
+import type { Book, FacetCount, SearchFacets, SearchFilters } from "@/types/book";
+import { getPublishedYear, normalizeRating } from "./score";
+
+// 页数区间（左闭右开，最后一档没有上限）
+const PAGE_COUNT_BUCKETS: Array<[number, number | undefined]> = [
+  [0, 200],
+  [200, 400],
+  [400, 800],
+  [800, undefined],
+];
+// 评分下限（5 分制）
+const RATING_THRESHOLDS = [4.5, 4, 3.5, 3];
+// 返回的分类数量上限
+const MAX_CATEGORY_FACETS = 20;
+
+/**
+ * 只保留需要传给数据源的过滤条件，分面条件不影响上游请求和缓存
+ */
+export function getUpstreamFilters(filters?: SearchFilters): SearchFilters | undefined {
+  if (!filters?.language && !filters?.orderBy) return undefined;
+  return {
+    ...(filters.language && { language: filters.language }),
+    ...(filters.orderBy && { orderBy: filters.orderBy }),
+  };
+}
+
+function getBookSources(book: Book): string[] {
+  return book.sources?.length ? [...new Set(book.sources.map((s) => s.source))] : [book.source];
+}
+
+function isReadable(book: Book): boolean {
+  return Boolean(book.hasPreview || book.readOnlineLink);
+}
+
+/**
+ * 书籍是否满足分面条件
+ * 设置了年份 / 页数 / 评分条件时，缺少对应信息的书不满足条件
+ */
+export function matchesFacetFilters(book: Book, filters: SearchFilters): boolean {
+  if (filters.yearFrom !== undefined || filters.yearTo !== undefined) {
+    const year = getPublishedYear(book);
+    if (!year) return false;
+    if (filters.yearFrom !== undefined && year < filters.yearFrom) return false;
+    if (filters.yearTo !== undefined && year > filters.yearTo) return false;
+  }
+
+  if (filters.minPages !== undefined || filters.maxPages !== undefined) {
+    if (!book.pageCount) return false;
+    if (filters.minPages !== undefined && book.pageCount < filters.minPages) return false;
+    if (filters.maxPages !== undefined && book.pageCount > filters.maxPages) return false;
+  }
+
+  if (filters.minRating !== undefined && normalizeRating(book) < filters.minRating) {
+    return false;
+  }
+
+  if (filters.sources?.length) {
+    const sources = getBookSources(book);
+    if (!filters.sources.some((source) => sources.includes(source))) return false;
+  }
+
+  if (filters.readable && !isReadable(book)) {
+    return false;
+  }
+
+  if (filters.category) {
+    const category = filters.category.toLowerCase();
+    if (!book.categories?.some((c) => c.toLowerCase() === category)) return false;
+  }
+
+  return true;
+}
+
+function toFacetCounts(counts: Map<string, number>): FacetCount[] {
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => b.count - a.count);
+}
+
+function increment(counts: Map<string, number>, key: string) {
+  counts.set(key, (counts.get(key) || 0) + 1);
+}
+
+/**
+ * 统计分面取值
+ */
+export function computeFacets(books: Book[]): SearchFacets {
+  const years = new Map<string, number>();
+  const pageCounts = new Map<string, number>();
+  const sources = new Map<string, number>();
+  const categories = new Map<string, number>();
+  const categoryLabels = new Map<string, string>();
+  let readable = 0;
+
+  for (const book of books) {
+    const year = getPublishedYear(book);
+    if (year) {
+      increment(years, String(Math.floor(year / 10) * 10));
+    }
+
+    if (book.pageCount) {
+      const bucket = PAGE_COUNT_BUCKETS.find(
+        ([min, max]) => book.pageCount! >= min && (max === undefined || book.pageCount! < max)
+      );
+      if (bucket) increment(pageCounts, `${bucket[0]}-${bucket[1] ?? ""}`);
+    }
+
+    getBookSources(book).forEach((source) => increment(sources, source));
+
+    // 不同数据源的分类大小写可能不一致，按小写统计，显示第一次出现的写法
+    const keys = new Set((book.categories || []).map((category) => category.toLowerCase()));
+    for (const category of book.categories || []) {
+      const key = category.toLowerCase();
+      if (!keys.delete(key)) continue;
+      if (!categoryLabels.has(key)) categoryLabels.set(key, category);
+      increment(categories, key);
+    }
+
+    if (isReadable(book)) readable++;
+  }
+
+  const ratings = RATING_THRESHOLDS.map((threshold) => ({
+    value: String(threshold),
+    count: books.filter((book) => normalizeRating(book) >= threshold).length,
+  }));
+
+  return {
+    total: books.length,
+    years: toFacetCounts(years).sort((a, b) => Number(b.value) - Number(a.value)),
+    pageCounts: PAGE_COUNT_BUCKETS.map(([min, max]) => `${min}-${max ?? ""}`)
+      .filter((value) => pageCounts.has(value))
+      .map((value) => ({ value, count: pageCounts.get(value)! })),
+    ratings,
+    sources: toFacetCounts(sources),
+    categories: toFacetCounts(categories)
+      .slice(0, MAX_CATEGORY_FACETS)
+      .map(({ value, count }) => ({ value: categoryLabels.get(value) || value, count })),
+    readable,
+  };
+}
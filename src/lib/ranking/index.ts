@@ -0,0 +1,26 @@
+/**
+ * 书籍相关性排序
+ * 搜索工具、搜索节点共用同一套评分规则，权重可配置并返回评分明细
+ * 关键词评分之后可选语义重排序（向量相似度）
+ * 合并、排序后的结果支持分面过滤与统计
+ */
+
+export {
+  DEFAULT_RANKING_WEIGHTS,
+  LANGUAGE_MISMATCH_SCORE,
+  detectBookLanguage,
+  explainRanking,
+  getRankingWeights,
+  rankBooks,
+  scoreBook,
+} from "./score";
+export { semanticRerank } from "./semantic";
+export { classifyBookHeuristically, classifyBooks } from "./classify";
+export { computeFacets, getUpstreamFilters, matchesFacetFilters } from "./facets";
+export type {
+  RankedBook,
+  RankingContext,
+  RankingExplanation,
+  RankingWeights,
+  ScoreBreakdown,
+} from "./types";
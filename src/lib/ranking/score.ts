@@ -0,0 +1,267 @@
+import type { Book } from "@/types/book";
+import type {
+  RankedBook,
+  RankingContext,
+  RankingExplanation,
+  RankingWeights,
+  ScoreBreakdown,
+} from "./types";
+
+/**
+ * 语言不匹配的书籍得分，调用方按阈值过滤
+ */
+export const LANGUAGE_MISMATCH_SCORE = -1000;
+
+/**
+ * 默认权重
+ */
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  titleMatch: 10,
+  descriptionMatch: 3,
+  coverage: 50,
+  rating: 10,
+  ratingsCount: 15,
+  sourceBoost: 10,
+  recency: 5,
+  completeness: 15,
+  noMatchPenalty: 50,
+  levelMatch: 30,
+  bookTypeMatch: 20,
+  yearPreference: 30,
+  semantic: 80,
+};
+
+// 关键词按长度计分时的最少字符数，避免短词得分过低
+const MIN_KEYWORD_UNITS = 3;
+// 出版超过该年数后不再有时效加分
+const RECENCY_HORIZON_YEARS = 20;
+// 偏好最新出版时，超过该年数不再加分
+const LATEST_HORIZON_YEARS = 5;
+// 偏好经典时，出版满该年数才算经典（加分按年数递增）
+const CLASSIC_MIN_AGE_YEARS = 10;
+const CLASSIC_FULL_AGE_YEARS = 30;
+
+/**
+ * 获取评分权重
+ * 环境变量 RANKING_WEIGHTS（JSON，如 {"recency": 15}）覆盖默认值，调用方传入的权重优先级最高
+ */
+export function getRankingWeights(overrides?: Partial<RankingWeights>): RankingWeights {
+  let envWeights: Partial<RankingWeights> = {};
+  if (process.env.RANKING_WEIGHTS) {
+    try {
+      envWeights = JSON.parse(process.env.RANKING_WEIGHTS);
+    } catch {
+      console.warn("[Ranking] Invalid RANKING_WEIGHTS, using defaults");
+    }
+  }
+  return { ...DEFAULT_RANKING_WEIGHTS, ...envWeights, ...overrides };
+}
+
+/**
+ * 检测书籍语言（根据标题字符）
+ */
+export function detectBookLanguage(book: Book): "zh" | "en" | "mixed" {
+  const title = book.title || "";
+
+  // 只要有中文字符，就认为是中文书（或混合）
+  if (/[\u4e00-\u9fff]/.test(title)) {
+    return "zh";
+  }
+  if (/[a-zA-Z]/.test(title)) {
+    return "en";
+  }
+  return "mixed";
+}
+
+/**
+ * 统一为 5 分制评分（豆瓣为 10 分制）
+ */
+export function normalizeRating(book: Book): number {
+  if (book.doubanRating) return book.doubanRating / 2;
+  if (!book.averageRating) return 0;
+  return book.source === "douban" ? book.averageRating / 2 : book.averageRating;
+}
+
+export function getPublishedYear(book: Book): number | null {
+  const year = Number(book.publishedDate?.match(/\d{4}/)?.[0]);
+  return Number.isFinite(year) && year > 0 ? year : null;
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const LEVEL_ORDER = ["beginner", "intermediate", "advanced"] as const;
+// 难度或类型相符时的加分比例（不符时按差距扣分）
+const MATCH_BONUS_RATIO = 0.3;
+
+/**
+ * 计算单本书的相关性评分及明细
+ */
+export function scoreBook(
+  book: Book,
+  context: RankingContext,
+  weights: RankingWeights = getRankingWeights(context.weights)
+): ScoreBreakdown {
+  const breakdown: ScoreBreakdown = {
+    total: 0,
+    titleMatch: 0,
+    descriptionMatch: 0,
+    coverage: 0,
+    rating: 0,
+    ratingsCount: 0,
+    sourceBoost: 0,
+    recency: 0,
+    completeness: 0,
+    penalty: 0,
+    levelFit: 0,
+    bookTypeFit: 0,
+    yearFit: 0,
+    semantic: 0,
+    matchedKeywords: [],
+  };
+
+  // 1. 语言匹配（硬性要求）
+  const bookLang = detectBookLanguage(book);
+  if (
+    (context.language === "zh" && bookLang === "en") ||
+    (context.language === "en" && bookLang === "zh")
+  ) {
+    return { ...breakdown, total: LANGUAGE_MISMATCH_SCORE, excluded: "language" };
+  }
+
+  // 2. 关键词匹配：标题优先，其次简介；越长的词匹配越有价值
+  const title = (book.title || "").toLowerCase();
+  const description = (book.description || "").toLowerCase();
+  const keywords = context.keywords.map((k) => k.toLowerCase()).filter((k) => k.length >= 2);
+  let titleMatchCount = 0;
+
+  for (const keyword of keywords) {
+    const units = Math.max(MIN_KEYWORD_UNITS, keyword.length);
+    if (title.includes(keyword)) {
+      breakdown.titleMatch += units * weights.titleMatch;
+      breakdown.matchedKeywords.push(keyword);
+      titleMatchCount++;
+    } else if (description.includes(keyword)) {
+      breakdown.descriptionMatch += units * weights.descriptionMatch;
+      breakdown.matchedKeywords.push(keyword);
+    }
+  }
+
+  // 多个关键词同时出现在标题中，额外加分
+  if (titleMatchCount >= 2) {
+    breakdown.titleMatch += MIN_KEYWORD_UNITS * weights.titleMatch;
+  }
+
+  // 3. 匹配覆盖率
+  if (keywords.length > 0) {
+    breakdown.coverage = (breakdown.matchedKeywords.length / keywords.length) * weights.coverage;
+  }
+
+  // 4. 无匹配惩罚（豆瓣搜索结果本身已做过相关性过滤，惩罚较轻）
+  if (keywords.length > 0 && breakdown.matchedKeywords.length === 0) {
+    breakdown.penalty = -weights.noMatchPenalty * (book.source === "douban" ? 0.2 : 1);
+  }
+
+  // 5. 评分与评分人数
+  breakdown.rating = (normalizeRating(book) / 5) * weights.rating;
+  if (book.ratingsCount && book.ratingsCount > 1) {
+    // 10 万人评分时满分
+    breakdown.ratingsCount = Math.min(Math.log10(book.ratingsCount) / 5, 1) * weights.ratingsCount;
+  }
+
+  // 6. 数据源加成：豆瓣的中文书数据通常更准确
+  if (book.source === "douban" && context.language === "zh") {
+    breakdown.sourceBoost = weights.sourceBoost;
+  }
+
+  // 7. 出版时间；有年份偏好时额外加分：最新 → 近几年出版，经典 → 出版多年且评分高
+  const year = getPublishedYear(book);
+  if (year) {
+    const age = Math.max(new Date().getFullYear() - year, 0);
+    breakdown.recency = Math.max(1 - age / RECENCY_HORIZON_YEARS, 0) * weights.recency;
+
+    if (context.yearPreference === "latest") {
+      breakdown.yearFit = Math.max(1 - age / LATEST_HORIZON_YEARS, 0) * weights.yearPreference;
+    } else if (context.yearPreference === "classic" && age >= CLASSIC_MIN_AGE_YEARS) {
+      const ageFactor = Math.min(age / CLASSIC_FULL_AGE_YEARS, 1);
+      const ratingFactor = 0.5 + (normalizeRating(book) / 5) * 0.5;
+      breakdown.yearFit = ageFactor * ratingFactor * weights.yearPreference;
+    }
+  }
+
+  // 8. 信息完整度
+  const completeness =
+    (book.authors?.length > 0 && book.authors[0] !== "Unknown Author" ? 5 : 0) +
+    (book.thumbnail && !book.thumbnail.includes("placeholder") ? 5 : 0) +
+    (book.publishedDate ? 2 : 0) +
+    (book.description && book.description.length > 50 ? 3 : 0);
+  breakdown.completeness = (completeness / 15) * weights.completeness;
+
+  // 9. 难度与类型是否符合用户偏好（按分类置信度加权）
+  const classification = book.classification;
+  if (classification && context.level && classification.level) {
+    const distance = Math.abs(
+      LEVEL_ORDER.indexOf(context.level) - LEVEL_ORDER.indexOf(classification.level)
+    );
+    const fit = distance === 0 ? MATCH_BONUS_RATIO : -distance / 2;
+    breakdown.levelFit = fit * classification.confidence * weights.levelMatch;
+  }
+  if (
+    classification &&
+    context.bookType &&
+    context.bookType !== "both" &&
+    classification.bookType &&
+    classification.bookType !== "both"
+  ) {
+    const fit = classification.bookType === context.bookType ? MATCH_BONUS_RATIO : -1;
+    breakdown.bookTypeFit = fit * classification.confidence * weights.bookTypeMatch;
+  }
+
+  const components = [
+    "titleMatch",
+    "descriptionMatch",
+    "coverage",
+    "rating",
+    "ratingsCount",
+    "sourceBoost",
+    "recency",
+    "completeness",
+    "penalty",
+    "levelFit",
+    "bookTypeFit",
+    "yearFit",
+    "semantic",
+  ] as const;
+  for (const key of components) {
+    breakdown[key] = round(breakdown[key]);
+  }
+  breakdown.total = round(components.reduce((sum, key) => sum + breakdown[key], 0));
+
+  return breakdown;
+}
+
+/**
+ * 对书籍评分并按分数从高到低排序
+ */
+export function rankBooks(books: Book[], context: RankingContext): RankedBook[] {
+  const weights = getRankingWeights(context.weights);
+  return books
+    .map((book) => {
+      const breakdown = scoreBook(book, context, weights);
+      return { book, score: breakdown.total, breakdown };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * 生成排序说明，供 debug 模式返回
+ * @param offset 分页时之前已返回的数量，排名从 offset + 1 开始
+ */
+export function explainRanking(ranked: RankedBook[], offset: number = 0): RankingExplanation[] {
+  return ranked.map(({ book, score, breakdown }, i) => ({
+    id: book.id,
+    title: book.title,
+    rank: offset + i + 1,
+    score,
+    breakdown,
+  }));
+}
@@ -0,0 +1,97 @@
+import type { Embeddings } from "@langchain/core/embeddings";
+import type { Book } from "@/types/book";
+import { LocalHashEmbeddings, cosineSimilarity, createEmbeddings } from "@/lib/llm/embeddings";
+import { getRankingWeights } from "./score";
+import type { RankedBook, RankingWeights } from "./types";
+
+// 参与语义重排序的候选数量（按关键词分数取前 N 本）
+const DEFAULT_RERANK_TOP_K = 60;
+// 参与向量计算的简介长度
+const MAX_DESCRIPTION_CHARS = 500;
+
+/**
+ * 书籍的向量文本：标题、作者、分类和简介开头
+ */
+function toEmbeddingText(book: Book): string {
+  return [
+    book.title,
+    book.authors.join(", "),
+    book.categories?.join(", "),
+    book.description?.slice(0, MAX_DESCRIPTION_CHARS),
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+async function embedAll(
+  embeddings: Embeddings,
+  query: string,
+  texts: string[]
+): Promise<{ queryVector: number[]; bookVectors: number[][] }> {
+  const [queryVector, bookVectors] = await Promise.all([
+    embeddings.embedQuery(query),
+    embeddings.embedDocuments(texts),
+  ]);
+  return { queryVector, bookVectors };
+}
+
+/**
+ * 语义重排序
+ * 计算查询与书籍的向量相似度并与关键词分数混合，弥补同义词、近义表达无法字面匹配的问题；
+ * 向量接口不可用时降级为本地哈希向量
+ */
+export async function semanticRerank(
+  ranked: RankedBook[],
+  query: string,
+  options: {
+    weights?: Partial<RankingWeights>;
+    topK?: number;
+    embeddings?: Embeddings;
+  } = {}
+): Promise<RankedBook[]> {
+  const weights = getRankingWeights(options.weights);
+  if (weights.semantic <= 0 || ranked.length === 0) {
+    return ranked;
+  }
+
+  // 语言不匹配的书不参与重排序
+  const candidates = ranked
+    .filter(({ breakdown }) => !breakdown.excluded)
+    .slice(0, options.topK ?? DEFAULT_RERANK_TOP_K);
+  const texts = candidates.map(({ book }) => toEmbeddingText(book));
+
+  const startTime = Date.now();
+  let vectors: { queryVector: number[]; bookVectors: number[][] };
+  try {
+    vectors = await embedAll(options.embeddings || createEmbeddings(), query, texts);
+  } catch (error) {
+    console.warn(
+      "[Ranking] Embedding failed, falling back to local embeddings:",
+      error instanceof Error ? error.message : error
+    );
+    vectors = await embedAll(new LocalHashEmbeddings(), query, texts);
+  }
+
+  const reranked = new Map<RankedBook, RankedBook>();
+  candidates.forEach((item, i) => {
+    const similarity = cosineSimilarity(vectors.queryVector, vectors.bookVectors[i]);
+    const semantic = Math.round(Math.max(similarity, 0) * weights.semantic * 10) / 10;
+    const total = Math.round((item.breakdown.total + semantic) * 10) / 10;
+    reranked.set(item, {
+      book: item.book,
+      score: total,
+      breakdown: {
+        ...item.breakdown,
+        semantic,
+        similarity: Math.round(similarity * 1000) / 1000,
+        total,
+      },
+    });
+  });
+
+  console.log(
+    `[Ranking] Semantic rerank of ${candidates.length} books in ${Date.now() - startTime}ms`
+  );
+
+  return ranked.map((item) => reranked.get(item) || item).sort((a, b) => b.score - a.score);
+}
@@ -0,0 +1,77 @@
+import type { Book, BookClassification } from "@/types/book";
+import type { LanguagePreference } from "@/lib/sources";
+
+/**
+ * 相关性评分权重
+ * 每一项为该维度能贡献的分数（关键词匹配为每个字符的分数）
+ */
+export interface RankingWeights {
+  titleMatch: number; // 关键词出现在标题中，按关键词长度计分
+  descriptionMatch: number; // 关键词出现在简介中，按关键词长度计分
+  coverage: number; // 匹配到的关键词占比
+  rating: number; // 评分（统一换算为 5 分制）
+  ratingsCount: number; // 评分人数（对数）
+  sourceBoost: number; // 数据源加成，如中文查询下的豆瓣
+  recency: number; // 出版越新分数越高
+  completeness: number; // 信息完整度（作者、封面、出版日期、简介）
+  noMatchPenalty: number; // 没有任何关键词匹配时扣除的分数
+  levelMatch: number; // 预测难度与用户水平不符时最多扣除的分数（相符时少量加分）
+  bookTypeMatch: number; // 预测类型（实战/理论）与偏好不符时扣除的分数（相符时少量加分）
+  yearPreference: number; // 符合出版年份偏好（最新 / 经典）时的加分
+  semantic: number; // 向量语义相似度（重排序阶段），0 表示不做语义重排序
+}
+
+/**
+ * 单本书的评分明细
+ */
+export interface ScoreBreakdown {
+  total: number;
+  titleMatch: number;
+  descriptionMatch: number;
+  coverage: number;
+  rating: number;
+  ratingsCount: number;
+  sourceBoost: number;
+  recency: number;
+  completeness: number;
+  penalty: number;
+  levelFit: number;
+  bookTypeFit: number;
+  yearFit: number;
+  semantic: number;
+  similarity?: number; // 查询与书籍的语义相似度（-1 ~ 1），仅参与语义重排序的书籍有
+  matchedKeywords: string[];
+  excluded?: "language"; // 被硬性条件排除的原因
+}
+
+/**
+ * 评分上下文
+ */
+export interface RankingContext {
+  keywords: string[];
+  language: LanguagePreference;
+  level?: BookClassification["level"]; // 用户水平，与书籍的预测难度比较
+  bookType?: BookClassification["bookType"]; // 偏好的书籍类型
+  yearPreference?: "latest" | "classic" | "any"; // 出版年份偏好
+  weights?: Partial<RankingWeights>;
+}
+
+/**
+ * 排序后的书籍
+ */
+export interface RankedBook {
+  book: Book;
+  score: number;
+  breakdown: ScoreBreakdown;
+}
+
+/**
+ * 排序说明（debug 模式下随结果返回）
+ */
+export interface RankingExplanation {
+  id: string;
+  title: string;
+  rank: number;
+  score: number;
+  breakdown: ScoreBreakdown;
+}
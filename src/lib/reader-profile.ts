@@ -0,0 +1,48 @@
+/**
+ * 读者画像的浏览器端存储（sessionStorage）
+ * 对话中确认的偏好和最近看过的书，随书籍分析请求发送，用于个性化“是否值得读”评分
+ */
+
+import type { Book, ReaderProfile } from "@/types/book";
+
+const PREFERENCES_KEY = "readerPreferences";
+const HISTORY_KEY = "readingHistory";
+const MAX_HISTORY = 10;
+
+function readJson<T>(key: string): T | undefined {
+  try {
+    const stored = sessionStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * 保存搜索时使用的偏好（水平、书籍类型、主题）
+ */
+export function saveReaderPreferences(
+  preferences: NonNullable<ReaderProfile["preferences"]>
+): void {
+  const { level, bookType, topic } = preferences;
+  sessionStorage.setItem(PREFERENCES_KEY, JSON.stringify({ level, bookType, topic }));
+}
+
+/**
+ * 记录看过的书，最近的在前
+ */
+export function recordReadingHistory(book: Book): void {
+  const history = readJson<string[]>(HISTORY_KEY) || [];
+  const next = [book.title, ...history.filter((title) => title !== book.title)];
+  sessionStorage.setItem(HISTORY_KEY, JSON.stringify(next.slice(0, MAX_HISTORY)));
+}
+
+/**
+ * 分析某本书时的读者画像，阅读记录不包含这本书本身
+ */
+export function loadReaderProfile(book: Book): ReaderProfile {
+  return {
+    preferences: readJson<ReaderProfile["preferences"]>(PREFERENCES_KEY),
+    readingHistory: (readJson<string[]>(HISTORY_KEY) || []).filter((title) => title !== book.title),
+  };
+}
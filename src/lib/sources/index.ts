@@ -0,0 +1,31 @@
+// 书籍数据源
+export {
+  BOOK_SOURCES,
+  getBookSource,
+  findSourceByBookId,
+  getNextPagination,
+  getSourcePlan,
+  searchAllSources,
+  collectBookEvidence,
+} from "./registry";
+export { mergeBooks, normalizeIsbn, isbn10To13 } from "./merge";
+export {
+  decodeSearchCursor,
+  encodeSearchCursor,
+  getBookFingerprints,
+  paginateCandidates,
+} from "./pagination";
+export type { CandidateBatch, SearchCursor } from "./pagination";
+export type { BookSourceId } from "./registry";
+export type {
+  BookSource,
+  BookSourceCapabilities,
+  BookSourceSearchOptions,
+  LanguagePreference,
+  SourceLanguage,
+  SourcePagination,
+  SourceEvidence,
+  SourceProgressEvent,
+  SourceSearchResult,
+  SourceWeightContext,
+} from "./types";
@@ -0,0 +1,237 @@
+import { Book, BookSourceRecord } from "@/types/book";
+
+/**
+ * 跨数据源书籍合并
+ * 先按 ISBN 聚类，再按标题 + 作者相似度聚类，每组合并为一本带 sources[] 的书
+ */
+
+// 标题相似度阈值（字符二元组 Dice 系数）
+const TITLE_SIMILARITY_THRESHOLD = 0.85;
+// 缺少作者信息时要求更高的标题相似度
+const TITLE_ONLY_SIMILARITY_THRESHOLD = 0.95;
+
+/**
+ * 将 ISBN-10 转换为 ISBN-13
+ */
+export function isbn10To13(isbn10: string): string {
+  const core = `978${isbn10.slice(0, 9)}`;
+  const sum = core
+    .split("")
+    .reduce((acc, digit, i) => acc + Number(digit) * (i % 2 === 0 ? 1 : 3), 0);
+  return `${core}${(10 - (sum % 10)) % 10}`;
+}
+
+/**
+ * 规范化 ISBN，统一为 ISBN-13；无法识别时返回 null
+ */
+export function normalizeIsbn(isbn?: string): string | null {
+  if (!isbn) return null;
+  const cleaned = isbn.replace(/[^0-9Xx]/g, "").toUpperCase();
+
+  if (/^\d{13}$/.test(cleaned)) return cleaned;
+  if (/^\d{9}[\dX]$/.test(cleaned)) return isbn10To13(cleaned);
+  return null;
+}
+
+/**
+ * 规范化标题：去掉括号内容和标点，keepSubtitle 为 false 时同时去掉副标题
+ */
+function normalizeTitle(title: string, keepSubtitle = false): string {
+  const withoutParens = title.toLowerCase().replace(/[（(][^）)]*[）)]/g, "");
+  return (keepSubtitle ? withoutParens : withoutParens.replace(/\s*[:：].*$/, ""))
+    .replace(/[《》「」『』【】\[\]"'“”‘’.,，。:：!！?？\-—_]/g, "")
+    .replace(/\s+/g, "")
+    .trim();
+}
+
+/**
+ * 规范化作者名，用于比较（忽略顺序、空格、国籍标记如 [美]）
+ */
+function normalizeAuthor(author: string): string {
+  return author
+    .toLowerCase()
+    .replace(/[[［(（【][^\]］)）】]*[\]］)）】]/g, "")
+    .replace(/[^a-z\u4e00-\u9fff]/g, "")
+    .split("")
+    .sort()
+    .join("");
+}
+
+function bigrams(text: string): Map<string, number> {
+  const grams = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const gram = text.slice(i, i + 2);
+    grams.set(gram, (grams.get(gram) || 0) + 1);
+  }
+  return grams;
+}
+
+/**
+ * 标题相似度（Dice 系数），短标题不会因为被长标题包含而被判为相同
+ */
+function titleSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 2 || b.length < 2) return 0;
+
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  let overlap = 0;
+  for (const [gram, count] of gramsA) {
+    overlap += Math.min(count, gramsB.get(gram) || 0);
+  }
+  return (2 * overlap) / (a.length - 1 + (b.length - 1));
+}
+
+/**
+ * 书籍聚类时使用的特征
+ */
+interface BookFeatures {
+  isbn: string | null;
+  title: string;
+  fullTitle: string; // 保留副标题，缺少作者时用于比较
+  authors: Set<string>;
+}
+
+function getFeatures(book: Book): BookFeatures {
+  return {
+    isbn: normalizeIsbn(book.isbn),
+    title: normalizeTitle(book.title),
+    fullTitle: normalizeTitle(book.title, true),
+    authors: new Set(
+      book.authors
+        .filter((a) => a && a !== "Unknown Author" && a !== "未知作者")
+        .map(normalizeAuthor)
+        .filter(Boolean)
+    ),
+  };
+}
+
+function isSameWork(a: BookFeatures, b: BookFeatures): boolean {
+  if (a.isbn && b.isbn) {
+    // ISBN 不同说明是不同版本或译本，保留为不同的书
+    return a.isbn === b.isbn;
+  }
+
+  // 缺少作者时只能依靠标题，比较完整标题，避免 "Introduction: Algorithms" 与 "Introduction: Physics" 被合并
+  if (a.authors.size === 0 || b.authors.size === 0) {
+    return titleSimilarity(a.fullTitle, b.fullTitle) >= TITLE_ONLY_SIMILARITY_THRESHOLD;
+  }
+
+  const similarity = titleSimilarity(a.title, b.title);
+  const sharesAuthor = [...a.authors].some((author) => b.authors.has(author));
+  return sharesAuthor && similarity >= TITLE_SIMILARITY_THRESHOLD;
+}
+
+/**
+ * 书籍信息完整度，用于选择合并后的主记录
+ */
+function completeness(book: Book): number {
+  return (
+    (book.description ? 2 : 0) +
+    (book.thumbnail ? 1 : 0) +
+    (book.averageRating ? 1 : 0) +
+    (book.isbn ? 1 : 0) +
+    (book.publishedDate ? 1 : 0) +
+    (book.pageCount ? 1 : 0) +
+    (book.categories?.length ? 1 : 0)
+  );
+}
+
+function toSourceRecords(book: Book): BookSourceRecord[] {
+  return (
+    book.sources || [
+      {
+        source: book.source,
+        id: book.id,
+        averageRating: book.averageRating,
+        ratingsCount: book.ratingsCount,
+        infoLink: book.doubanUrl || book.infoLink,
+        readOnlineLink: book.readOnlineLink,
+      },
+    ]
+  );
+}
+
+/**
+ * 合并同一本书的多条记录
+ * 以信息最完整的记录为主，缺失字段从其他记录补全
+ */
+function mergeCluster(cluster: Book[]): Book {
+  if (cluster.length === 1) {
+    return { ...cluster[0], sources: toSourceRecords(cluster[0]) };
+  }
+
+  const [primary, ...others] = [...cluster].sort((a, b) => completeness(b) - completeness(a));
+  const merged: Book = { ...primary };
+
+  for (const book of others) {
+    merged.publishedDate ||= book.publishedDate;
+    merged.publisher ||= book.publisher;
+    merged.pageCount ||= book.pageCount;
+    merged.language ||= book.language;
+    merged.thumbnail ||= book.thumbnail;
+    merged.previewLink ||= book.previewLink;
+    merged.infoLink ||= book.infoLink;
+    merged.readOnlineLink ||= book.readOnlineLink;
+    merged.hasPreview ||= book.hasPreview;
+    merged.isbn ||= book.isbn;
+    merged.doubanRating ||= book.doubanRating;
+    merged.doubanUrl ||= book.doubanUrl;
+
+    if (!merged.averageRating && book.averageRating) {
+      merged.averageRating = book.averageRating;
+      merged.ratingsCount = book.ratingsCount;
+    }
+    // 保留更详细的简介
+    if ((book.description?.length || 0) > (merged.description?.length || 0)) {
+      merged.description = book.description;
+    }
+    if (book.categories?.length) {
+      merged.categories = [...new Set([...(merged.categories || []), ...book.categories])];
+    }
+  }
+
+  // 各数据源的记录，同一记录只保留一次
+  const records = new Map<string, BookSourceRecord>();
+  for (const book of [primary, ...others]) {
+    for (const record of toSourceRecords(book)) {
+      if (!records.has(record.id)) records.set(record.id, record);
+    }
+  }
+  merged.sources = [...records.values()];
+
+  return merged;
+}
+
+/**
+ * 跨数据源合并书籍
+ * 返回顺序与每组中第一条记录在输入中的顺序一致
+ */
+export function mergeBooks(books: Book[]): Book[] {
+  const features = books.map(getFeatures);
+  const clusters: Array<{ members: number[]; isbns: Set<string> }> = [];
+  const byIsbn = new Map<string, number>();
+
+  for (let i = 0; i < books.length; i++) {
+    // 1. ISBN 完全相同
+    const isbn = features[i].isbn;
+    let clusterIndex = isbn ? byIsbn.get(isbn) : undefined;
+
+    // 2. 标题 + 作者相似（不与已有其他 ISBN 的组合并）
+    if (clusterIndex === undefined) {
+      const found = clusters.findIndex(
+        ({ members, isbns }) =>
+          (!isbn || isbns.size === 0) && members.some((j) => isSameWork(features[i], features[j]))
+      );
+      clusterIndex = found === -1 ? clusters.push({ members: [], isbns: new Set() }) - 1 : found;
+    }
+
+    clusters[clusterIndex].members.push(i);
+    if (isbn) {
+      clusters[clusterIndex].isbns.add(isbn);
+      byIsbn.set(isbn, clusterIndex);
+    }
+  }
+
+  return clusters.map(({ members }) => mergeCluster(members.map((i) => books[i])));
+}
@@ -0,0 +1,149 @@
+import type { Book } from "@/types/book";
+import { normalizeIsbn } from "./merge";
+import type { SourcePagination } from "./types";
+
+/**
+ * 搜索游标
+ * 记录各数据源的分页位置和已返回书籍的指纹，编码后作为不透明字符串交给客户端
+ */
+export interface SearchCursor {
+  query: string;
+  pagination?: SourcePagination; // 当前批次的起始位置，未设置表示第一批
+  seen: string[]; // 已返回书籍的指纹
+  returned: number; // 已返回的书籍数量
+}
+
+/**
+ * 一批已排序的候选结果
+ */
+export interface CandidateBatch<T> {
+  items: T[];
+  next: SourcePagination; // 下一批的起始位置
+  exhausted: boolean; // 所有数据源都没有更多结果
+}
+
+const CURSOR_VERSION = 1;
+// 游标中最多保留的指纹数量，避免无限增长
+const MAX_SEEN_FINGERPRINTS = 1000;
+// 候选不足一页时，单次请求最多继续加载的批次数
+const MAX_BATCHES_PER_PAGE = 3;
+
+/**
+ * 32 位 FNV-1a 哈希，转为 36 进制缩短长度
+ */
+function hash(value: string): string {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(36);
+}
+
+/**
+ * 书籍指纹：ISBN 以及标题 + 第一作者，跨数据源识别同一本书
+ */
+export function getBookFingerprints(book: Book): string[] {
+  const fingerprints: string[] = [];
+  const isbn = book.isbn && normalizeIsbn(book.isbn);
+  if (isbn) fingerprints.push(hash(`isbn:${isbn}`));
+
+  const normalize = (text = "") => text.toLowerCase().replace(/[^a-z0-9\u4e00-\u9fff]/g, "");
+  const title = normalize(book.title);
+  if (title) fingerprints.push(hash(`title:${title}|${normalize(book.authors?.[0])}`));
+
+  return fingerprints;
+}
+
+export function encodeSearchCursor(cursor: SearchCursor): string {
+  const payload = {
+    v: CURSOR_VERSION,
+    q: cursor.query,
+    p: cursor.pagination,
+    s: cursor.seen.slice(-MAX_SEEN_FINGERPRINTS),
+    n: cursor.returned,
+  };
+  return Buffer.from(JSON.stringify(payload)).toString("base64url");
+}
+
+/**
+ * 解析游标，格式不正确时返回 null
+ */
+export function decodeSearchCursor(value: string): SearchCursor | null {
+  try {
+    const payload = JSON.parse(Buffer.from(value, "base64url").toString("utf8"));
+    if (
+      payload?.v !== CURSOR_VERSION ||
+      typeof payload.q !== "string" ||
+      !Array.isArray(payload.s) ||
+      typeof payload.n !== "number"
+    ) {
+      return null;
+    }
+    const pagination = payload.p as SourcePagination | undefined;
+    if (
+      pagination &&
+      (typeof pagination.offsets !== "object" || !Array.isArray(pagination.exhausted))
+    ) {
+      return null;
+    }
+    return { query: payload.q, pagination, seen: payload.s, returned: payload.n };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 按游标取一页结果
+ * 从游标记录的批次开始加载候选（loadBatch 由调用方缓存，翻页时不会重复请求数据源），
+ * 跳过已返回的书籍；当前批次不足一页时继续加载下一批。
+ * 切换到下一批后，上一批剩余的候选不再返回
+ */
+export async function paginateCandidates<T>(options: {
+  query: string;
+  cursor?: SearchCursor;
+  pageSize: number;
+  toBook: (item: T) => Book;
+  accept?: (item: T) => boolean;
+  loadBatch: (pagination?: SourcePagination) => Promise<CandidateBatch<T>>;
+}): Promise<{ items: T[]; loaded: T[]; position: number; nextCursor?: string }> {
+  const { query, cursor, pageSize, toBook, accept = () => true, loadBatch } = options;
+  const seen = new Set(cursor?.seen);
+  const isNew = (item: T) => !getBookFingerprints(toBook(item)).some((f) => seen.has(f));
+
+  let batchStart = cursor?.pagination;
+  let batch = await loadBatch(batchStart);
+  const loaded = [...batch.items];
+  const pool = batch.items.filter((item) => accept(item) && isNew(item));
+
+  for (let i = 1; i < MAX_BATCHES_PER_PAGE && pool.length < pageSize && !batch.exhausted; i++) {
+    batchStart = batch.next;
+    batch = await loadBatch(batchStart);
+    loaded.push(...batch.items);
+
+    const pooled = new Set(pool.flatMap((item) => getBookFingerprints(toBook(item))));
+    for (const item of batch.items) {
+      const fingerprints = getBookFingerprints(toBook(item));
+      if (accept(item) && isNew(item) && !fingerprints.some((f) => pooled.has(f))) {
+        pool.push(item);
+        fingerprints.forEach((f) => pooled.add(f));
+      }
+    }
+  }
+
+  const items = pool.slice(0, pageSize);
+  const position = cursor?.returned || 0;
+  const hasLeftovers = pool.length > pageSize;
+  if (!hasLeftovers && batch.exhausted) {
+    return { items, loaded, position };
+  }
+
+  const nextCursor = encodeSearchCursor({
+    query,
+    // 当前批次还有剩余时下一页从本批次继续，否则从下一批开始
+    pagination: hasLeftovers ? batchStart : batch.next,
+    seen: [...seen, ...items.flatMap((item) => getBookFingerprints(toBook(item)))],
+    returned: position + items.length,
+  });
+  return { items, loaded, position, nextCursor };
+}
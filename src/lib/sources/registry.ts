@@ -0,0 +1,300 @@
+/**
+ * 书籍数据源注册表
+ * 所有搜索入口（Agent 工具、搜索节点、基础对话）统一通过这里访问数据源
+ */
+
+import { Book, BookEvidence, SearchFilters } from "@/types/book";
+import { googleBooksSource } from "@/lib/api/google-books";
+import { openLibrarySource } from "@/lib/api/open-library";
+import { internetArchiveSource } from "@/lib/api/internet-archive";
+import { doubanSource } from "@/lib/api/douban";
+import { parseBookId } from "@/lib/utils";
+import { buildCacheKey, resolveCacheTtl, withCache } from "@/lib/cache";
+import type {
+  BookSource,
+  LanguagePreference,
+  SourcePagination,
+  SourceProgressEvent,
+  SourceSearchResult,
+  SourceWeightContext,
+} from "./types";
+
+/**
+ * 已注册的数据源（顺序即结果合并顺序）
+ */
+export const BOOK_SOURCES = [
+  googleBooksSource,
+  doubanSource,
+  openLibrarySource,
+  internetArchiveSource,
+] as const;
+
+/**
+ * 数据源 ID，由注册表推导
+ */
+export type BookSourceId = (typeof BOOK_SOURCES)[number]["id"];
+
+/**
+ * 根据数据源 ID 获取数据源
+ */
+export function getBookSource(sourceId: string): BookSource | undefined {
+  return BOOK_SOURCES.find((source) => source.id === sourceId);
+}
+
+/**
+ * 根据书籍 ID（如 "ia_xxx"）找到对应的数据源及原始 ID
+ */
+export function findSourceByBookId(bookId: string): { source: BookSource; id: string } | null {
+  const { source: prefix, id } = parseBookId(bookId);
+  const source = BOOK_SOURCES.find((s) => s.idPrefix === prefix);
+  return source && id ? { source, id } : null;
+}
+
+/**
+ * 计算各数据源的配比，过滤掉不参与搜索的数据源
+ */
+export function getSourcePlan(
+  context: SourceWeightContext
+): Array<{ source: BookSource; ratio: number }> {
+  return BOOK_SOURCES.map((source) => ({
+    source: source as BookSource,
+    ratio:
+      context.language !== "any" && !source.supportedLanguages.includes(context.language)
+        ? 0
+        : source.weight(context),
+  })).filter(({ ratio }) => ratio > 0);
+}
+
+/**
+ * 为 Promise 添加超时
+ */
+function withTimeout<T>(promise: Promise<T>, ms: number | undefined, label: string): Promise<T> {
+  if (!ms) return promise;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return Promise.race([
+    promise,
+    new Promise<T>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`${label} timeout`)), ms);
+    }),
+  ]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * 并行搜索所有参与的数据源
+ * @param queries 查询词列表，第一个为主查询；支持 multiQuery 的数据源会对每个查询分别搜索
+ * @param options.maxResults 目标结果数，按配比分配给各数据源
+ * @param options.multiplier 为了后续筛选而多取的倍数
+ * @param options.filters 传递给支持过滤的数据源
+ * @param options.pagination 分页状态：各数据源从对应位置继续搜索，已无更多结果的数据源跳过
+ * @param options.onProgress 每个数据源开始/返回时回调，用于流式推送进度
+ */
+export async function searchAllSources(
+  queries: string[],
+  options: {
+    maxResults: number;
+    language?: LanguagePreference;
+    queryHasChinese: boolean;
+    multiplier?: number;
+    filters?: SearchFilters;
+    pagination?: SourcePagination;
+    onProgress?: (event: SourceProgressEvent) => void;
+  }
+): Promise<SourceSearchResult[]> {
+  const {
+    maxResults,
+    language = "any",
+    queryHasChinese,
+    multiplier = 1,
+    filters,
+    pagination,
+    onProgress,
+  } = options;
+  const plan = getSourcePlan({ language, queryHasChinese }).filter(
+    ({ source }) => !pagination?.exhausted.includes(source.id)
+  );
+
+  console.log(
+    "[Sources] Plan:",
+    plan.map(({ source, ratio }) => `${source.id}=${Math.round(ratio * 100)}%`).join(", ")
+  );
+
+  onProgress?.({
+    type: "start",
+    sources: plan.map(({ source }) => ({ id: source.id, name: source.name })),
+  });
+
+  return Promise.all(
+    plan.map(async ({ source, ratio }) => {
+      const startTime = Date.now();
+      const sourceQueries = source.capabilities.multiQuery ? queries : queries.slice(0, 1);
+      const budget = Math.min(
+        Math.ceil((maxResults * ratio * multiplier) / sourceQueries.length),
+        source.capabilities.maxResultsPerRequest
+      );
+
+      const offset = pagination?.offsets[source.id] || 0;
+
+      const namespace = `source:${source.id}`;
+      const ttlMs = resolveCacheTtl(source.id, source.cacheTtlMs);
+
+      const settled = await Promise.allSettled(
+        sourceQueries.map((q) =>
+          withCache(
+            namespace,
+            buildCacheKey(namespace, q, { maxResults: budget, language, filters, offset }),
+            ttlMs,
+            () =>
+              withTimeout(
+                source.search(q, { maxResults: budget, language, filters, offset }),
+                source.timeoutMs,
+                source.name
+              ),
+            (result) => result.books.length > 0
+          )
+        )
+      );
+
+      const books: Book[] = [];
+      let totalItems = 0;
+      let error: string | undefined;
+      // 每个查询都没有更多结果时，该数据源才算翻完
+      let exhausted = true;
+      settled.forEach((result, i) => {
+        if (result.status === "fulfilled") {
+          books.push(...result.value.books);
+          totalItems += result.value.totalItems;
+          if (result.value.books.length > 0 && result.value.totalItems > offset + budget) {
+            exhausted = false;
+          }
+        } else {
+          exhausted = false;
+          error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+          console.error(`[Sources] ${source.name} error for "${sourceQueries[i]}":`, error);
+        }
+      });
+
+      const elapsedMs = Date.now() - startTime;
+      console.log(`[Sources] ${source.name}: ${books.length} books in ${elapsedMs}ms`);
+
+      const result: SourceSearchResult = {
+        sourceId: source.id,
+        books,
+        totalItems,
+        elapsedMs,
+        error,
+        offset,
+        nextOffset: offset + budget,
+        exhausted,
+      };
+      onProgress?.({ type: "result", sourceName: source.name, result });
+      return result;
+    })
+  );
+}
+
+/**
+ * 根据本次搜索结果计算下一页的分页状态
+ */
+export function getNextPagination(
+  results: SourceSearchResult[],
+  current?: SourcePagination
+): SourcePagination {
+  const next: SourcePagination = {
+    offsets: { ...current?.offsets },
+    exhausted: [...(current?.exhausted || [])],
+  };
+  for (const result of results) {
+    next.offsets[result.sourceId] = result.nextOffset;
+    if (result.exhausted && !next.exhausted.includes(result.sourceId)) {
+      next.exhausted.push(result.sourceId);
+    }
+  }
+  return next;
+}
+
+// 单个数据源获取分析依据的超时，以及依据的缓存时间（可被 SEARCH_CACHE_TTL_EVIDENCE 覆盖）
+const EVIDENCE_TIMEOUT_MS = 8000;
+const EVIDENCE_TTL_MS = 24 * 60 * 60 * 1000;
+// 提供给 LLM 的依据条数和每条的长度上限
+const MAX_EVIDENCE = 8;
+const MAX_EVIDENCE_CHARS = 1200;
+
+// 依据排序：简介最可靠，其次是正文片段，主题只作补充
+const EVIDENCE_PRIORITY: Record<BookEvidence["kind"], number> = {
+  description: 0,
+  snippet: 1,
+  fulltext: 2,
+  subjects: 3,
+};
+
+/**
+ * 收集书籍分析的依据
+ * 除书籍自身的简介外，并行向实现了 getEvidence 的数据源请求内容：
+ * 书籍在该数据源有记录（包括合并后的 sources）时传入原始 ID，否则由数据源按 ISBN、书名查找；
+ * 单个数据源失败或超时不影响其他数据源
+ */
+export async function collectBookEvidence(book: Book): Promise<BookEvidence[]> {
+  const sourceIds = new Map<string, string>();
+  for (const bookId of [book.id, ...(book.sources || []).map((record) => record.id)]) {
+    const found = findSourceByBookId(bookId);
+    if (found && !sourceIds.has(found.source.id)) {
+      sourceIds.set(found.source.id, found.id);
+    }
+  }
+
+  const collected: Array<Omit<BookEvidence, "id">> = [];
+  if (book.description) {
+    collected.push({
+      source: book.source,
+      kind: "description",
+      text: book.description,
+      url: book.infoLink,
+    });
+  }
+
+  const ttlMs = resolveCacheTtl("evidence", EVIDENCE_TTL_MS);
+  const settled = await Promise.allSettled(
+    BOOK_SOURCES.map(async (source: BookSource) => {
+      if (!source.getEvidence) return [];
+
+      const id = sourceIds.get(source.id);
+      const namespace = `evidence:${source.id}`;
+      const items = await withCache(
+        namespace,
+        buildCacheKey(namespace, id || book.isbn || `${book.title} ${book.authors.join(" ")}`),
+        ttlMs,
+        () => withTimeout(source.getEvidence!(book, id), EVIDENCE_TIMEOUT_MS, source.name),
+        (items) => items.length > 0
+      );
+      return items.map((item) => ({ ...item, source: source.id as BookSourceId }));
+    })
+  );
+  settled.forEach((result, i) => {
+    if (result.status === "fulfilled") {
+      collected.push(...result.value);
+    } else {
+      const error = result.reason instanceof Error ? result.reason.message : String(result.reason);
+      console.warn(`[Sources] ${BOOK_SOURCES[i].name} evidence error:`, error);
+    }
+  });
+
+  // 不同数据源的简介经常相同，按开头去重
+  const seen = new Set<string>();
+  const evidence = collected
+    .map((item) => ({ ...item, text: item.text.trim().slice(0, MAX_EVIDENCE_CHARS) }))
+    .filter((item) => {
+      const key = item.text.toLowerCase().replace(/\s+/g, " ").slice(0, 100);
+      if (!item.text || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => EVIDENCE_PRIORITY[a.kind] - EVIDENCE_PRIORITY[b.kind])
+    .slice(0, MAX_EVIDENCE)
+    .map((item, i) => ({ id: `E${i + 1}`, ...item }));
+
+  console.log(
+    `[Sources] Collected ${evidence.length} evidence for "${book.title}":`,
+    evidence.map((item) => `${item.source}/${item.kind}`).join(", ")
+  );
+  return evidence;
+}
@@ -0,0 +1,100 @@
+import { Book, BookEvidence, SearchFilters, SearchResult } from "@/types/book";
+
+/**
+ * 书籍数据源支持的语言
+ */
+export type SourceLanguage = "zh" | "en";
+
+/**
+ * 搜索时的语言偏好
+ */
+export type LanguagePreference = "zh" | "en" | "any";
+
+/**
+ * 数据源能力声明
+ */
+export interface BookSourceCapabilities {
+  getById: boolean; // 是否支持按 ID 获取详情
+  readableOnline: boolean; // 是否提供在线阅读
+  ratings: boolean; // 是否提供评分
+  languageFilter: boolean; // 是否支持按语言过滤
+  multiQuery: boolean; // 是否对每个查询变体分别搜索
+  maxResultsPerRequest: number; // 单次请求最大结果数
+}
+
+/**
+ * 数据源搜索参数
+ */
+export interface BookSourceSearchOptions {
+  maxResults: number;
+  language?: LanguagePreference;
+  filters?: SearchFilters;
+  offset?: number; // 跳过的结果数（分页）
+}
+
+/**
+ * 数据源配比上下文
+ */
+export interface SourceWeightContext {
+  language: LanguagePreference;
+  queryHasChinese: boolean;
+}
+
+/**
+ * 书籍数据源
+ * 新增数据源只需实现该接口并在 registry 中注册
+ */
+export interface BookSource<TId extends string = string> {
+  id: TId;
+  name: string;
+  idPrefix: string; // 书籍 ID 前缀，如 "google_xxx" 中的 "google"
+  supportedLanguages: SourceLanguage[];
+  capabilities: BookSourceCapabilities;
+  timeoutMs?: number; // 搜索超时（毫秒），不设置则不限制
+  cacheTtlMs?: number; // 搜索结果缓存时间（毫秒），可被 SEARCH_CACHE_TTL_<ID> 覆盖
+  /**
+   * 该数据源在结果中的配比（0-1），0 表示不参与搜索
+   */
+  weight(context: SourceWeightContext): number;
+  search(query: string, options: BookSourceSearchOptions): Promise<SearchResult>;
+  getById?(id: string): Promise<Book | null>;
+  /**
+   * 获取书籍分析的依据（简介、主题、正文片段）
+   * 书籍在该数据源有记录时传入原始 ID，否则可按 ISBN、书名自行查找，找不到时返回空数组
+   */
+  getEvidence?(book: Book, id?: string): Promise<SourceEvidence[]>;
+}
+
+/**
+ * 数据源返回的分析依据，编号和来源由 collectBookEvidence 统一补充
+ */
+export type SourceEvidence = Omit<BookEvidence, "id" | "source">;
+
+/**
+ * 单个数据源的搜索结果
+ */
+export interface SourceSearchResult {
+  sourceId: string;
+  books: Book[];
+  totalItems: number;
+  elapsedMs: number;
+  error?: string;
+  offset: number; // 本次请求的起始位置
+  nextOffset: number; // 下一页的起始位置
+  exhausted: boolean; // 没有更多结果
+}
+
+/**
+ * 多数据源分页状态：各数据源下一页的起始位置，以及已经没有更多结果的数据源
+ */
+export interface SourcePagination {
+  offsets: Record<string, number>;
+  exhausted: string[];
+}
+
+/**
+ * 多数据源搜索进度，用于流式展示
+ */
+export type SourceProgressEvent =
+  | { type: "start"; sources: Array<{ id: string; name: string }> }
+  | { type: "result"; sourceName: string; result: SourceSearchResult };
@@ -0,0 +1,96 @@
+/**
+ * Server-Sent Events 工具
+ * 服务端把事件序列编码为 SSE 响应，客户端用 fetch 读取（EventSource 不支持 POST）
+ */
+
+const encoder = new TextEncoder();
+
+/**
+ * 将异步事件序列转换为 SSE 响应
+ * @param toErrorEvent 序列抛出异常时，转换为最后一个事件发送给客户端
+ */
+export function createSSEResponse<T>(
+  events: AsyncIterable<T>,
+  toErrorEvent: (error: unknown) => T
+): Response {
+  const iterator = events[Symbol.asyncIterator]();
+  // 客户端断开后流被取消，不能再写入或关闭
+  let closed = false;
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: T) => {
+        if (closed) return;
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      try {
+        while (!closed) {
+          const { done, value } = await iterator.next();
+          if (done) break;
+          send(value);
+        }
+      } catch (error) {
+        send(toErrorEvent(error));
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+    cancel() {
+      closed = true;
+      // 结束事件序列（执行生成器的 finally），正在等待的事件完成后生效
+      iterator.return?.().catch((error) => {
+        console.error("[SSE] Failed to end event stream:", error);
+      });
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/**
+ * 读取 SSE 响应，逐个回调解析后的事件
+ */
+export async function readSSEStream<T>(
+  response: Response,
+  onEvent: (event: T) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error("Response has no body");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // 事件之间以空行分隔，最后一段可能不完整，留到下次处理
+    const parts = buffer.split("\n\n");
+    buffer = parts.pop() || "";
+
+    for (const part of parts) {
+      const data = part
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+      if (data) {
+        onEvent(JSON.parse(data) as T);
+      }
+    }
+  }
+}
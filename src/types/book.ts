@@ -1,5 +1,10 @@
 // Book types for the application
 
+import type { BookSourceId } from "@/lib/sources/registry";
+import type { SearchCursor } from "@/lib/sources/pagination";
+import type { RankingExplanation } from "@/lib/ranking";
+import type { InferredPreferences } from "@/lib/agents/types";
+
 export interface Book {
   id: string;
   title: string;
@@ -14,12 +19,38 @@ export interface Book {
   previewLink?: string;
   infoLink?: string;
   readOnlineLink?: string; // 在线阅读链接
+  hasPreview?: boolean; // 数据源提供可预览的内容（部分或全文）
   averageRating?: number;
   ratingsCount?: number;
   isbn?: string;
   doubanRating?: number; // 豆瓣评分
   doubanUrl?: string; // 豆瓣链接
-  source: "google" | "openlibrary" | "internetarchive" | "douban";
+  source: BookSourceId;
+  sources?: BookSourceRecord[]; // 跨数据源合并后，各数据源中的对应记录
+  rationale?: string; // LLM 评审给出的一句话推荐理由
+  classification?: BookClassification; // 预测的难度和类型
+}
+
+/**
+ * 书籍难度与类型分类
+ */
+export interface BookClassification {
+  level?: "beginner" | "intermediate" | "advanced";
+  bookType?: "practical" | "theoretical" | "both";
+  confidence: number; // 0-1
+  method: "heuristic" | "llm";
+}
+
+/**
+ * 书籍在单个数据源中的记录
+ */
+export interface BookSourceRecord {
+  source: BookSourceId;
+  id: string;
+  averageRating?: number;
+  ratingsCount?: number;
+  infoLink?: string;
+  readOnlineLink?: string;
 }
 
 export interface SearchResult {
@@ -35,23 +66,108 @@ export interface BookAnalysis {
   difficulty: "beginner" | "intermediate" | "advanced";
   keyTakeaways: string[];
   shouldRead: {
-    score: number; // 0-100
+    score: number; // 0-100，个性化时为各维度得分的加权平均
     reasons: string[];
+    breakdown?: ShouldReadBreakdown; // 按读者画像的分维度得分
+    personalized?: boolean; // 是否根据读者画像评分
   };
   similarBooks?: string[];
+  evidence?: BookEvidence[]; // 分析时参考的书籍内容
+  citations?: BookAnalysisCitations; // 各字段引用的证据 ID
+}
+
+/**
+ * “是否值得读”的分维度得分（0-100），读者画像中没有对应信息的维度不出现
+ */
+export interface ShouldReadBreakdown {
+  levelFit?: number; // 难度与读者水平是否匹配
+  topicFit?: number; // 内容与关注主题、阅读记录是否相关
+  practicalityFit?: number; // 实战 / 理论取向是否符合偏好
+}
+
+/**
+ * 读者画像：对话中确认的偏好和最近看过的书，用于个性化书籍分析
+ */
+export interface ReaderProfile {
+  preferences?: Partial<Pick<InferredPreferences, "level" | "bookType" | "topic">>;
+  readingHistory?: string[]; // 最近看过的书名
+}
+
+/**
+ * 分析依据：从数据源获取的书籍内容片段
+ */
+export interface BookEvidence {
+  id: string; // 引用编号，如 "E1"
+  source: BookSourceId;
+  kind: "description" | "subjects" | "snippet" | "fulltext";
+  text: string;
+  url?: string;
 }
 
+/**
+ * 分析结果各字段引用的证据 ID，没有依据的字段不出现
+ */
+export type BookAnalysisCitations = Partial<
+  Record<
+    | "summary"
+    | "themes"
+    | "targetAudience"
+    | "difficulty"
+    | "keyTakeaways"
+    | "shouldRead"
+    | "similarBooks",
+    string[]
+  >
+>;
+
+/**
+ * 搜索过滤条件
+ * language、orderBy 传给数据源；其余为分面条件，在合并后的结果中过滤，切换时不重新请求数据源
+ */
 export interface SearchFilters {
   language?: string;
   category?: string;
   orderBy?: "relevance" | "newest";
+  yearFrom?: number; // 出版年份范围（含）
+  yearTo?: number;
+  minPages?: number; // 页数范围（含）
+  maxPages?: number;
+  minRating?: number; // 最低评分（5 分制）
+  sources?: BookSourceId[];
+  readable?: boolean; // 只看可预览或可在线阅读的书
+}
+
+/**
+ * 分面取值及对应的书籍数量
+ */
+export interface FacetCount {
+  value: string;
+  count: number;
+}
+
+/**
+ * 搜索结果的分面统计（基于合并后的全部结果，不受分面条件影响）
+ */
+export interface SearchFacets {
+  total: number;
+  years: FacetCount[]; // 按年代，value 为年代起始年份，如 "2010"
+  pageCounts: FacetCount[]; // value 为页数区间，如 "200-400"、"800-"
+  ratings: FacetCount[]; // value 为评分下限，count 为评分不低于该值的数量
+  sources: FacetCount[];
+  categories: FacetCount[];
+  readable: number;
 }
 
 export interface AgentState {
   query: string;
   filters?: SearchFilters;
+  cursor?: SearchCursor; // 从上一页的位置继续搜索
   books: Book[];
+  ranking?: RankingExplanation[]; // 与 books 对应的排序说明
+  facets?: SearchFacets; // 分面统计
+  nextCursor?: string; // 下一页游标，没有更多结果时为空
   selectedBook?: Book;
+  reader?: ReaderProfile; // 分析时的读者画像
   analysis?: BookAnalysis;
   messages: AgentMessage[];
   error?: string;
@@ -10,6 +10,7 @@ export type LLMProvider =
   | "openai" // OpenAI
   | "anthropic" // Anthropic Claude
   | "google" // Google Gemini
+  | "azure" // Azure OpenAI
   | "deepseek" // DeepSeek
   | "ollama" // Ollama 本地模型
   | "groq" // Groq (超快推理)
@@ -60,22 +61,113 @@ export interface ModelInfo {
 export interface UserModelConfig {
   provider: LLMProvider;
   model: string;
-  apiKey?: string;
+  apiKey?: string; // 只在请求中临时传递，不会保存
+  apiKeyId?: string; // 服务端加密保存的 API Key
   baseUrl?: string;
   // Ollama 特定配置
   ollamaHost?: string;
+  // Azure OpenAI 特定配置：部署名称（默认与模型名相同）和 API 版本
+  azureDeployment?: string;
+  azureApiVersion?: string;
+  // 生成参数，不设置时使用任务默认值（见 TASK_DEFAULTS）
+  temperature?: number;
+  maxTokens?: number;
+  // 备用模型，主模型不可用时按顺序故障转移
+  fallbacks?: FallbackModelConfig[];
+  // 按任务单独配置的模型
+  tasks?: Partial<Record<LLMTask, TaskModelConfig>>;
+}
+
+/**
+ * 备用模型配置
+ */
+export type FallbackModelConfig = Omit<UserModelConfig, "fallbacks" | "tasks">;
+
+/**
+ * 使用 LLM 的任务
+ */
+export type LLMTask =
+  | "intent" // 意图分析、工具选择
+  | "keywords" // 关键词提取、书籍分类
+  | "recommendationBlurb" // 推荐说明、重排理由
+  | "bookAnalysis" // 单本书籍分析
+  | "chat"; // 基础对话
+
+/**
+ * 单个任务的模型配置，未设置的字段沿用主模型配置
+ * 服务商与主模型不同时使用该服务商自己的 Key 和地址
+ */
+export interface TaskModelConfig {
+  provider?: LLMProvider;
+  model?: string;
+  apiKey?: string;
+  apiKeyId?: string;
+  baseUrl?: string;
+  ollamaHost?: string;
+  azureDeployment?: string;
+  azureApiVersion?: string;
+  temperature?: number;
+  maxTokens?: number;
 }
 
+/**
+ * 任务信息和默认生成参数
+ * JSON 提取类任务使用低温度保证输出稳定
+ */
+export const LLM_TASKS: Array<{
+  id: LLMTask;
+  name: string;
+  description: string;
+  temperature: number;
+  maxTokens: number;
+}> = [
+  {
+    id: "intent",
+    name: "意图分析",
+    description: "理解需求、选择搜索工具",
+    temperature: 0,
+    maxTokens: 800,
+  },
+  {
+    id: "keywords",
+    name: "关键词提取",
+    description: "提取搜索关键词、书籍分级",
+    temperature: 0,
+    maxTokens: 500,
+  },
+  {
+    id: "recommendationBlurb",
+    name: "推荐说明",
+    description: "生成推荐语、结果重排",
+    temperature: 0.7,
+    maxTokens: 1000,
+  },
+  {
+    id: "bookAnalysis",
+    name: "书籍分析",
+    description: "分析单本书是否值得读",
+    temperature: 0.3,
+    maxTokens: 1500,
+  },
+  { id: "chat", name: "对话", description: "基础对话模式", temperature: 0.7, maxTokens: 1000 },
+];
+
 /**
  * 存储在 localStorage 的完整配置
+ * API Key 加密保存在服务端，本地只保存 Key ID 和末尾几位提示
  */
 export interface StoredModelConfig {
   activeConfig: UserModelConfig;
   savedConfigs: {
     [provider: string]: {
+      apiKeyId?: string;
+      apiKeyHint?: string;
+      /** @deprecated 旧版本明文保存的 Key，加载时迁移到服务端 */
       apiKey?: string;
       baseUrl?: string;
       lastModel?: string;
+      azureDeployment?: string;
+      azureApiVersion?: string;
     };
   };
 }
@@ -213,6 +305,30 @@ export const PROVIDERS: ProviderConfig[] = [
       },
     ],
   },
+  {
+    id: "azure",
+    name: "Azure OpenAI",
+    description: "Azure 上部署的 GPT-4o 等模型",
+    baseUrl: "", // 资源地址，如 https://<resource>.openai.azure.com
+    requiresApiKey: true,
+    icon: "☁️",
+    models: [
+      {
+        id: "gpt-4o",
+        name: "GPT-4o",
+        description: "部署名称默认与模型名相同",
+        contextLength: 128000,
+        pricing: { input: 2.5, output: 10 },
+      },
+      {
+        id: "gpt-4o-mini",
+        name: "GPT-4o Mini",
+        description: "性价比高",
+        contextLength: 128000,
+        pricing: { input: 0.15, output: 0.6 },
+      },
+    ],
+  },
   {
     id: "deepseek",
     name: "DeepSeek",
@@ -711,6 +827,11 @@ export const PROVIDERS: ProviderConfig[] = [
   },
 ];
 
+/**
+ * Azure OpenAI 默认 API 版本
+ */
+export const AZURE_DEFAULT_API_VERSION = "2024-10-21";
+
 /**
  * 默认配置
  */
@@ -720,6 +841,13 @@ export const DEFAULT_CONFIG: UserModelConfig = {
   ollamaHost: "http://localhost:11434",
 };
 
+/**
+ * 获取任务信息
+ */
+export function getTaskInfo(task: LLMTask) {
+  return LLM_TASKS.find((t) => t.id === task)!;
+}
+
 /**
  * 获取服务商配置
  */
@@ -0,0 +1,110 @@
+#!/bin/bash
+
+# Agent 澄清流程回归测试
+# 第一句话中的出版年份偏好（最新 / 经典）在 Agent 追问澄清后不能丢失
+#
+# 使用方法（需先启动开发服务器并配置好 LLM）:
+#   chmod +x tests/agent-clarification-test.sh
+#   ./tests/agent-clarification-test.sh
+
+API_URL="http://localhost:3000/api/chat"
+
+# 颜色输出
+RED='\033[0;31m'
+GREEN='\033[0;32m'
+YELLOW='\033[1;33m'
+BLUE='\033[0;34m'
+NC='\033[0m' # No Color
+
+FAILED=0
+
+# 发送一轮 Agent 对话，输出响应 JSON
+send_turn() {
+  local message="$1"
+  local thread_id="$2"
+
+  local json_data
+  if [ -n "$thread_id" ]; then
+    json_data=$(jq -n --arg message "$message" --arg threadId "$thread_id" \
+      '{message: $message, mode: "agent", threadId: $threadId}')
+  else
+    json_data=$(jq -n --arg message "$message" '{message: $message, mode: "agent"}')
+  fi
+
+  curl -s -X POST "$API_URL" \
+    -H "Content-Type: application/json" \
+    -d "$json_data" 2>/dev/null
+}
+
+# 断言 JSON 字段的值
+expect_field() {
+  local label="$1"
+  local result="$2"
+  local path="$3"
+  local expected="$4"
+
+  local actual
+  actual=$(echo "$result" | jq -r "$path // \"null\"" 2>/dev/null)
+  if [ "$actual" = "$expected" ]; then
+    echo -e "${GREEN}✓ $label: $actual${NC}"
+  else
+    echo -e "${RED}✗ $label: 期望 $expected，实际 $actual${NC}"
+    FAILED=1
+  fi
+}
+
+# 测试函数：第一句带年份偏好但缺少难度，Agent 追问后回答难度
+test_year_preference_survives_clarification() {
+  local first_message="$1"
+  local answer="$2"
+  local expected_year="$3"
+
+  echo ""
+  echo -e "${BLUE}==========================================${NC}"
+  echo -e "${YELLOW}测试: 澄清后保留年份偏好 ($expected_year)${NC}"
+  echo -e "${BLUE}==========================================${NC}"
+  echo "第一轮: $first_message"
+
+  local first
+  first=$(send_turn "$first_message")
+  local thread_id
+  thread_id=$(echo "$first" | jq -r '.threadId // empty' 2>/dev/null)
+  local phase
+  phase=$(echo "$first" | jq -r '.state.phase // empty' 2>/dev/null)
+
+  if [ -z "$thread_id" ]; then
+    echo -e "${RED}✗ 第一轮请求失败${NC}"
+    FAILED=1
+    return
+  fi
+  if [ "$phase" != "gathering" ]; then
+    echo -e "${YELLOW}△ Agent 没有追问（phase: $phase），跳过${NC}"
+    return
+  fi
+
+  echo "追问: $(echo "$first" | jq -r '.message')"
+  expect_field "追问时保存的年份偏好" "$first" '.state.preferences.yearPreference' "$expected_year"
+
+  echo "第二轮: $answer"
+  local second
+  second=$(send_turn "$answer" "$thread_id")
+  expect_field "回答后推断的年份偏好" "$second" '.inferredPreferences.yearPreference' "$expected_year"
+}
+
+main() {
+  echo ""
+  echo "API 地址: $API_URL"
+
+  test_year_preference_survives_clarification "推荐几本最新的编程书" "入门" "latest"
+  test_year_preference_survives_clarification "I want some classic programming books" "beginner" "classic"
+
+  echo ""
+  if [ "$FAILED" -eq 0 ]; then
+    echo -e "${GREEN}全部通过${NC}"
+  else
+    echo -e "${RED}存在失败的测试${NC}"
+  fi
+  exit $FAILED
+}
+
+main